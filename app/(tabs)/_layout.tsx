@@ -3,7 +3,7 @@ import { Ionicons } from "@expo/vector-icons";
 
 /**
  * Tab Layout - Auto-generated by AppForge
- * Configured for: Home, Profile, Settings
+ * Configured for: Home, Library, Stats, Profile, Settings
  */
 const RouterTabs = () => {
   return (
@@ -35,6 +35,24 @@ const RouterTabs = () => {
           ),
         }}
       />
+      <Tabs.Screen
+        name="library"
+        options={{
+          title: 'Library',
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="library" color={color} size={size} />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="stats"
+        options={{
+          title: 'Stats',
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="stats-chart" color={color} size={size} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
@@ -6,6 +6,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAppStore, Book } from '../../src/stores/appStore';
 import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
 import { useAuthStore } from '../../src/stores/authStore';
+import { countReadsFinishedIn } from '../../src/utils/bookReads';
+import BookCover from '../../src/components/BookCover';
 
 export default function HomeScreen() {
   const router = useRouter();
@@ -13,8 +15,8 @@ export default function HomeScreen() {
   const { isPremium } = useSubscriptionStore();
   const {
     books,
+    bookReads,
     readingStreak,
-    readingGoal,
     isLoading: loading,
     error,
     fetchBooks,
@@ -25,10 +27,8 @@ export default function HomeScreen() {
   // Filter books by status
   const currentlyReading = books.filter(b => b.status === 'reading');
   const toRead = books.filter(b => b.status === 'to_read');
-  const finishedThisYear = books.filter(b => {
-    if (!b.date_finished) return false;
-    return new Date(b.date_finished).getFullYear() === new Date().getFullYear();
-  });
+  // Each finished read counts, so a book re-read this year counts again
+  const finishedThisYear = countReadsFinishedIn(books, bookReads, new Date().getFullYear());
 
   const fetchData = useCallback(async () => {
     await fetchBooks();
@@ -100,8 +100,18 @@ export default function HomeScreen() {
         }
       >
         <View style={styles.header}>
-          <Text style={styles.title}>BookBuddy</Text>
-          <Text style={styles.subtitle}>Your Reading Journey</Text>
+          <View>
+            <Text style={styles.title}>BookBuddy</Text>
+            <Text style={styles.subtitle}>Your Reading Journey</Text>
+          </View>
+          <TouchableOpacity
+            style={styles.searchButton}
+            onPress={() => router.push('/search')}
+            accessibilityLabel="Search books"
+            accessibilityRole="button"
+          >
+            <Ionicons name="search" size={24} color="#111827" />
+          </TouchableOpacity>
         </View>
 
         {/* Stats Section */}
@@ -113,7 +123,7 @@ export default function HomeScreen() {
           </View>
           <View style={styles.statCard}>
             <Ionicons name="book" size={28} color="#60A5FA" />
-            <Text style={styles.statValue}>{finishedThisYear.length}</Text>
+            <Text style={styles.statValue}>{finishedThisYear}</Text>
             <Text style={styles.statLabel}>Books This Year</Text>
           </View>
           <View style={styles.statCard}>
@@ -152,6 +162,7 @@ export default function HomeScreen() {
                 accessibilityLabel={`${book.title} by ${book.author}`}
                 accessibilityRole="button"
               >
+                <BookCover uri={book.cover_url} size="sm" style={styles.cardCover} />
                 <View style={styles.cardContent}>
                   <Text style={styles.cardTitle} numberOfLines={1}>{book.title}</Text>
                   <Text style={styles.cardAuthor} numberOfLines={1}>{book.author}</Text>
@@ -180,6 +191,7 @@ export default function HomeScreen() {
                 accessibilityLabel={`${book.title} by ${book.author}`}
                 accessibilityRole="button"
               >
+                <BookCover uri={book.cover_url} size="sm" style={styles.cardCover} />
                 <View style={styles.cardContent}>
                   <Text style={styles.cardTitle} numberOfLines={1}>{book.title}</Text>
                   <Text style={styles.cardAuthor} numberOfLines={1}>{book.author}</Text>
@@ -266,8 +278,18 @@ const styles = StyleSheet.create({
     fontWeight: '600' 
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
     marginBottom: 24
   },
+  searchButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   title: { 
     fontSize: 32, 
     fontWeight: '700',
@@ -404,6 +426,9 @@ const styles = StyleSheet.create({
     elevation: 3,
     minHeight: 44
   },
+  cardCover: {
+    marginRight: 12,
+  },
   cardContent: {
     flex: 1,
     marginRight: 12
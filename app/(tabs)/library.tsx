@@ -0,0 +1,531 @@
+/**
+ * Library Screen
+ * Every book in the library, with filters, sorting and grouping that are remembered per user
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { FlashList } from '@shopify/flash-list';
+import { useAppStore, type Book } from '../../src/stores/appStore';
+import {
+  DEFAULT_LIBRARY_VIEW,
+  buildLibraryList,
+  getLibraryFacets,
+  type LibraryFilters,
+  type LibraryGrouping,
+  type LibraryListItem,
+  type LibrarySortField,
+  type LibraryView,
+} from '../../src/utils/library';
+import BookCover from '../../src/components/BookCover';
+
+const STATUS_OPTIONS: { value: Book['status'] | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'reading', label: 'Reading' },
+  { value: 'to_read', label: 'To Read' },
+  { value: 'finished', label: 'Finished' },
+  { value: 'dnf', label: 'DNF' },
+];
+
+const SORT_OPTIONS: { value: LibrarySortField; label: string }[] = [
+  { value: 'date_added', label: 'Date Added' },
+  { value: 'title', label: 'Title' },
+  { value: 'author', label: 'Author' },
+  { value: 'date_finished', label: 'Date Finished' },
+  { value: 'progress', label: 'Progress' },
+];
+
+const GROUP_OPTIONS: { value: LibraryGrouping; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'author', label: 'Author' },
+  { value: 'category', label: 'Category' },
+];
+
+const RATING_OPTIONS = [1, 2, 3, 4, 5];
+
+const STATUS_LABELS: Record<Book['status'], string> = {
+  to_read: 'To Read',
+  reading: 'Reading',
+  finished: 'Finished',
+  dnf: 'Did Not Finish',
+};
+
+export default function LibraryScreen() {
+  const router = useRouter();
+  const { user, books, bookReads, libraryViews, setLibraryView, fetchBooks, syncAll } = useAppStore();
+
+  const view = (user && libraryViews[user.id]) || DEFAULT_LIBRARY_VIEW;
+  const [showOptions, setShowOptions] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const items = useMemo(() => buildLibraryList(books, bookReads, view), [books, bookReads, view]);
+  const facets = useMemo(() => getLibraryFacets(books, bookReads), [books, bookReads]);
+  const bookCount = useMemo(() => items.filter(item => item.type === 'book').length, [items]);
+  const stickyHeaderIndices = useMemo(
+    () => items.flatMap((item, index) => (item.type === 'header' ? [index] : [])),
+    [items]
+  );
+  const activeFilterCount = [view.filters.category, view.filters.minRating, view.filters.yearFinished]
+    .filter(value => value !== null).length;
+
+  useEffect(() => {
+    if (user) fetchBooks();
+  }, [user, fetchBooks]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await syncAll();
+    setRefreshing(false);
+  }, [syncAll]);
+
+  const updateView = (changes: Partial<LibraryView>) => setLibraryView({ ...view, ...changes });
+
+  const updateFilters = (changes: Partial<LibraryFilters>) =>
+    updateView({ filters: { ...view.filters, ...changes } });
+
+  const renderItem = ({ item }: { item: LibraryListItem }) => {
+    if (item.type === 'header') {
+      return (
+        <View style={styles.groupHeader}>
+          <Text style={styles.groupTitle} numberOfLines={1}>{item.title}</Text>
+          <Text style={styles.groupCount}>{item.count}</Text>
+        </View>
+      );
+    }
+
+    const { book } = item;
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() => router.push(`/book/${book.id}`)}
+        accessibilityLabel={`${book.title} by ${book.author}`}
+        accessibilityRole="button"
+      >
+        <BookCover uri={book.cover_url} size="sm" style={styles.cardCover} />
+        <View style={styles.cardContent}>
+          <Text style={styles.cardTitle} numberOfLines={1}>{book.title}</Text>
+          <Text style={styles.cardAuthor} numberOfLines={1}>{book.author}</Text>
+          <View style={styles.cardMeta}>
+            <Text style={styles.cardStatus}>{STATUS_LABELS[book.status]}</Text>
+            {book.status === 'reading' && (
+              <Text style={styles.cardMetaText}>{book.progress}%</Text>
+            )}
+            {book.rating ? (
+              <View style={styles.cardRating}>
+                <Ionicons name="star" size={12} color="#FBBF24" />
+                <Text style={styles.cardMetaText}>{book.rating}</Text>
+              </View>
+            ) : null}
+          </View>
+        </View>
+        <Ionicons name="chevron-forward" size={24} color="#9CA3AF" />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.title}>Library</Text>
+          <Text style={styles.subtitle}>
+            {bookCount} of {books.length} {books.length === 1 ? 'book' : 'books'}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.optionsButton}
+          onPress={() => setShowOptions(true)}
+          accessibilityLabel="Filter and sort"
+        >
+          <Ionicons name="options-outline" size={24} color="#111827" />
+          {activeFilterCount > 0 && (
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>{activeFilterCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* Status Filter */}
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.statusChips}
+        >
+          {STATUS_OPTIONS.map(option =>
+            renderChip(option.label, view.filters.status === option.value, () =>
+              updateFilters({ status: option.value })
+            )
+          )}
+        </ScrollView>
+      </View>
+
+      <FlashList
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={item => item.key}
+        getItemType={item => item.type}
+        stickyHeaderIndices={stickyHeaderIndices}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={['#F59E0B']}
+            tintColor="#F59E0B"
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="library-outline" size={64} color="#D1D5DB" />
+            <Text style={styles.emptyTitle}>
+              {books.length === 0 ? 'No Books Yet' : 'No Matching Books'}
+            </Text>
+            <Text style={styles.emptyText}>
+              {books.length === 0
+                ? 'Books you add will show up here'
+                : 'Try a different filter'}
+            </Text>
+            {books.length > 0 && (
+              <TouchableOpacity
+                style={styles.resetButton}
+                onPress={() => updateView({ filters: DEFAULT_LIBRARY_VIEW.filters })}
+              >
+                <Text style={styles.resetButtonText}>Clear Filters</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        }
+      />
+
+      {/* Filter, Sort & Group Options */}
+      <Modal
+        visible={showOptions}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowOptions(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>View Options</Text>
+              <TouchableOpacity onPress={() => setShowOptions(false)} accessibilityLabel="Close">
+                <Ionicons name="close" size={24} color="#111827" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.optionLabel}>Sort By</Text>
+              <View style={styles.optionChips}>
+                {SORT_OPTIONS.map(option =>
+                  renderChip(option.label, view.sortBy === option.value, () =>
+                    updateView({ sortBy: option.value })
+                  )
+                )}
+              </View>
+              <TouchableOpacity
+                style={styles.directionToggle}
+                onPress={() => updateView({ sortAscending: !view.sortAscending })}
+              >
+                <Ionicons
+                  name={view.sortAscending ? 'arrow-up' : 'arrow-down'}
+                  size={18}
+                  color="#D97706"
+                />
+                <Text style={styles.directionText}>
+                  {view.sortAscending ? 'Ascending' : 'Descending'}
+                </Text>
+              </TouchableOpacity>
+
+              <Text style={styles.optionLabel}>Group By</Text>
+              <View style={styles.optionChips}>
+                {GROUP_OPTIONS.map(option =>
+                  renderChip(option.label, view.groupBy === option.value, () =>
+                    updateView({ groupBy: option.value })
+                  )
+                )}
+              </View>
+
+              <Text style={styles.optionLabel}>Category</Text>
+              <View style={styles.optionChips}>
+                {renderChip('Any', view.filters.category === null, () =>
+                  updateFilters({ category: null })
+                )}
+                {facets.categories.map(category =>
+                  renderChip(category, view.filters.category === category, () =>
+                    updateFilters({ category })
+                  )
+                )}
+              </View>
+
+              <Text style={styles.optionLabel}>Rating</Text>
+              <View style={styles.optionChips}>
+                {renderChip('Any', view.filters.minRating === null, () =>
+                  updateFilters({ minRating: null })
+                )}
+                {RATING_OPTIONS.map(rating =>
+                  renderChip(`${rating}+ ★`, view.filters.minRating === rating, () =>
+                    updateFilters({ minRating: rating })
+                  )
+                )}
+              </View>
+
+              <Text style={styles.optionLabel}>Year Finished</Text>
+              <View style={styles.optionChips}>
+                {renderChip('Any', view.filters.yearFinished === null, () =>
+                  updateFilters({ yearFinished: null })
+                )}
+                {facets.years.map(year =>
+                  renderChip(String(year), view.filters.yearFinished === year, () =>
+                    updateFilters({ yearFinished: year })
+                  )
+                )}
+              </View>
+
+              <TouchableOpacity
+                style={styles.resetButton}
+                onPress={() => updateView(DEFAULT_LIBRARY_VIEW)}
+              >
+                <Text style={styles.resetButtonText}>Reset View</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  optionsButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badge: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#F59E0B',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  statusChips: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  chipActive: {
+    backgroundColor: '#FEF3C7',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#D97706',
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  groupCount: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginLeft: 8,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 12,
+  },
+  cardCover: {
+    marginRight: 12,
+  },
+  cardContent: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  cardAuthor: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  cardMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  cardStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#D97706',
+  },
+  cardMetaText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  cardRating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 64,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  resetButton: {
+    alignSelf: 'center',
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 24,
+  },
+  resetButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  optionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  directionToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 12,
+  },
+  directionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#D97706',
+  },
+});
@@ -5,6 +5,8 @@ import { useRouter } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import { Ionicons } from '@expo/vector-icons';
 import { useProfileStore } from '../../src/stores/profileStore';
+import { useAppStore } from '../../src/stores/appStore';
+import { ACHIEVEMENTS, type Achievement } from '../../src/utils/achievements';
 
 interface ProfileFormData {
   name: string;
@@ -16,6 +18,8 @@ interface ProfileFormData {
 export default function ProfileScreen() {
   const router = useRouter();
   const { user, isLoading, updateProfile, fetchProfile } = useProfileStore();
+  const { unlockedAchievements } = useAppStore();
+  const unlockedAt = new Map(unlockedAchievements.map((unlocked) => [unlocked.achievement_id, unlocked.unlocked_at]));
   
   const [formData, setFormData] = useState<ProfileFormData>({
     name: '',
@@ -119,6 +123,16 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleBadgePress = (achievement: Achievement) => {
+    const date = unlockedAt.get(achievement.id);
+    Alert.alert(
+      `${achievement.icon} ${achievement.title}`,
+      date
+        ? `${achievement.description}\n\nUnlocked ${new Date(date).toLocaleDateString()}`
+        : `${achievement.description}\n\nNot unlocked yet`
+    );
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -258,6 +272,39 @@ export default function ProfileScreen() {
             )}
           </TouchableOpacity>
         </View>
+
+        {/* Badge Gallery */}
+        <View style={styles.badgeSection}>
+          <View style={styles.badgeHeader}>
+            <Text style={styles.badgeSectionTitle}>Achievements</Text>
+            <Text style={styles.badgeCount}>
+              {unlockedAt.size} of {ACHIEVEMENTS.length}
+            </Text>
+          </View>
+          <View style={styles.badgeGrid}>
+            {ACHIEVEMENTS.map((achievement) => {
+              const unlocked = unlockedAt.has(achievement.id);
+              return (
+                <TouchableOpacity
+                  key={achievement.id}
+                  style={[styles.badge, !unlocked && styles.badgeLocked]}
+                  onPress={() => handleBadgePress(achievement)}
+                  accessibilityLabel={`${achievement.title}, ${unlocked ? 'unlocked' : 'locked'}`}
+                  accessibilityHint={achievement.description}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.badgeIcon, !unlocked && styles.badgeIconLocked]}>
+                    {achievement.icon}
+                  </Text>
+                  <Text style={styles.badgeTitle} numberOfLines={2}>{achievement.title}</Text>
+                  {!unlocked && (
+                    <Ionicons name="lock-closed" size={12} color="#9CA3AF" style={styles.badgeLock} />
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
       </ScrollView>
 
       {Platform.OS === 'ios' && (
@@ -417,6 +464,61 @@ const styles = StyleSheet.create({
   submitButtonDisabled: {
     opacity: 0.6,
   },
+  badgeSection: {
+    paddingHorizontal: 16,
+    marginTop: 32,
+  },
+  badgeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 12,
+  },
+  badgeSectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  badgeCount: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  badgeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: 12,
+  },
+  badge: {
+    width: '31%',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 8,
+    minHeight: 44,
+  },
+  badgeLocked: {
+    backgroundColor: '#F3F4F6',
+  },
+  badgeIcon: {
+    fontSize: 32,
+    marginBottom: 8,
+  },
+  badgeIconLocked: {
+    opacity: 0.3,
+  },
+  badgeTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#111827',
+    textAlign: 'center',
+  },
+  badgeLock: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+  },
   submitButtonText: {
     color: '#FFFFFF',
     fontSize: 16,
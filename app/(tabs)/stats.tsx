@@ -0,0 +1,484 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppStore } from '../../src/stores/appStore';
+import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
+import { getFeatureLimit } from '../../src/config/premiumFeatures';
+import { countReadsFinishedIn } from '../../src/utils/bookReads';
+import { formatRating } from '../../src/utils/ratings';
+import {
+  getAverageRating,
+  getAverageReadingSpeed,
+  getBooksFinishedByMonth,
+  getCategoryBreakdown,
+  getFinishTimeDistribution,
+  getPageStats,
+  getReadingHeatmap,
+} from '../../src/utils/stats';
+
+const MONTH_LABELS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+const HEATMAP_WEEKS = 15;
+const HEATMAP_COLORS = ['#F3F4F6', '#FDE68A', '#FCD34D', '#F59E0B', '#D97706'];
+const CATEGORY_LIMIT = 6;
+
+export default function StatsScreen() {
+  const router = useRouter();
+  const { isPremium } = useSubscriptionStore();
+  const { books, bookReads, readingSessions, readingStreak, syncAll } = useAppStore();
+  const [refreshing, setRefreshing] = useState(false);
+
+  const year = new Date().getFullYear();
+  const advancedStats = getFeatureLimit('advancedStats', isPremium);
+
+  const pageStats = useMemo(() => getPageStats(readingSessions), [readingSessions]);
+  const finishedThisYear = useMemo(
+    () => countReadsFinishedIn(books, bookReads, year),
+    [books, bookReads, year]
+  );
+  const finishedByMonth = useMemo(
+    () => getBooksFinishedByMonth(books, bookReads, year),
+    [books, bookReads, year]
+  );
+  const readingSpeed = useMemo(() => getAverageReadingSpeed(readingSessions), [readingSessions]);
+  const averageRating = useMemo(() => getAverageRating(books), [books]);
+  const categories = useMemo(() => getCategoryBreakdown(books).slice(0, CATEGORY_LIMIT), [books]);
+  const finishTimes = useMemo(() => getFinishTimeDistribution(books, bookReads), [books, bookReads]);
+  const heatmap = useMemo(() => getReadingHeatmap(readingSessions, HEATMAP_WEEKS), [readingSessions]);
+
+  const maxFinished = Math.max(1, ...finishedByMonth);
+  const maxCategory = Math.max(1, ...categories.map((item) => item.count));
+  const maxFinishTime = Math.max(1, ...finishTimes.map((bucket) => bucket.count));
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await syncAll();
+    setRefreshing(false);
+  }, [syncAll]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={['#F59E0B']}
+            tintColor="#F59E0B"
+          />
+        }
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>Statistics</Text>
+          <Text style={styles.subtitle}>Your reading in numbers</Text>
+        </View>
+
+        {/* Basic Stats */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Pages Read</Text>
+          <View style={styles.statsGrid}>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{pageStats.today}</Text>
+              <Text style={styles.statLabel}>Today</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{pageStats.thisWeek}</Text>
+              <Text style={styles.statLabel}>This Week</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{pageStats.thisMonth}</Text>
+              <Text style={styles.statLabel}>This Month</Text>
+            </View>
+          </View>
+          <Text style={styles.caption}>
+            {pageStats.dailyAverage} pages a day on average over the last 30 days
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Books</Text>
+          <View style={styles.statsGrid}>
+            <View style={styles.statCard}>
+              <Ionicons name="book" size={24} color="#60A5FA" />
+              <Text style={styles.statValue}>{finishedThisYear}</Text>
+              <Text style={styles.statLabel}>Finished in {year}</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Ionicons name="flame" size={24} color="#F59E0B" />
+              <Text style={styles.statValue}>{readingStreak.longest_streak}</Text>
+              <Text style={styles.statLabel}>Longest Streak</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Ionicons name="library" size={24} color="#34D399" />
+              <Text style={styles.statValue}>{books.length}</Text>
+              <Text style={styles.statLabel}>In Library</Text>
+            </View>
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={styles.reviewLink}
+          onPress={() => router.push('/year-in-books')}
+          accessibilityLabel="Open Year in Books"
+          accessibilityRole="button"
+        >
+          <Ionicons name="calendar" size={24} color="#F59E0B" />
+          <View style={styles.reviewLinkBody}>
+            <Text style={styles.reviewLinkTitle}>Year in Books</Text>
+            <Text style={styles.reviewLinkText}>Your {year} recap, ready to share</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+        </TouchableOpacity>
+
+        {!advancedStats ? (
+          <TouchableOpacity
+            style={styles.lockedCard}
+            onPress={() => router.push('/subscription')}
+            accessibilityLabel="Unlock advanced statistics"
+            accessibilityRole="button"
+          >
+            <Ionicons name="lock-closed" size={28} color="#D97706" />
+            <Text style={styles.lockedTitle}>Advanced Statistics</Text>
+            <Text style={styles.lockedText}>
+              Monthly trends, reading speed, genres, ratings, time to finish and your reading calendar
+              come with Premium.
+            </Text>
+            <View style={styles.upgradeButton}>
+              <Text style={styles.upgradeButtonText}>Upgrade to Premium</Text>
+            </View>
+          </TouchableOpacity>
+        ) : (
+          <>
+            {/* Books Finished per Month */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Finished per Month</Text>
+              <View style={styles.card}>
+                <View style={styles.barChart}>
+                  {finishedByMonth.map((count, month) => (
+                    <View key={month} style={styles.barColumn}>
+                      <Text style={styles.barValue}>{count > 0 ? count : ''}</Text>
+                      <View style={styles.barTrack}>
+                        <View style={[styles.barFill, { height: `${(count / maxFinished) * 100}%` }]} />
+                      </View>
+                      <Text style={styles.barLabel}>{MONTH_LABELS[month]}</Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            </View>
+
+            {/* Speed and Rating */}
+            <View style={styles.section}>
+              <View style={styles.statsGrid}>
+                <View style={styles.statCard}>
+                  <Ionicons name="speedometer-outline" size={24} color="#8B5CF6" />
+                  <Text style={styles.statValue}>{readingSpeed ?? '–'}</Text>
+                  <Text style={styles.statLabel}>Pages per Hour</Text>
+                </View>
+                <View style={styles.statCard}>
+                  <Ionicons name="star" size={24} color="#F59E0B" />
+                  <Text style={styles.statValue}>
+                    {averageRating !== null ? formatRating(Math.round(averageRating * 10) / 10) : '–'}
+                  </Text>
+                  <Text style={styles.statLabel}>Average Rating</Text>
+                </View>
+              </View>
+            </View>
+
+            {/* Reading Calendar */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Reading Calendar</Text>
+              <View style={styles.card}>
+                <View style={styles.heatmap}>
+                  {heatmap.map((week) => (
+                    <View key={week[0]?.day} style={styles.heatmapColumn}>
+                      {week.map((day) => (
+                        <View
+                          key={day.day}
+                          style={[
+                            styles.heatmapCell,
+                            { backgroundColor: day.isFuture ? 'transparent' : HEATMAP_COLORS[day.level] },
+                          ]}
+                          accessibilityLabel={`${day.day}: ${day.pages} pages`}
+                        />
+                      ))}
+                    </View>
+                  ))}
+                </View>
+                <View style={styles.heatmapLegend}>
+                  <Text style={styles.legendText}>Less</Text>
+                  {HEATMAP_COLORS.map((color) => (
+                    <View key={color} style={[styles.heatmapCell, { backgroundColor: color }]} />
+                  ))}
+                  <Text style={styles.legendText}>More</Text>
+                </View>
+              </View>
+            </View>
+
+            {/* Category Breakdown */}
+            {categories.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Genres</Text>
+                <View style={styles.card}>
+                  {categories.map((item) => (
+                    <View key={item.category} style={styles.rowBar}>
+                      <Text style={styles.rowBarLabel} numberOfLines={1}>{item.category}</Text>
+                      <View style={styles.rowBarTrack}>
+                        <View style={[styles.rowBarFill, { width: `${(item.count / maxCategory) * 100}%` }]} />
+                      </View>
+                      <Text style={styles.rowBarValue}>{item.count}</Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Time to Finish */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Time to Finish</Text>
+              <View style={styles.card}>
+                {finishTimes.map((bucket) => (
+                  <View key={bucket.label} style={styles.rowBar}>
+                    <Text style={styles.rowBarLabel} numberOfLines={1}>{bucket.label}</Text>
+                    <View style={styles.rowBarTrack}>
+                      <View
+                        style={[
+                          styles.rowBarFill,
+                          styles.rowBarFillAlt,
+                          { width: `${(bucket.count / maxFinishTime) * 100}%` },
+                        ]}
+                      />
+                    </View>
+                    <Text style={styles.rowBarValue}>{bucket.count}</Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF'
+  },
+  content: {
+    flex: 1
+  },
+  scrollContent: {
+    padding: 16
+  },
+  header: {
+    marginBottom: 24
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 4
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontWeight: '400'
+  },
+  section: {
+    marginBottom: 24
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    gap: 12
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E7EB'
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 4
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+    textAlign: 'center'
+  },
+  caption: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 12
+  },
+  card: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB'
+  },
+  reviewLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 24
+  },
+  reviewLinkBody: {
+    flex: 1
+  },
+  reviewLinkTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 2
+  },
+  reviewLinkText: {
+    fontSize: 14,
+    color: '#6B7280'
+  },
+  lockedCard: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 12,
+    padding: 24,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#FCD34D',
+    marginBottom: 24
+  },
+  lockedTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#92400E',
+    marginTop: 8
+  },
+  lockedText: {
+    fontSize: 14,
+    color: '#92400E',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginTop: 8,
+    marginBottom: 16
+  },
+  upgradeButton: {
+    backgroundColor: '#F59E0B',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8
+  },
+  upgradeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600'
+  },
+  barChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 140,
+    gap: 4
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+    height: '100%'
+  },
+  barValue: {
+    fontSize: 10,
+    color: '#6B7280',
+    height: 14
+  },
+  barTrack: {
+    flex: 1,
+    width: '100%',
+    justifyContent: 'flex-end'
+  },
+  barFill: {
+    backgroundColor: '#60A5FA',
+    borderRadius: 4,
+    width: '100%'
+  },
+  barLabel: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginTop: 4
+  },
+  heatmap: {
+    flexDirection: 'row',
+    justifyContent: 'space-between'
+  },
+  heatmapColumn: {
+    gap: 3
+  },
+  heatmapCell: {
+    width: 14,
+    height: 14,
+    borderRadius: 3
+  },
+  heatmapLegend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 3,
+    marginTop: 12
+  },
+  legendText: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginHorizontal: 4
+  },
+  rowBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10
+  },
+  rowBarLabel: {
+    width: 100,
+    fontSize: 13,
+    color: '#374151'
+  },
+  rowBarTrack: {
+    flex: 1,
+    height: 10,
+    backgroundColor: '#E5E7EB',
+    borderRadius: 5,
+    overflow: 'hidden',
+    marginHorizontal: 8
+  },
+  rowBarFill: {
+    height: '100%',
+    backgroundColor: '#F59E0B',
+    borderRadius: 5
+  },
+  rowBarFillAlt: {
+    backgroundColor: '#34D399'
+  },
+  rowBarValue: {
+    width: 28,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#111827',
+    textAlign: 'right'
+  },
+});
@@ -10,6 +10,7 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import "../global.css";
 import { useRevenueCatInit } from "../src/hooks/useRevenueCatInit";
 import { useNotificationInit } from "../src/hooks/useNotificationInit";
+import { useSyncInit } from "../src/hooks/useSyncInit";
 import { useAuthStore } from "../src/stores/authStore";
 import { useAppStore } from "../src/stores/appStore";
 import { useSubscriptionStore } from "../src/stores/subscriptionStore";
@@ -52,7 +53,7 @@ const RootLayout = () => {
   const router = useRouter();
   const currentScreen = segments[segments.length - 1] || "Dashboard";
   const drawerTitle = currentScreen === "(tabs)" ? "Dashboard" :
-    currentScreen.charAt(0).toUpperCase() + currentScreen.slice(1);
+    currentScreen.charAt(0).toUpperCase() + currentScreen.slice(1).replace(/-/g, ' ');
 
   // Onboarding check state
   const [isCheckingOnboarding, setIsCheckingOnboarding] = useState(true);
@@ -60,10 +61,12 @@ const RootLayout = () => {
 
   // Initialize services
   const { initialize: initAuth, isInitialized: authInitialized } = useAuthStore();
+  const authUserId = useAuthStore((state) => state.user?.id);
   const { restoreSession } = useAppStore();
   const { isPremium } = useSubscriptionStore();
   useRevenueCatInit();
   useNotificationInit();
+  useSyncInit();
 
   // Check onboarding status on mount
   useEffect(() => {
@@ -80,11 +83,15 @@ const RootLayout = () => {
     checkOnboarding();
   }, []);
 
-  // Initialize auth and restore session on mount
+  // Initialize auth on mount
   useEffect(() => {
     initAuth();
+  }, [initAuth]);
+
+  // Load the signed-in user's local library whenever the auth user changes
+  useEffect(() => {
     restoreSession();
-  }, [initAuth, restoreSession]);
+  }, [authUserId, restoreSession]);
 
   // Handle onboarding routing
   useEffect(() => {
@@ -126,6 +133,24 @@ const RootLayout = () => {
                   icon="home"
                   onPress={() => props.navigation.closeDrawer()}
                 />
+                <DrawerLink
+                  href="/search"
+                  label="Search"
+                  icon="search"
+                  onPress={() => props.navigation.closeDrawer()}
+                />
+                <DrawerLink
+                  href="/shelves"
+                  label="Bookshelves"
+                  icon="library"
+                  onPress={() => props.navigation.closeDrawer()}
+                />
+                <DrawerLink
+                  href="/year-in-books"
+                  label="Year in Books"
+                  icon="calendar"
+                  onPress={() => props.navigation.closeDrawer()}
+                />
                 <DrawerLink
                   href="/(tabs)/profile"
                   label="Profile"
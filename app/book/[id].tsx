@@ -1,6 +1,6 @@
 /**
  * Book Detail Screen
- * Shows book details, reading progress, notes, and highlights
+ * Shows book details, reading progress, reading sessions, notes, and highlights
  */
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
@@ -17,6 +17,7 @@ import {
   KeyboardAvoidingView,
   Platform,
   RefreshControl,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
@@ -24,26 +25,66 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAppStore, Book, Note, Highlight } from '../../src/stores/appStore';
 import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
 import { isAtLimit, getRemainingCount } from '../../src/config/premiumFeatures';
+import { getStatusActions, type BookStatusAction } from '../../src/utils/bookStatus';
+import { formatRating, normalizeRating } from '../../src/utils/ratings';
+import StarRating from '../../src/components/StarRating';
+import BookCover from '../../src/components/BookCover';
+import { coverService, type CoverSource } from '../../src/services/cover.service';
 
 type TabType = 'overview' | 'notes' | 'highlights';
 
+// Book fields shown when the book was edited on two devices at once
+const CONFLICT_FIELDS: Array<{ field: keyof Book; label: string }> = [
+  { field: 'title', label: 'Title' },
+  { field: 'author', label: 'Author' },
+  { field: 'status', label: 'Status' },
+  { field: 'current_page', label: 'Current page' },
+  { field: 'total_pages', label: 'Total pages' },
+  { field: 'rating', label: 'Rating' },
+  { field: 'category', label: 'Category' },
+  { field: 'review', label: 'Review' },
+];
+
+const formatConflictValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
 export default function BookDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { isPremium } = useSubscriptionStore();
   const {
     books,
+    bookReads,
     notes,
     highlights,
+    fetchBooks,
+    fetchReads,
     fetchNotes,
     fetchHighlights,
     updateBook,
     updateBookProgress,
+    changeBookStatus,
+    setBookCover,
     deleteBook,
     addNote,
     deleteNote,
     addHighlight,
     deleteHighlight,
+    noteConflicts,
+    resolveNoteConflict,
+    bookConflicts,
+    resolveBookConflict,
+    readingSessions,
+    activeSession,
+    fetchSessions,
+    startReadingSession,
+    stopReadingSession,
+    cancelReadingSession,
+    bookshelves,
+    bookshelfItems,
+    fetchShelves,
+    addBookToShelf,
+    removeBookFromShelf,
   } = useAppStore();
 
   const [activeTab, setActiveTab] = useState<TabType>('overview');
@@ -58,10 +99,41 @@ export default function BookDetailScreen() {
   const [newHighlightText, setNewHighlightText] = useState('');
   const [newHighlightPage, setNewHighlightPage] = useState('');
   const [selectedColor, setSelectedColor] = useState('#FBBF24');
+  const [showSessionModal, setShowSessionModal] = useState(false);
+  const [sessionEndPage, setSessionEndPage] = useState('');
+  const [showDnfModal, setShowDnfModal] = useState(false);
+  const [dnfReason, setDnfReason] = useState('');
+  const [showReviewModal, setShowReviewModal] = useState(false);
+  const [reviewText, setReviewText] = useState('');
+  const [reviewSpoiler, setReviewSpoiler] = useState(false);
+  const [spoilerRevealed, setSpoilerRevealed] = useState(false);
+  const [isSavingCover, setIsSavingCover] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
   const book = useMemo(() => books.find(b => b.id === id), [books, id]);
+  const bookReadHistory = useMemo(() => bookReads.filter(r => r.book_id === id), [bookReads, id]);
   const bookNotes = useMemo(() => notes.filter(n => n.book_id === id), [notes, id]);
   const bookHighlights = useMemo(() => highlights.filter(h => h.book_id === id), [highlights, id]);
+  const bookSessions = useMemo(
+    () => readingSessions.filter(s => s.book_id === id),
+    [readingSessions, id]
+  );
+  const bookShelfIds = useMemo(
+    () => new Set(bookshelfItems.filter(item => item.book_id === id).map(item => item.bookshelf_id)),
+    [bookshelfItems, id]
+  );
+  const isTimingThisBook = activeSession?.book_id === id;
+  const bookNoteConflicts = useMemo(
+    () => noteConflicts.filter(c => c.remote.book_id === id),
+    [noteConflicts, id]
+  );
+  const detailsConflict = useMemo(() => bookConflicts.find(c => c.record_id === id), [bookConflicts, id]);
+  const detailsConflictFields = useMemo(
+    () => CONFLICT_FIELDS.filter(({ field }) =>
+      detailsConflict && (detailsConflict.local[field] ?? null) !== (detailsConflict.remote[field] ?? null)
+    ),
+    [detailsConflict]
+  );
 
   const highlightColors = ['#FBBF24', '#34D399', '#60A5FA', '#F472B6', '#A78BFA'];
 
@@ -69,12 +141,25 @@ export default function BookDetailScreen() {
     loadData();
   }, [id]);
 
+  // Tick the reading timer once a second while it runs for this book
+  useEffect(() => {
+    if (!isTimingThisBook) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isTimingThisBook]);
+
   const loadData = async () => {
     setIsLoading(true);
     try {
       await Promise.all([
+        // Deep links can open a book before the library has been loaded
+        !books.some(b => b.id === id) && fetchBooks(),
+        fetchReads(id),
         fetchNotes(id),
         fetchHighlights(id),
+        fetchSessions(id),
+        fetchShelves(),
       ]);
     } catch (error) {
       console.error('Failed to load book data:', error);
@@ -130,6 +215,64 @@ export default function BookDetailScreen() {
     setNewNotePage('');
   };
 
+  const handleStartSession = () => {
+    if (!book) return;
+
+    const otherBook = activeSession && books.find(b => b.id === activeSession.book_id);
+    if (otherBook) {
+      Alert.alert(
+        'Session In Progress',
+        `You're already timing "${otherBook.title}". Discard that session and start this one?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Discard & Start', style: 'destructive', onPress: () => startReadingSession(book.id) },
+        ]
+      );
+      return;
+    }
+
+    startReadingSession(book.id);
+  };
+
+  const handleStopSession = () => {
+    if (!book) return;
+    setSessionEndPage(book.current_page.toString());
+    setShowSessionModal(true);
+  };
+
+  const handleSaveSession = async () => {
+    if (!book || !sessionEndPage) return;
+
+    const page = parseInt(sessionEndPage, 10);
+    if (isNaN(page) || page < 0 || page > book.total_pages) {
+      Alert.alert('Invalid Page', `Please enter a number between 0 and ${book.total_pages}`);
+      return;
+    }
+
+    await stopReadingSession(page);
+    setShowSessionModal(false);
+  };
+
+  const handleDiscardSession = () => {
+    cancelReadingSession();
+    setShowSessionModal(false);
+  };
+
+  const formatElapsed = (startedAt: string) => {
+    const totalSeconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+  };
+
+  const formatMinutes = (minutes: number) => {
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+  };
+
   const handleAddHighlight = async () => {
     if (!book || !newHighlightText.trim()) return;
 
@@ -198,9 +341,98 @@ export default function BookDetailScreen() {
     );
   };
 
-  const handleStatusChange = async (newStatus: Book['status']) => {
+  const handleStatusAction = (action: BookStatusAction) => {
+    if (!book) return;
+
+    if (action === 'dnf') {
+      setDnfReason('');
+      setShowDnfModal(true);
+    } else if (action === 'reread' || (action === 'want_to_read' && book.current_page > 0)) {
+      Alert.alert(
+        action === 'reread' ? 'Re-read Book' : 'Move to To Read',
+        'Your current page and progress will be reset to the beginning.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Continue', onPress: () => changeBookStatus(book.id, action) },
+        ]
+      );
+    } else {
+      changeBookStatus(book.id, action);
+    }
+  };
+
+  const handlePickCover = async (source: CoverSource) => {
+    if (!book) return;
+
+    try {
+      const localUri = await coverService.pickCover(source);
+      if (!localUri) return;
+
+      setIsSavingCover(true);
+      const coverUri = await setBookCover(book.id, localUri);
+      if (!coverUri) {
+        Alert.alert('Cover Not Saved', 'The cover could not be saved. Please try again.');
+      }
+    } catch (error: any) {
+      Alert.alert('Cover', error.message);
+    } finally {
+      setIsSavingCover(false);
+    }
+  };
+
+  const handleChangeCover = () => {
+    if (!book) return;
+
+    Alert.alert('Book Cover', undefined, [
+      { text: 'Take Photo', onPress: () => handlePickCover('camera') },
+      { text: 'Choose from Library', onPress: () => handlePickCover('library') },
+      ...(book.cover_url
+        ? [{
+            text: 'Remove Cover',
+            style: 'destructive' as const,
+            onPress: () => updateBook(book.id, { cover_url: null }),
+          }]
+        : []),
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleRate = async (rating: number | null) => {
+    if (!book) return;
+    await updateBook(book.id, { rating: normalizeRating(rating) });
+  };
+
+  const handleOpenReview = () => {
+    if (!book) return;
+    setReviewText(book.review ?? '');
+    setReviewSpoiler(book.review_spoiler ?? false);
+    setShowReviewModal(true);
+  };
+
+  const handleSaveReview = async () => {
+    if (!book) return;
+    const review = reviewText.trim();
+    await updateBook(book.id, {
+      review: review || null,
+      review_spoiler: review ? reviewSpoiler : false,
+    });
+    setSpoilerRevealed(false);
+    setShowReviewModal(false);
+  };
+
+  const handleMarkDnf = async () => {
     if (!book) return;
-    await updateBook(book.id, { status: newStatus });
+    await changeBookStatus(book.id, 'dnf', dnfReason);
+    setShowDnfModal(false);
+  };
+
+  const handleToggleShelf = async (shelfId: string) => {
+    if (!book) return;
+    if (bookShelfIds.has(shelfId)) {
+      await removeBookFromShelf(shelfId, book.id);
+    } else {
+      await addBookToShelf(shelfId, book.id);
+    }
   };
 
   if (!book) {
@@ -232,13 +464,22 @@ export default function BookDetailScreen() {
           <Ionicons name="arrow-back" size={24} color="#111827" />
         </TouchableOpacity>
         <Text style={styles.headerTitle} numberOfLines={1}>{book.title}</Text>
-        <TouchableOpacity
-          style={styles.headerButton}
-          onPress={handleDeleteBook}
-          accessibilityLabel="Delete book"
-        >
-          <Ionicons name="trash-outline" size={24} color="#EF4444" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => router.push(`/book/edit/${book.id}`)}
+            accessibilityLabel="Edit book"
+          >
+            <Ionicons name="create-outline" size={24} color="#111827" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleDeleteBook}
+            accessibilityLabel="Delete book"
+          >
+            <Ionicons name="trash-outline" size={24} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Tabs */}
@@ -271,44 +512,85 @@ export default function BookDetailScreen() {
       >
         {activeTab === 'overview' && (
           <View style={styles.overviewContainer}>
-            {/* Book Cover Placeholder */}
-            <View style={styles.coverContainer}>
-              {book.cover_url ? (
-                <View style={styles.coverPlaceholder}>
-                  <Ionicons name="book" size={48} color="#F59E0B" />
+            {/* Book details edited on two devices at once */}
+            {detailsConflict && (
+              <View style={[styles.conflictCard, styles.detailsConflictCard]}>
+                <View style={styles.conflictHeader}>
+                  <Ionicons name="git-compare-outline" size={18} color="#D97706" />
+                  <Text style={styles.conflictTitle}>Book changed on another device</Text>
+                </View>
+                {detailsConflictFields.map(({ field, label }) => (
+                  <View key={field}>
+                    <Text style={styles.conflictLabel}>{label}</Text>
+                    <Text style={styles.conflictValue}>
+                      Yours: {formatConflictValue(detailsConflict.local[field])}
+                    </Text>
+                    <Text style={styles.conflictValue}>
+                      Other device: {formatConflictValue(detailsConflict.remote[field])}
+                    </Text>
+                  </View>
+                ))}
+                <View style={styles.conflictActions}>
+                  <TouchableOpacity
+                    style={styles.conflictButton}
+                    onPress={() => resolveBookConflict(detailsConflict.id, 'local')}
+                  >
+                    <Text style={styles.conflictButtonText}>Keep Mine</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.conflictButton}
+                    onPress={() => resolveBookConflict(detailsConflict.id, 'remote')}
+                  >
+                    <Text style={styles.conflictButtonText}>Keep Theirs</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+
+            {/* Book Cover */}
+            <TouchableOpacity
+              style={styles.coverContainer}
+              onPress={handleChangeCover}
+              disabled={isSavingCover}
+              accessibilityLabel="Change cover"
+            >
+              <BookCover uri={book.cover_url} size="lg" />
+              {isSavingCover ? (
+                <View style={styles.coverOverlay}>
+                  <ActivityIndicator color="#FFFFFF" />
                 </View>
               ) : (
-                <View style={styles.coverPlaceholder}>
-                  <Ionicons name="book" size={48} color="#F59E0B" />
+                <View style={styles.coverEditBadge}>
+                  <Ionicons name="camera" size={16} color="#FFFFFF" />
                 </View>
               )}
-            </View>
+            </TouchableOpacity>
 
             {/* Book Info */}
             <Text style={styles.bookTitle}>{book.title}</Text>
             <Text style={styles.bookAuthor}>by {book.author}</Text>
 
-            {/* Status Badges */}
+            {/* Status */}
+            <View style={styles.statusContainer}>
+              <View style={[styles.statusBadge, styles.statusBadgeActive]}>
+                <Text style={[styles.statusText, styles.statusTextActive]}>
+                  {book.status === 'to_read' ? 'To Read' :
+                   book.status === 'dnf' ? 'Did Not Finish' :
+                   book.status.charAt(0).toUpperCase() + book.status.slice(1)}
+                </Text>
+              </View>
+            </View>
+            {book.status === 'dnf' && book.dnf_reason ? (
+              <Text style={styles.dnfReason}>"{book.dnf_reason}"</Text>
+            ) : null}
             <View style={styles.statusContainer}>
-              {(['to_read', 'reading', 'finished', 'dnf'] as Book['status'][]).map((status) => (
+              {getStatusActions(book.status).map(({ action, label }) => (
                 <TouchableOpacity
-                  key={status}
-                  style={[
-                    styles.statusBadge,
-                    book.status === status && styles.statusBadgeActive,
-                  ]}
-                  onPress={() => handleStatusChange(status)}
+                  key={action}
+                  style={styles.statusBadge}
+                  onPress={() => handleStatusAction(action)}
                 >
-                  <Text
-                    style={[
-                      styles.statusText,
-                      book.status === status && styles.statusTextActive,
-                    ]}
-                  >
-                    {status === 'to_read' ? 'To Read' :
-                     status === 'dnf' ? 'DNF' :
-                     status.charAt(0).toUpperCase() + status.slice(1)}
-                  </Text>
+                  <Text style={styles.statusText}>{label}</Text>
                 </TouchableOpacity>
               ))}
             </View>
@@ -338,6 +620,33 @@ export default function BookDetailScreen() {
               </View>
             </View>
 
+            {/* Reading Timer */}
+            <View style={styles.timerSection}>
+              <View style={styles.timerInfo}>
+                <Ionicons name="timer-outline" size={24} color="#F59E0B" />
+                <View style={styles.timerText}>
+                  <Text style={styles.sectionTitle}>Reading Timer</Text>
+                  <Text style={styles.timerSubtitle}>
+                    {isTimingThisBook && activeSession
+                      ? `Started on page ${activeSession.start_page}`
+                      : 'Track time and pages for this session'}
+                  </Text>
+                </View>
+                {isTimingThisBook && activeSession && (
+                  <Text style={styles.timerElapsed}>{formatElapsed(activeSession.started_at)}</Text>
+                )}
+              </View>
+              <TouchableOpacity
+                style={[styles.timerButton, isTimingThisBook && styles.timerButtonStop]}
+                onPress={isTimingThisBook ? handleStopSession : handleStartSession}
+              >
+                <Ionicons name={isTimingThisBook ? 'stop' : 'play'} size={18} color="#FFFFFF" />
+                <Text style={styles.timerButtonText}>
+                  {isTimingThisBook ? 'Stop Reading' : 'Start Reading'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
             {/* Stats */}
             <View style={styles.statsGrid}>
               <View style={styles.statCard}>
@@ -365,12 +674,121 @@ export default function BookDetailScreen() {
                   </Text>
                 </View>
               )}
-              {book.rating && (
-                <View style={styles.statCard}>
-                  <Ionicons name="star" size={24} color="#FBBF24" />
-                  <Text style={styles.statLabel}>Rating</Text>
-                  <Text style={styles.statValue}>{book.rating}/5</Text>
-                </View>
+            </View>
+
+            {/* Rating & Review */}
+            <View style={styles.sessionsSection}>
+              <View style={styles.progressHeader}>
+                <Text style={styles.sectionTitle}>Your Rating</Text>
+                {book.rating ? (
+                  <Text style={styles.ratingValue}>{formatRating(book.rating)}</Text>
+                ) : null}
+              </View>
+              <StarRating rating={book.rating} onChange={handleRate} size={32} />
+
+              {book.review ? (
+                book.review_spoiler && !spoilerRevealed ? (
+                  <TouchableOpacity
+                    style={styles.spoilerCover}
+                    onPress={() => setSpoilerRevealed(true)}
+                    accessibilityLabel="Show review with spoilers"
+                  >
+                    <Ionicons name="eye-off-outline" size={18} color="#6B7280" />
+                    <Text style={styles.spoilerText}>Review contains spoilers. Tap to show.</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <Text style={styles.reviewText}>{book.review}</Text>
+                )
+              ) : null}
+              <TouchableOpacity onPress={handleOpenReview}>
+                <Text style={[styles.upgradeLink, styles.reviewLink]}>
+                  {book.review ? 'Edit Review' : 'Write a Review'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Read History */}
+            {bookReadHistory.length > 0 && (
+              <View style={styles.sessionsSection}>
+                <Text style={styles.sectionTitle}>Reading History</Text>
+                {bookReadHistory.map((read, index) => (
+                  <View key={read.id} style={styles.sessionRow}>
+                    <View>
+                      <Text style={styles.sessionDate}>
+                        Read {bookReadHistory.length - index}
+                        {read.rating ? ` · ${formatRating(read.rating)}` : ''}
+                      </Text>
+                      <Text style={styles.sessionDetail}>
+                        {read.date_started ? new Date(read.date_started).toLocaleDateString() : '?'}
+                        {' – '}
+                        {read.date_finished
+                          ? new Date(read.date_finished).toLocaleDateString()
+                          : read.status === 'dnf' ? 'Did not finish' : 'Now'}
+                      </Text>
+                    </View>
+                    <Text style={styles.sessionPages}>{read.progress}%</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Shelves */}
+            <View style={styles.shelvesSection}>
+              <View style={styles.progressHeader}>
+                <Text style={styles.sectionTitle}>Shelves</Text>
+                <TouchableOpacity onPress={() => router.push('/shelves')}>
+                  <Text style={styles.upgradeLink}>Manage</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.shelfChips}>
+                {bookshelves.map((shelf) => {
+                  const onShelf = bookShelfIds.has(shelf.id);
+                  return (
+                    <TouchableOpacity
+                      key={shelf.id}
+                      style={[styles.shelfChip, onShelf && styles.shelfChipActive]}
+                      onPress={() => handleToggleShelf(shelf.id)}
+                      accessibilityLabel={onShelf ? `Remove from ${shelf.name}` : `Add to ${shelf.name}`}
+                    >
+                      <Ionicons
+                        name={onShelf ? 'checkmark' : 'add'}
+                        size={16}
+                        color={onShelf ? '#FFFFFF' : '#6B7280'}
+                      />
+                      <Text style={[styles.shelfChipText, onShelf && styles.shelfChipTextActive]}>
+                        {shelf.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Session History */}
+            <View style={styles.sessionsSection}>
+              <Text style={styles.sectionTitle}>Reading Sessions</Text>
+              {bookSessions.length === 0 ? (
+                <Text style={styles.sessionsEmpty}>
+                  Sessions appear here when you use the timer or update your progress
+                </Text>
+              ) : (
+                bookSessions.map((session) => (
+                  <View key={session.id} style={styles.sessionRow}>
+                    <View>
+                      <Text style={styles.sessionDate}>
+                        {new Date(session.started_at).toLocaleDateString()}
+                      </Text>
+                      <Text style={styles.sessionDetail}>
+                        {session.duration_minutes
+                          ? formatMinutes(session.duration_minutes)
+                          : 'Progress update'}
+                      </Text>
+                    </View>
+                    <Text style={styles.sessionPages}>
+                      {session.pages_read} {session.pages_read === 1 ? 'page' : 'pages'}
+                    </Text>
+                  </View>
+                ))
               )}
             </View>
           </View>
@@ -395,6 +813,40 @@ export default function BookDetailScreen() {
               </View>
             )}
 
+            {/* Notes edited on two devices at once */}
+            {bookNoteConflicts.map((conflict) => (
+              <View key={conflict.id} style={styles.conflictCard}>
+                <View style={styles.conflictHeader}>
+                  <Ionicons name="git-compare-outline" size={18} color="#D97706" />
+                  <Text style={styles.conflictTitle}>Note changed on another device</Text>
+                </View>
+                <Text style={styles.conflictLabel}>Your version</Text>
+                <Text style={styles.noteContent}>{conflict.local.content}</Text>
+                <Text style={styles.conflictLabel}>Other device</Text>
+                <Text style={styles.noteContent}>{conflict.remote.content}</Text>
+                <View style={styles.conflictActions}>
+                  <TouchableOpacity
+                    style={styles.conflictButton}
+                    onPress={() => resolveNoteConflict(conflict.id, 'local')}
+                  >
+                    <Text style={styles.conflictButtonText}>Keep Mine</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.conflictButton}
+                    onPress={() => resolveNoteConflict(conflict.id, 'remote')}
+                  >
+                    <Text style={styles.conflictButtonText}>Keep Theirs</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.conflictButton}
+                    onPress={() => resolveNoteConflict(conflict.id, 'both')}
+                  >
+                    <Text style={styles.conflictButtonText}>Keep Both</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+
             <TouchableOpacity
               style={styles.addButton}
               onPress={() => setShowNoteModal(true)}
@@ -537,6 +989,140 @@ export default function BookDetailScreen() {
         </KeyboardAvoidingView>
       </Modal>
 
+      {/* Session Modal */}
+      <Modal
+        visible={showSessionModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowSessionModal(false)}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalOverlay}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>End Session</Text>
+            <Text style={styles.modalSubtitle}>
+              What page are you on now? (out of {book.total_pages})
+            </Text>
+            <TextInput
+              style={styles.modalInput}
+              value={sessionEndPage}
+              onChangeText={setSessionEndPage}
+              keyboardType="number-pad"
+              placeholder="Enter page number"
+              placeholderTextColor="#9CA3AF"
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={handleDiscardSession}
+              >
+                <Text style={styles.modalCancelText}>Discard</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalSaveButton}
+                onPress={handleSaveSession}
+              >
+                <Text style={styles.modalSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* DNF Modal */}
+      <Modal
+        visible={showDnfModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowDnfModal(false)}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalOverlay}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Did Not Finish</Text>
+            <Text style={styles.modalSubtitle}>
+              Why did you stop reading? (optional)
+            </Text>
+            <TextInput
+              style={[styles.modalInput, styles.modalTextArea]}
+              value={dnfReason}
+              onChangeText={setDnfReason}
+              placeholder="e.g. Lost interest"
+              placeholderTextColor="#9CA3AF"
+              multiline
+              numberOfLines={3}
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setShowDnfModal(false)}
+              >
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalSaveButton}
+                onPress={handleMarkDnf}
+              >
+                <Text style={styles.modalSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Review Modal */}
+      <Modal
+        visible={showReviewModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowReviewModal(false)}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalOverlay}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{book.review ? 'Edit Review' : 'Write a Review'}</Text>
+            <TextInput
+              style={[styles.modalInput, styles.modalTextArea]}
+              value={reviewText}
+              onChangeText={setReviewText}
+              placeholder="What did you think?"
+              placeholderTextColor="#9CA3AF"
+              multiline
+              numberOfLines={5}
+            />
+            <View style={styles.spoilerToggle}>
+              <Text style={styles.spoilerToggleLabel}>Contains spoilers</Text>
+              <Switch
+                value={reviewSpoiler}
+                onValueChange={setReviewSpoiler}
+                trackColor={{ false: '#E5E7EB', true: '#FCD34D' }}
+                thumbColor={reviewSpoiler ? '#F59E0B' : '#FFFFFF'}
+              />
+            </View>
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setShowReviewModal(false)}
+              >
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalSaveButton}
+                onPress={handleSaveReview}
+              >
+                <Text style={styles.modalSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
       {/* Note Modal */}
       <Modal
         visible={showNoteModal}
@@ -671,6 +1257,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+  },
   headerTitle: {
     flex: 1,
     fontSize: 18,
@@ -735,13 +1324,25 @@ const styles = StyleSheet.create({
   coverContainer: {
     marginBottom: 24,
   },
-  coverPlaceholder: {
-    width: 160,
-    height: 240,
-    backgroundColor: '#FEF3C7',
-    borderRadius: 8,
+  coverOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(17, 24, 39, 0.4)',
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  coverEditBadge: {
+    position: 'absolute',
+    right: -8,
+    bottom: -8,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F59E0B',
     justifyContent: 'center',
     alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
   },
   bookTitle: {
     fontSize: 24,
@@ -780,6 +1381,14 @@ const styles = StyleSheet.create({
   statusTextActive: {
     color: '#D97706',
   },
+  dnfReason: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: -16,
+    marginBottom: 16,
+  },
   progressSection: {
     width: '100%',
     backgroundColor: '#F9FAFB',
@@ -834,6 +1443,148 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#F59E0B',
   },
+  timerSection: {
+    width: '100%',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  timerInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  timerText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  timerSubtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  timerElapsed: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#111827',
+    fontVariant: ['tabular-nums'],
+  },
+  timerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#F59E0B',
+    paddingVertical: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  timerButtonStop: {
+    backgroundColor: '#EF4444',
+  },
+  timerButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  shelvesSection: {
+    width: '100%',
+    marginTop: 24,
+  },
+  shelfChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  shelfChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+  },
+  shelfChipActive: {
+    backgroundColor: '#F59E0B',
+  },
+  shelfChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  shelfChipTextActive: {
+    color: '#FFFFFF',
+  },
+  sessionsSection: {
+    width: '100%',
+    marginTop: 24,
+  },
+  ratingValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#D97706',
+  },
+  reviewText: {
+    fontSize: 15,
+    color: '#374151',
+    lineHeight: 22,
+    marginTop: 12,
+  },
+  reviewLink: {
+    marginTop: 12,
+  },
+  spoilerCover: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  spoilerText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  spoilerToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  spoilerToggleLabel: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  sessionsEmpty: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  sessionDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  sessionDetail: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  sessionPages: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F59E0B',
+  },
   statsGrid: {
     width: '100%',
     flexDirection: 'row',
@@ -940,6 +1691,56 @@ const styles = StyleSheet.create({
     color: '#374151',
     lineHeight: 20,
   },
+  conflictCard: {
+    backgroundColor: '#FFFBEB',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FCD34D',
+    padding: 16,
+    marginBottom: 16,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  conflictTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#92400E',
+  },
+  conflictLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  conflictValue: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  detailsConflictCard: {
+    alignSelf: 'stretch',
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  conflictButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F59E0B',
+  },
+  conflictButtonText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   deleteButton: {
     padding: 4,
     position: 'absolute',
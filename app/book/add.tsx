@@ -1,6 +1,6 @@
 /**
  * Add Book Screen
- * Form to add a new book to the library
+ * Form to add a new book to the library, by hand or by scanning its ISBN barcode
  */
 
 import React, { useState, useCallback } from 'react';
@@ -14,41 +14,130 @@ import {
   Alert,
   KeyboardAvoidingView,
   Platform,
+  Image,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAppStore, Book } from '../../src/stores/appStore';
 import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
 import { isAtLimit } from '../../src/config/premiumFeatures';
+import { bookMetadataService, type BookMetadata } from '../../src/services/bookMetadata.service';
+import { normalizeIsbn } from '../../src/utils/isbn';
+import { BOOK_CATEGORIES } from '../../src/utils/constants';
+import BarcodeScanner from '../../src/components/BarcodeScanner';
 
 export default function AddBookScreen() {
   const router = useRouter();
+  // Search can open this screen pre-filled with a catalogue result
+  const params = useLocalSearchParams<{
+    title?: string;
+    author?: string;
+    isbn?: string;
+    cover_url?: string;
+  }>();
   const { books, addBook, isLoading } = useAppStore();
   const { isPremium } = useSubscriptionStore();
 
-  const [title, setTitle] = useState('');
-  const [author, setAuthor] = useState('');
+  const [title, setTitle] = useState(params.title ?? '');
+  const [author, setAuthor] = useState(params.author ?? '');
   const [totalPages, setTotalPages] = useState('');
-  const [isbn, setIsbn] = useState('');
+  const [isbn, setIsbn] = useState(params.isbn ?? '');
   const [category, setCategory] = useState('');
   const [status, setStatus] = useState<Book['status']>('to_read');
+  const [coverUrl, setCoverUrl] = useState(params.cover_url ?? '');
+  const [showScanner, setShowScanner] = useState(false);
+  const [isLookingUp, setIsLookingUp] = useState(false);
 
-  const categories = [
-    'Fiction',
-    'Non-Fiction',
-    'Science Fiction',
-    'Fantasy',
-    'Mystery',
-    'Romance',
-    'Thriller',
-    'Biography',
-    'Self-Help',
-    'Business',
-    'History',
-    'Science',
-    'Other',
-  ];
+  const findDuplicate = useCallback(
+    (normalizedIsbn: string) =>
+      books.find(b => b.isbn && normalizeIsbn(b.isbn) === normalizedIsbn),
+    [books]
+  );
+
+  const alertDuplicate = useCallback((existing: Book) => {
+    Alert.alert(
+      'Already in Library',
+      `"${existing.title}" is already in your library.`,
+      [
+        { text: 'OK', style: 'cancel' },
+        { text: 'View Book', onPress: () => router.replace(`/book/${existing.id}`) },
+      ]
+    );
+  }, [router]);
+
+  const applyMetadata = useCallback((result: BookMetadata) => {
+    setTitle(result.title);
+    if (result.author) setAuthor(result.author);
+    if (result.total_pages) setTotalPages(String(result.total_pages));
+    if (result.isbn) setIsbn(result.isbn);
+    setCoverUrl(result.cover_url ?? '');
+  }, []);
+
+  const handleScanned = useCallback(async (data: string) => {
+    setShowScanner(false);
+
+    const scannedIsbn = normalizeIsbn(data);
+    if (!scannedIsbn) {
+      Alert.alert('Not an ISBN', 'That barcode is not a valid ISBN. Try scanning the barcode on the back cover.');
+      return;
+    }
+
+    const existing = findDuplicate(scannedIsbn);
+    if (existing) {
+      alertDuplicate(existing);
+      return;
+    }
+
+    setIsbn(scannedIsbn);
+    setIsLookingUp(true);
+    try {
+      const result = await bookMetadataService.lookupIsbn(scannedIsbn);
+      if (!result) {
+        Alert.alert('Book Not Found', 'We couldn\'t find details for this ISBN. Please enter them manually.');
+        return;
+      }
+      applyMetadata(result);
+    } catch (error) {
+      console.warn('ISBN lookup failed:', error);
+      Alert.alert('Lookup Failed', 'Couldn\'t look up this book. Check your connection or enter the details manually.');
+    } finally {
+      setIsLookingUp(false);
+    }
+  }, [findDuplicate, alertDuplicate, applyMetadata]);
+
+  // Fill the form from the catalogue: by ISBN when one is entered, otherwise by title/author
+  const handleAutoFill = useCallback(async () => {
+    const normalizedIsbn = isbn.trim() ? normalizeIsbn(isbn) : null;
+    if (!normalizedIsbn && !title.trim() && !author.trim()) {
+      Alert.alert('Auto-fill', 'Enter an ISBN, title or author to look up.');
+      return;
+    }
+
+    setIsLookingUp(true);
+    try {
+      const result = normalizedIsbn
+        ? await bookMetadataService.lookupIsbn(normalizedIsbn)
+        : (await bookMetadataService.search({ title, author }, 1))[0] ?? null;
+      if (!result) {
+        Alert.alert('Book Not Found', 'No matching book was found. Please enter the details manually.');
+        return;
+      }
+
+      const existing = result.isbn ? findDuplicate(result.isbn) : undefined;
+      if (existing) {
+        alertDuplicate(existing);
+        return;
+      }
+      applyMetadata(result);
+    } catch (error) {
+      console.warn('Metadata lookup failed:', error);
+      Alert.alert('Lookup Failed', 'Couldn\'t look up this book. Check your connection or enter the details manually.');
+    } finally {
+      setIsLookingUp(false);
+    }
+  }, [isbn, title, author, findDuplicate, alertDuplicate, applyMetadata]);
 
   const handleSave = useCallback(async () => {
     // Validation
@@ -65,6 +154,17 @@ export default function AddBookScreen() {
       return;
     }
 
+    const normalizedIsbn = isbn.trim() ? normalizeIsbn(isbn) : null;
+    if (isbn.trim() && !normalizedIsbn) {
+      Alert.alert('Invalid ISBN', 'Please check the ISBN; it should be 10 or 13 digits.');
+      return;
+    }
+    const existing = normalizedIsbn ? findDuplicate(normalizedIsbn) : undefined;
+    if (existing) {
+      alertDuplicate(existing);
+      return;
+    }
+
     // Check book limit for free users
     if (!isPremium && isAtLimit('books', books.length, isPremium)) {
       Alert.alert(
@@ -83,7 +183,8 @@ export default function AddBookScreen() {
       author: author.trim(),
       total_pages: parseInt(totalPages, 10),
       current_page: 0,
-      isbn: isbn.trim() || undefined,
+      isbn: normalizedIsbn || undefined,
+      cover_url: coverUrl || undefined,
       category: category || undefined,
       status,
     });
@@ -96,6 +197,7 @@ export default function AddBookScreen() {
           setAuthor('');
           setTotalPages('');
           setIsbn('');
+          setCoverUrl('');
           setCategory('');
           setStatus('to_read');
         }},
@@ -103,7 +205,7 @@ export default function AddBookScreen() {
     } else {
       Alert.alert('Error', 'Failed to add book. Please try again.');
     }
-  }, [title, author, totalPages, isbn, category, status, isPremium, books.length, addBook, router]);
+  }, [title, author, totalPages, isbn, coverUrl, category, status, isPremium, books.length, addBook, router, findDuplicate, alertDuplicate]);
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -147,6 +249,39 @@ export default function AddBookScreen() {
             </View>
           )}
 
+          {/* Barcode Scan & Auto-fill */}
+          {isLookingUp ? (
+            <View style={styles.scanButton}>
+              <ActivityIndicator size="small" color="#D97706" />
+              <Text style={styles.scanButtonText}>Looking up book...</Text>
+            </View>
+          ) : (
+            <View style={styles.lookupRow}>
+              <TouchableOpacity
+                style={[styles.scanButton, styles.lookupButton]}
+                onPress={() => setShowScanner(true)}
+                accessibilityLabel="Scan ISBN barcode"
+              >
+                <Ionicons name="barcode-outline" size={24} color="#D97706" />
+                <Text style={styles.scanButtonText}>Scan ISBN</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.scanButton, styles.lookupButton]}
+                onPress={handleAutoFill}
+                accessibilityLabel="Auto-fill book details"
+              >
+                <Ionicons name="sparkles-outline" size={22} color="#D97706" />
+                <Text style={styles.scanButtonText}>Auto-fill</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {coverUrl ? (
+            <View style={styles.coverPreview}>
+              <Image source={{ uri: coverUrl }} style={styles.coverImage} resizeMode="cover" />
+            </View>
+          ) : null}
+
           {/* Title */}
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Title *</Text>
@@ -207,7 +342,7 @@ export default function AddBookScreen() {
               showsHorizontalScrollIndicator={false}
               style={styles.categoryScroll}
             >
-              {categories.map((cat) => (
+              {BOOK_CATEGORIES.map((cat) => (
                 <TouchableOpacity
                   key={cat}
                   style={[
@@ -269,6 +404,13 @@ export default function AddBookScreen() {
           <View style={styles.spacer} />
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <BarcodeScanner
+        visible={showScanner}
+        onScanned={handleScanned}
+        onClose={() => setShowScanner(false)}
+        title="Scan ISBN"
+      />
     </SafeAreaView>
   );
 }
@@ -339,6 +481,38 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#D97706',
   },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#FEF3C7',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  lookupRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  lookupButton: {
+    flex: 1,
+  },
+  scanButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#D97706',
+  },
+  coverPreview: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  coverImage: {
+    width: 100,
+    height: 150,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
   inputGroup: {
     marginBottom: 20,
   },
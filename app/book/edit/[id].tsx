@@ -0,0 +1,370 @@
+/**
+ * Edit Book Screen
+ * Change a book's details after it has been added
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppStore, type Book } from '../../../src/stores/appStore';
+import { normalizeIsbn } from '../../../src/utils/isbn';
+import { applyPageCount } from '../../../src/utils/bookStatus';
+import { BOOK_CATEGORIES } from '../../../src/utils/constants';
+
+export default function EditBookScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { books, updateBook } = useAppStore();
+
+  const book = useMemo(() => books.find(b => b.id === id), [books, id]);
+
+  const [title, setTitle] = useState(book?.title ?? '');
+  const [author, setAuthor] = useState(book?.author ?? '');
+  const [totalPages, setTotalPages] = useState(book ? String(book.total_pages) : '');
+  const [isbn, setIsbn] = useState(book?.isbn ?? '');
+  const [category, setCategory] = useState(book?.category ?? '');
+  const [coverUrl, setCoverUrl] = useState(book?.cover_url ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = useCallback(async () => {
+    if (!book) return;
+
+    if (!title.trim()) {
+      Alert.alert('Required', 'Please enter a book title');
+      return;
+    }
+    if (!author.trim()) {
+      Alert.alert('Required', 'Please enter the author name');
+      return;
+    }
+    const pages = parseInt(totalPages, 10);
+    if (!pages || pages <= 0) {
+      Alert.alert('Required', 'Please enter the total number of pages');
+      return;
+    }
+
+    const normalizedIsbn = isbn.trim() ? normalizeIsbn(isbn) : null;
+    if (isbn.trim() && !normalizedIsbn) {
+      Alert.alert('Invalid ISBN', 'Please check the ISBN; it should be 10 or 13 digits.');
+      return;
+    }
+    const duplicate = normalizedIsbn
+      ? books.find(b => b.id !== book.id && b.isbn && normalizeIsbn(b.isbn) === normalizedIsbn)
+      : undefined;
+    if (duplicate) {
+      Alert.alert('Already in Library', `"${duplicate.title}" already has this ISBN.`);
+      return;
+    }
+
+    // Emptied optional fields are cleared (null) rather than left as they were
+    const updates: Partial<Book> = {
+      title: title.trim(),
+      author: author.trim(),
+      total_pages: pages,
+      isbn: normalizedIsbn,
+      category: category || null,
+      cover_url: coverUrl.trim() || null,
+      // A new page count can move the current page past the end, or change what 100% means
+      ...(pages !== book.total_pages && applyPageCount(book, pages)),
+    };
+
+    setIsSaving(true);
+    await updateBook(book.id, updates);
+    setIsSaving(false);
+    router.back();
+  }, [book, books, title, author, totalPages, isbn, category, coverUrl, updateBook, router]);
+
+  if (!book) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorContainer}>
+          <Ionicons name="book-outline" size={64} color="#D1D5DB" />
+          <Text style={styles.errorText}>Book not found</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => router.back()}
+            accessibilityLabel="Cancel editing"
+          >
+            <Ionicons name="close" size={24} color="#111827" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Edit Book</Text>
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={isSaving}
+            accessibilityLabel="Save changes"
+          >
+            <Text style={styles.saveButtonText}>{isSaving ? 'Saving...' : 'Save'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {coverUrl.trim() ? (
+            <View style={styles.coverPreview}>
+              <Image source={{ uri: coverUrl.trim() }} style={styles.coverImage} resizeMode="cover" />
+            </View>
+          ) : null}
+
+          {/* Title */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Title *</Text>
+            <TextInput
+              style={styles.input}
+              value={title}
+              onChangeText={setTitle}
+              placeholder="Enter book title"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="words"
+            />
+          </View>
+
+          {/* Author */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Author *</Text>
+            <TextInput
+              style={styles.input}
+              value={author}
+              onChangeText={setAuthor}
+              placeholder="Enter author name"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="words"
+            />
+          </View>
+
+          {/* Total Pages */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Total Pages *</Text>
+            <TextInput
+              style={styles.input}
+              value={totalPages}
+              onChangeText={(text) => setTotalPages(text.replace(/[^0-9]/g, ''))}
+              placeholder="Number of pages"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="number-pad"
+            />
+            <Text style={styles.hint}>Currently on page {book.current_page}</Text>
+          </View>
+
+          {/* ISBN */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>ISBN (Optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={isbn}
+              onChangeText={setIsbn}
+              placeholder="ISBN number"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+
+          {/* Cover */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Cover Image URL (Optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={coverUrl}
+              onChangeText={setCoverUrl}
+              placeholder="https://..."
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          </View>
+
+          {/* Category */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Category</Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.categoryScroll}
+            >
+              {BOOK_CATEGORIES.map((cat) => (
+                <TouchableOpacity
+                  key={cat}
+                  style={[
+                    styles.categoryChip,
+                    category === cat && styles.categoryChipActive,
+                  ]}
+                  onPress={() => setCategory(category === cat ? '' : cat)}
+                >
+                  <Text
+                    style={[
+                      styles.categoryChipText,
+                      category === cat && styles.categoryChipTextActive,
+                    ]}
+                  >
+                    {cat}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+
+          <View style={styles.spacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  saveButton: {
+    backgroundColor: '#F59E0B',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 18,
+    color: '#6B7280',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  backButton: {
+    backgroundColor: '#F59E0B',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  coverPreview: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  coverImage: {
+    width: 100,
+    height: 150,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  categoryScroll: {
+    marginHorizontal: -16,
+    paddingHorizontal: 16,
+  },
+  categoryChip: {
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  categoryChipActive: {
+    backgroundColor: '#FEF3C7',
+  },
+  categoryChipText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  categoryChipTextActive: {
+    color: '#D97706',
+  },
+  spacer: {
+    height: 40,
+  },
+});
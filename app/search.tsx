@@ -0,0 +1,407 @@
+/**
+ * Search Screen
+ * Typeahead search across the user's own library and the book catalogue
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppStore, type Book, type LibrarySearchResult } from '../src/stores/appStore';
+import { useSubscriptionStore } from '../src/stores/subscriptionStore';
+import { isAtLimit } from '../src/config/premiumFeatures';
+import { bookMetadataService, type BookMetadata } from '../src/services/bookMetadata.service';
+import { useDebouncedValue } from '../src/hooks/useDebouncedValue';
+import { normalizeIsbn } from '../src/utils/isbn';
+
+const SEARCH_DELAY_MS = 350;
+const MIN_CATALOGUE_QUERY = 3;
+
+const sameText = (a?: string, b?: string) =>
+  (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+export default function SearchScreen() {
+  const router = useRouter();
+  const { isPremium } = useSubscriptionStore();
+  const { books, searchLibrary, addBook } = useAppStore();
+
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DELAY_MS);
+  const [libraryResults, setLibraryResults] = useState<LibrarySearchResult[]>([]);
+  const [catalogueResults, setCatalogueResults] = useState<BookMetadata[]>([]);
+  const [isSearchingCatalogue, setIsSearchingCatalogue] = useState(false);
+  const [catalogueError, setCatalogueError] = useState<string | null>(null);
+  const [addingKey, setAddingKey] = useState<string | null>(null);
+
+  // Library search is local and cheap
+  useEffect(() => {
+    let cancelled = false;
+    searchLibrary(debouncedQuery).then((results) => {
+      if (!cancelled) setLibraryResults(results);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, searchLibrary, books]);
+
+  useEffect(() => {
+    if (debouncedQuery.length < MIN_CATALOGUE_QUERY) {
+      setCatalogueResults([]);
+      setCatalogueError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const run = async () => {
+      setIsSearchingCatalogue(true);
+      setCatalogueError(null);
+      try {
+        const isbn = normalizeIsbn(debouncedQuery);
+        const results = isbn
+          ? [await bookMetadataService.lookupIsbn(isbn)].filter((r): r is BookMetadata => r !== null)
+          : await bookMetadataService.search({ query: debouncedQuery });
+        if (!cancelled) setCatalogueResults(results);
+      } catch (error) {
+        console.warn('Catalogue search failed:', error);
+        if (!cancelled) setCatalogueError('Catalogue search is unavailable offline');
+      } finally {
+        if (!cancelled) setIsSearchingCatalogue(false);
+      }
+    };
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  const findOwned = useMemo(() => {
+    const byIsbn = new Map<string, Book>();
+    for (const book of books) {
+      const isbn = book.isbn ? normalizeIsbn(book.isbn) : null;
+      if (isbn) byIsbn.set(isbn, book);
+    }
+    return (result: BookMetadata): Book | undefined =>
+      (result.isbn ? byIsbn.get(result.isbn) : undefined) ??
+      books.find(b => sameText(b.title, result.title) && sameText(b.author, result.author));
+  }, [books]);
+
+  const resultKey = (result: BookMetadata) => result.isbn ?? `${result.title}|${result.author ?? ''}`;
+
+  const handleAddToRead = async (result: BookMetadata) => {
+    if (isAtLimit('books', books.length, isPremium)) {
+      Alert.alert(
+        'Book Limit Reached',
+        'You\'ve reached the maximum number of books for the free plan. Upgrade to Premium for unlimited books!',
+        [
+          { text: 'Maybe Later', style: 'cancel' },
+          { text: 'Upgrade', onPress: () => router.push('/subscription') },
+        ]
+      );
+      return;
+    }
+
+    // Without a page count progress can't be tracked; let the user fill in the rest
+    if (!result.total_pages || !result.author) {
+      router.push({
+        pathname: '/book/add',
+        params: {
+          title: result.title,
+          ...(result.author && { author: result.author }),
+          ...(result.isbn && { isbn: result.isbn }),
+          ...(result.cover_url && { cover_url: result.cover_url }),
+        },
+      });
+      return;
+    }
+
+    setAddingKey(resultKey(result));
+    const newBook = await addBook({
+      title: result.title,
+      author: result.author,
+      total_pages: result.total_pages,
+      current_page: 0,
+      status: 'to_read',
+      ...(result.isbn && { isbn: result.isbn }),
+      ...(result.cover_url && { cover_url: result.cover_url }),
+    });
+    setAddingKey(null);
+
+    if (!newBook) {
+      Alert.alert('Error', 'Failed to add book. Please try again.');
+    }
+  };
+
+  const hasQuery = debouncedQuery.length > 0;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => router.back()}
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.searchBox}>
+          <Ionicons name="search" size={20} color="#9CA3AF" />
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Title, author, ISBN or note"
+            placeholderTextColor="#9CA3AF"
+            autoFocus
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')} accessibilityLabel="Clear search">
+              <Ionicons name="close-circle" size={20} color="#9CA3AF" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {!hasQuery && (
+          <View style={styles.emptyState}>
+            <Ionicons name="search-outline" size={48} color="#D1D5DB" />
+            <Text style={styles.emptyText}>Search your library and discover new books</Text>
+          </View>
+        )}
+
+        {/* Own Library */}
+        {hasQuery && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>In Your Library</Text>
+            {libraryResults.length === 0 ? (
+              <Text style={styles.sectionEmpty}>No matching books in your library</Text>
+            ) : (
+              libraryResults.map(({ book, matchedNote }) => (
+                <TouchableOpacity
+                  key={book.id}
+                  style={styles.resultRow}
+                  onPress={() => router.push(`/book/${book.id}`)}
+                >
+                  <View style={styles.resultInfo}>
+                    <Text style={styles.resultTitle} numberOfLines={1}>{book.title}</Text>
+                    <Text style={styles.resultAuthor} numberOfLines={1}>{book.author}</Text>
+                    {matchedNote && <Text style={styles.resultHint}>Matched in your notes</Text>}
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        )}
+
+        {/* Catalogue */}
+        {debouncedQuery.length >= MIN_CATALOGUE_QUERY && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Catalogue</Text>
+              {isSearchingCatalogue && <ActivityIndicator size="small" color="#F59E0B" />}
+            </View>
+            {catalogueError ? (
+              <Text style={styles.sectionEmpty}>{catalogueError}</Text>
+            ) : !isSearchingCatalogue && catalogueResults.length === 0 ? (
+              <Text style={styles.sectionEmpty}>No catalogue results</Text>
+            ) : (
+              catalogueResults.map((result) => {
+                const owned = findOwned(result);
+                const key = resultKey(result);
+                return (
+                  <View key={key} style={styles.resultRow}>
+                    {result.cover_url ? (
+                      <Image source={{ uri: result.cover_url }} style={styles.cover} />
+                    ) : (
+                      <View style={[styles.cover, styles.coverPlaceholder]}>
+                        <Ionicons name="book-outline" size={20} color="#9CA3AF" />
+                      </View>
+                    )}
+                    <View style={styles.resultInfo}>
+                      <Text style={styles.resultTitle} numberOfLines={2}>{result.title}</Text>
+                      {result.author && (
+                        <Text style={styles.resultAuthor} numberOfLines={1}>{result.author}</Text>
+                      )}
+                      {result.total_pages && (
+                        <Text style={styles.resultHint}>{result.total_pages} pages</Text>
+                      )}
+                    </View>
+                    {owned ? (
+                      <TouchableOpacity
+                        style={styles.ownedBadge}
+                        onPress={() => router.push(`/book/${owned.id}`)}
+                        accessibilityLabel={`${result.title} is in your library`}
+                      >
+                        <Ionicons name="checkmark" size={14} color="#059669" />
+                        <Text style={styles.ownedText}>Owned</Text>
+                      </TouchableOpacity>
+                    ) : addingKey === key ? (
+                      <ActivityIndicator size="small" color="#F59E0B" />
+                    ) : (
+                      <TouchableOpacity
+                        style={styles.addButton}
+                        onPress={() => handleAddToRead(result)}
+                        accessibilityLabel={`Add ${result.title} to To Read`}
+                      >
+                        <Ionicons name="add" size={16} color="#FFFFFF" />
+                        <Text style={styles.addButtonText}>To Read</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  content: {
+    padding: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  sectionEmpty: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  resultAuthor: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  resultHint: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  cover: {
+    width: 40,
+    height: 60,
+    borderRadius: 4,
+    backgroundColor: '#F3F4F6',
+  },
+  coverPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  ownedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#D1FAE5',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  ownedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#059669',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#F59E0B',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  addButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -20,6 +20,7 @@ export default function SettingsLayout() {
       <Stack.Screen name="goals" options={{ title: 'Goals' }} />
       <Stack.Screen name="units" options={{ title: 'Units' }} />
       <Stack.Screen name="sync" options={{ title: 'Data Sync' }} />
+      <Stack.Screen name="import" options={{ title: 'Import Books' }} />
       <Stack.Screen name="support" options={{ title: 'Help & Support' }} />
       <Stack.Screen name="about" options={{ title: 'About' }} />
     </Stack>
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,56 +13,187 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useAppStore } from '../../src/stores/appStore';
+import { useAppStore, type GoalMetric, type GoalPeriod, type ReadingGoal } from '../../src/stores/appStore';
 import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
+import { getFeatureLimit } from '../../src/config/premiumFeatures';
+import { fromLocalDayKey, toLocalDayKey } from '../../src/utils/dates';
+import {
+  describeGoal,
+  formatGoalWindow,
+  isDayKey,
+  isGoalActive,
+  FREE_GOAL_METRIC,
+  FREE_GOAL_PERIOD,
+  GOAL_METRICS,
+  GOAL_METRIC_LABELS,
+  GOAL_PERIODS,
+  GOAL_PERIOD_LABELS,
+} from '../../src/utils/goals';
+import { describePace, getGoalPace, type GoalPace, type PaceStatus } from '../../src/utils/pacing';
+
+const PACE_COLORS: Record<PaceStatus, string> = {
+  upcoming: '#6B7280',
+  ahead: '#10B981',
+  on_track: '#F59E0B',
+  behind: '#EF4444',
+  complete: '#10B981',
+  missed: '#6B7280',
+};
+
+const formatDay = (key: string) =>
+  fromLocalDayKey(key).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/**
+ * What it takes to finish on time, and when the recent pace gets there
+ */
+const describeSchedule = (goal: ReadingGoal, pace: GoalPace): string | null => {
+  if (pace.status === 'complete' || pace.status === 'missed' || pace.status === 'upcoming') return null;
+
+  const daily = pace.requiredDailyPages !== null
+    ? `${pace.requiredDailyPages} pages a day`
+    : `${Math.ceil(pace.requiredPerDay)} minutes a day`;
+  const required = `Read ${daily} to finish on time.`;
+
+  if (!pace.projectedCompletion) return `${required} Log some reading to see when you'll finish.`;
+  return pace.projectedCompletion <= pace.progress.window.end
+    ? `${required} At your recent pace you'll finish by ${formatDay(pace.projectedCompletion)}.`
+    : `${required} At your recent pace you'd finish on ${formatDay(pace.projectedCompletion)}, after the deadline.`;
+};
+
+const DEFAULT_TARGETS: Record<GoalMetric, string> = {
+  books: '12',
+  pages: '5000',
+  minutes: '600',
+};
 
 export default function GoalsScreen() {
   const router = useRouter();
-  const { readingGoal, setReadingGoal, books } = useAppStore();
+  const { readingGoals, saveGoal, deleteGoal, books, bookReads, readingSessions } = useAppStore();
   const { isPremium } = useSubscriptionStore();
+  const allGoalTypes = getFeatureLimit('allGoalTypes', isPremium);
 
-  const currentYear = new Date().getFullYear();
-  const finishedThisYear = books.filter(b => {
-    if (!b.date_finished) return false;
-    return new Date(b.date_finished).getFullYear() === currentYear;
-  }).length;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [period, setPeriod] = useState<GoalPeriod>(FREE_GOAL_PERIOD);
+  const [metric, setMetric] = useState<GoalMetric>(FREE_GOAL_METRIC);
+  const [target, setTarget] = useState(DEFAULT_TARGETS.books);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
 
-  const [yearlyBooks, setYearlyBooks] = useState(
-    readingGoal?.target_books?.toString() || '12'
-  );
-  const [yearlyPages, setYearlyPages] = useState(
-    readingGoal?.target_pages?.toString() || ''
+  const activity = useMemo(
+    () => ({ books, reads: bookReads, sessions: readingSessions }),
+    [books, bookReads, readingSessions]
   );
-  const [dailyPages, setDailyPages] = useState('30');
-  const [isSaving, setIsSaving] = useState(false);
 
-  useEffect(() => {
-    if (readingGoal) {
-      setYearlyBooks(readingGoal.target_books?.toString() || '12');
-      setYearlyPages(readingGoal.target_pages?.toString() || '');
-    }
-  }, [readingGoal]);
+  const isLocked = (nextPeriod: GoalPeriod, nextMetric: GoalMetric) =>
+    !allGoalTypes && (nextPeriod !== FREE_GOAL_PERIOD || nextMetric !== FREE_GOAL_METRIC);
+
+  const showUpgrade = () => {
+    Alert.alert('Premium Feature', 'Monthly, weekly and custom goals, and page or minute targets, come with Premium.',
+      [{ text: 'Not Now', style: 'cancel' }, { text: 'Upgrade', onPress: () => router.push('/subscription') }]
+    );
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setPeriod(FREE_GOAL_PERIOD);
+    setMetric(FREE_GOAL_METRIC);
+    setTarget(DEFAULT_TARGETS.books);
+    setStartDate('');
+    setEndDate('');
+  };
+
+  const handleEdit = (goal: ReadingGoal) => {
+    setEditingId(goal.id);
+    setPeriod(goal.period);
+    setMetric(goal.metric);
+    setTarget(String(goal.target));
+    setStartDate(goal.period === 'custom' ? goal.start_date : '');
+    setEndDate(goal.period === 'custom' ? goal.end_date ?? '' : '');
+  };
+
+  const handleDelete = (goal: ReadingGoal) => {
+    Alert.alert('Delete Goal', `Delete your goal of ${describeGoal(goal)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          if (editingId === goal.id) resetForm();
+          await deleteGoal(goal.id);
+        },
+      },
+    ]);
+  };
 
   const handleSave = useCallback(async () => {
     Keyboard.dismiss();
+
+    if (isLocked(period, metric)) {
+      showUpgrade();
+      return;
+    }
+
+    const targetValue = parseInt(target, 10);
+    if (!targetValue || targetValue <= 0) {
+      Alert.alert('Validation Error', 'Enter a target greater than zero');
+      return;
+    }
+
+    const today = toLocalDayKey(new Date());
+    const existing = readingGoals.find((goal) => goal.id === editingId);
+    let range: Pick<ReadingGoal, 'start_date' | 'end_date'>;
+    if (period === 'custom') {
+      if (!isDayKey(startDate) || !isDayKey(endDate)) {
+        Alert.alert('Validation Error', 'Enter the start and end dates as YYYY-MM-DD');
+        return;
+      }
+      if (endDate < startDate) {
+        Alert.alert('Validation Error', 'The end date must be after the start date');
+        return;
+      }
+      range = { start_date: startDate, end_date: endDate };
+    } else if (existing && existing.period === period) {
+      // Changing the target keeps the goal's history
+      range = { start_date: existing.start_date, end_date: existing.end_date };
+    } else {
+      range = { start_date: today, end_date: null };
+    }
+
     setIsSaving(true);
+    const saved = await saveGoal({ period, metric, target: targetValue, ...range }, editingId ?? undefined);
+    setIsSaving(false);
 
-    try {
-      const targetBooks = parseInt(yearlyBooks, 10) || 12;
-      const targetPages = yearlyPages ? parseInt(yearlyPages, 10) : undefined;
+    if (saved) {
+      resetForm();
+      Alert.alert('Success', 'Your reading goal has been saved!');
+    } else {
+      Alert.alert('Error', 'Failed to save goal. Please try again.');
+    }
+  }, [period, metric, target, startDate, endDate, editingId, readingGoals, saveGoal, allGoalTypes]);
 
-      await setReadingGoal(targetBooks, targetPages);
-      Alert.alert('Success', 'Your reading goals have been saved!');
-    } catch (error) {
-      Alert.alert('Error', 'Failed to save goals. Please try again.');
-    } finally {
-      setIsSaving(false);
+  const selectPeriod = (next: GoalPeriod) => {
+    if (isLocked(next, FREE_GOAL_METRIC)) {
+      showUpgrade();
+      return;
     }
-  }, [yearlyBooks, yearlyPages, setReadingGoal]);
+    setPeriod(next);
+  };
 
-  const progress = readingGoal
-    ? Math.min(100, Math.round((finishedThisYear / readingGoal.target_books) * 100))
-    : 0;
+  const selectMetric = (next: GoalMetric) => {
+    if (isLocked(FREE_GOAL_PERIOD, next)) {
+      showUpgrade();
+      return;
+    }
+    setMetric(next);
+    if (!editingId) setTarget(DEFAULT_TARGETS[next]);
+  };
+
+  // Current goals first, then upcoming and ended ones
+  const sortedGoals = useMemo(
+    () => [...readingGoals].sort((a, b) => Number(isGoalActive(b)) - Number(isGoalActive(a))),
+    [readingGoals]
+  );
 
   return (
     <SafeAreaView style={styles.container} edges={['bottom']}>
@@ -72,41 +203,143 @@ export default function GoalsScreen() {
             Set your reading goals to stay motivated and track your progress throughout the year.
           </Text>
 
-          {/* Progress Card */}
-          {readingGoal && (
-            <View style={styles.progressCard}>
-              <View style={styles.progressHeader}>
-                <Text style={styles.progressTitle}>{currentYear} Progress</Text>
-                <Text style={styles.progressPercent}>{progress}%</Text>
+          {/* Progress Cards */}
+          {sortedGoals.map((goal) => {
+            const pace = getGoalPace(goal, activity);
+            const { progress } = pace;
+            const active = isGoalActive(goal);
+            const schedule = describeSchedule(goal, pace);
+            return (
+              <TouchableOpacity
+                key={goal.id}
+                style={[styles.progressCard, !active && styles.progressCardInactive]}
+                onPress={() => handleEdit(goal)}
+                accessibilityLabel={`Edit goal: ${describeGoal(goal)}`}
+                accessibilityRole="button"
+              >
+                <View style={styles.progressHeader}>
+                  <View style={styles.progressHeading}>
+                    <Text style={styles.progressTitle}>{describeGoal(goal)}</Text>
+                    <Text style={styles.progressWindow}>
+                      {active ? '' : 'Not active · '}{formatGoalWindow(progress.window)}
+                    </Text>
+                  </View>
+                  <Text style={styles.progressPercent}>{progress.percent}%</Text>
+                  <TouchableOpacity
+                    style={styles.deleteButton}
+                    onPress={() => handleDelete(goal)}
+                    accessibilityLabel="Delete goal"
+                    accessibilityRole="button"
+                  >
+                    <Ionicons name="trash-outline" size={20} color="#9CA3AF" />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.progressBarContainer}>
+                  <View style={[styles.progressBar, { width: `${progress.percent}%` }]} />
+                </View>
+                <Text style={styles.progressText}>
+                  {progress.current} of {progress.target} {goal.metric} read
+                </Text>
+                <View style={styles.paceRow}>
+                  <View style={[styles.paceDot, { backgroundColor: PACE_COLORS[pace.status] }]} />
+                  <Text style={[styles.paceStatus, { color: PACE_COLORS[pace.status] }]}>
+                    {describePace(goal, pace)}
+                  </Text>
+                </View>
+                {schedule && <Text style={styles.paceSchedule}>{schedule}</Text>}
+              </TouchableOpacity>
+            );
+          })}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{editingId ? 'Edit Goal' : 'New Goal'}</Text>
+
+            <View style={styles.goalCard}>
+              <View style={styles.goalHeader}>
+                <Ionicons name="calendar-outline" size={24} color="#F59E0B" />
+                <Text style={styles.goalTitle}>Period</Text>
+                {!allGoalTypes && (
+                  <View style={styles.premiumBadge}>
+                    <Ionicons name="star" size={12} color="#D97706" />
+                    <Text style={styles.premiumBadgeText}>Premium</Text>
+                  </View>
+                )}
               </View>
-              <View style={styles.progressBarContainer}>
-                <View style={[styles.progressBar, { width: `${progress}%` }]} />
+              <View style={styles.chipRow}>
+                {GOAL_PERIODS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, period === option && styles.chipSelected]}
+                    onPress={() => selectPeriod(option)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: period === option }}
+                  >
+                    {isLocked(option, FREE_GOAL_METRIC) && (
+                      <Ionicons name="lock-closed" size={12} color="#9CA3AF" />
+                    )}
+                    <Text style={[styles.chipText, period === option && styles.chipTextSelected]}>
+                      {GOAL_PERIOD_LABELS[option]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
               </View>
-              <Text style={styles.progressText}>
-                {finishedThisYear} of {readingGoal.target_books} books read
-              </Text>
-            </View>
-          )}
 
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Yearly Goals</Text>
+              {period === 'custom' && (
+                <View style={styles.dateRow}>
+                  <TextInput
+                    style={[styles.input, styles.dateInput]}
+                    value={startDate}
+                    onChangeText={setStartDate}
+                    placeholder="Start (YYYY-MM-DD)"
+                    placeholderTextColor="#9CA3AF"
+                    maxLength={10}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.dateInput]}
+                    value={endDate}
+                    onChangeText={setEndDate}
+                    placeholder="End (YYYY-MM-DD)"
+                    placeholderTextColor="#9CA3AF"
+                    maxLength={10}
+                  />
+                </View>
+              )}
+            </View>
 
             <View style={styles.goalCard}>
               <View style={styles.goalHeader}>
                 <Ionicons name="library-outline" size={24} color="#F59E0B" />
-                <Text style={styles.goalTitle}>Books to Read</Text>
+                <Text style={styles.goalTitle}>Target</Text>
+              </View>
+              <View style={styles.chipRow}>
+                {GOAL_METRICS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, metric === option && styles.chipSelected]}
+                    onPress={() => selectMetric(option)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: metric === option }}
+                  >
+                    {isLocked(FREE_GOAL_PERIOD, option) && (
+                      <Ionicons name="lock-closed" size={12} color="#9CA3AF" />
+                    )}
+                    <Text style={[styles.chipText, metric === option && styles.chipTextSelected]}>
+                      {GOAL_METRIC_LABELS[option]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
               </View>
               <View style={styles.inputRow}>
                 <TextInput
                   style={styles.input}
-                  value={yearlyBooks}
-                  onChangeText={(text) => setYearlyBooks(text.replace(/[^0-9]/g, ''))}
+                  value={target}
+                  onChangeText={(text) => setTarget(text.replace(/[^0-9]/g, ''))}
                   keyboardType="number-pad"
-                  maxLength={3}
-                  placeholder="12"
+                  maxLength={6}
+                  placeholder={DEFAULT_TARGETS[metric]}
                   placeholderTextColor="#9CA3AF"
                 />
-                <Text style={styles.inputUnit}>books</Text>
+                <Text style={styles.inputUnit}>{metric}</Text>
                 <TouchableOpacity
                   style={styles.doneButton}
                   onPress={Keyboard.dismiss}
@@ -115,40 +348,11 @@ export default function GoalsScreen() {
                 </TouchableOpacity>
               </View>
               <Text style={styles.goalHint}>
-                How many books do you want to finish this year?
+                {metric === 'books'
+                  ? 'Counts every book you finish, re-reads included'
+                  : `Counts the ${metric} logged in your reading sessions`}
               </Text>
-            </View>
-
-            <View style={styles.goalCard}>
-              <View style={styles.goalHeader}>
-                <Ionicons name="document-text-outline" size={24} color="#F59E0B" />
-                <Text style={styles.goalTitle}>Pages to Read</Text>
-                {!isPremium && (
-                  <View style={styles.premiumBadge}>
-                    <Ionicons name="star" size={12} color="#D97706" />
-                    <Text style={styles.premiumBadgeText}>Premium</Text>
-                  </View>
-                )}
-              </View>
-              <View style={styles.inputRow}>
-                <TextInput
-                  style={[styles.input, !isPremium && styles.inputDisabled]}
-                  value={yearlyPages}
-                  onChangeText={(text) => setYearlyPages(text.replace(/[^0-9]/g, ''))}
-                  keyboardType="number-pad"
-                  maxLength={6}
-                  placeholder="5000"
-                  placeholderTextColor="#9CA3AF"
-                  editable={isPremium}
-                />
-                <Text style={styles.inputUnit}>pages</Text>
-              </View>
-              <Text style={styles.goalHint}>
-                {isPremium
-                  ? 'Optional: Set a total page count goal'
-                  : 'Upgrade to Premium to set page goals'}
-              </Text>
-              {!isPremium && (
+              {!allGoalTypes && (
                 <TouchableOpacity
                   style={styles.upgradeButton}
                   onPress={() => router.push('/subscription')}
@@ -159,32 +363,6 @@ export default function GoalsScreen() {
             </View>
           </View>
 
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Daily Target</Text>
-
-            <View style={styles.goalCard}>
-              <View style={styles.goalHeader}>
-                <Ionicons name="time-outline" size={24} color="#F59E0B" />
-                <Text style={styles.goalTitle}>Daily Reading</Text>
-              </View>
-              <View style={styles.inputRow}>
-                <TextInput
-                  style={styles.input}
-                  value={dailyPages}
-                  onChangeText={(text) => setDailyPages(text.replace(/[^0-9]/g, ''))}
-                  keyboardType="number-pad"
-                  maxLength={3}
-                  placeholder="30"
-                  placeholderTextColor="#9CA3AF"
-                />
-                <Text style={styles.inputUnit}>pages/day</Text>
-              </View>
-              <Text style={styles.goalHint}>
-                Suggested daily pages to reach your yearly goal
-              </Text>
-            </View>
-          </View>
-
           <TouchableOpacity
             style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
             onPress={handleSave}
@@ -192,9 +370,15 @@ export default function GoalsScreen() {
           >
             <Ionicons name="checkmark" size={20} color="#FFFFFF" />
             <Text style={styles.saveButtonText}>
-              {isSaving ? 'Saving...' : 'Save Goals'}
+              {isSaving ? 'Saving...' : editingId ? 'Update Goal' : 'Add Goal'}
             </Text>
           </TouchableOpacity>
+
+          {editingId && (
+            <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+              <Text style={styles.cancelButtonText}>Cancel Editing</Text>
+            </TouchableOpacity>
+          )}
         </ScrollView>
       </TouchableWithoutFeedback>
     </SafeAreaView>
@@ -224,12 +408,32 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#FEF3C7',
   },
+  progressCardInactive: {
+    borderColor: '#E5E7EB',
+    opacity: 0.7,
+  },
   progressHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     marginBottom: 12,
   },
+  progressHeading: {
+    flex: 1,
+  },
+  progressWindow: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 4,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   progressTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -257,6 +461,29 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     textAlign: 'center',
   },
+  paceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  paceDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  paceStatus: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  paceSchedule: {
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 18,
+    marginTop: 4,
+  },
   section: {
     marginBottom: 24,
   },
@@ -300,6 +527,39 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#D97706',
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipSelected: {
+    backgroundColor: '#F59E0B',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateInput: {
+    fontSize: 15,
+  },
   inputRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -317,10 +577,6 @@ const styles = StyleSheet.create({
     color: '#111827',
     minHeight: 50,
   },
-  inputDisabled: {
-    backgroundColor: '#F3F4F6',
-    color: '#9CA3AF',
-  },
   inputUnit: {
     fontSize: 16,
     color: '#6B7280',
@@ -370,4 +626,15 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  cancelButton: {
+    alignItems: 'center',
+    padding: 12,
+    marginTop: -20,
+    marginBottom: 32,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
 });
@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { File } from 'expo-file-system';
+import useAppStore from '../../src/stores/appStore';
+import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
+import { getRemainingCount } from '../../src/config/premiumFeatures';
+import {
+  buildImportPreview,
+  parseImportFile,
+  IMPORT_SOURCE_LABELS,
+  type ImportPreviewItem,
+  type ImportSource,
+} from '../../src/utils/importers';
+import { formatRating } from '../../src/utils/ratings';
+
+const STATUS_LABELS = {
+  to_read: 'To Read',
+  reading: 'Reading',
+  finished: 'Finished',
+  dnf: 'Did Not Finish',
+} as const;
+
+export default function ImportScreen() {
+  const router = useRouter();
+  const { books, importBooks } = useAppStore();
+  const { isPremium } = useSubscriptionStore();
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [preview, setPreview] = useState<ImportPreviewItem[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isPicking, setIsPicking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const remaining = getRemainingCount('books', books.length, isPremium);
+  const overLimit = remaining !== 'unlimited' && selected.size > remaining;
+
+  const duplicateCount = useMemo(
+    () => preview.filter((item) => item.duplicateOf).length,
+    [preview]
+  );
+
+  const handlePickFile = async () => {
+    setIsPicking(true);
+    try {
+      const picked = await File.pickFileAsync(undefined, 'text/*');
+      const file = Array.isArray(picked) ? picked[0] : picked;
+      if (!file) return;
+
+      const parsed = parseImportFile(await file.text());
+      const items = buildImportPreview(parsed.books, books);
+      setSource(parsed.source);
+      setPreview(items);
+      // Books already in the library start unticked
+      setSelected(new Set(items.filter((item) => !item.duplicateOf).map((item) => item.book.row)));
+    } catch (error: any) {
+      // Closing the picker without a file is not an error
+      if (!/cancel/i.test(error.message ?? '')) {
+        Alert.alert('Import Failed', error.message);
+      }
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const toggleRow = (row: number) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(row)) next.delete(row);
+      else next.add(row);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (overLimit) {
+      Alert.alert(
+        'Book Limit',
+        `Free accounts can add ${remaining} more ${remaining === 1 ? 'book' : 'books'}. Deselect some books or upgrade to Premium.`,
+        [{ text: 'Not Now', style: 'cancel' }, { text: 'Upgrade', onPress: () => router.push('/subscription') }]
+      );
+      return;
+    }
+
+    setIsImporting(true);
+    const count = await importBooks(
+      preview.filter((item) => selected.has(item.book.row)).map((item) => item.book)
+    );
+    setIsImporting(false);
+
+    const { error } = useAppStore.getState();
+    if (count === 0 && error) {
+      Alert.alert('Import Failed', error);
+      return;
+    }
+    Alert.alert('Import Complete', `Added ${count} ${count === 1 ? 'book' : 'books'} to your library.`, [
+      { text: 'OK', onPress: () => router.back() },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: ImportPreviewItem }) => {
+    const { book, duplicateOf } = item;
+    const isSelected = selected.has(book.row);
+    const details = [
+      STATUS_LABELS[book.status],
+      book.rating ? `★ ${formatRating(book.rating)}` : null,
+      book.total_pages > 0 ? `${book.total_pages} pages` : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => toggleRow(book.row)}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: isSelected }}
+        accessibilityLabel={`${book.title} by ${book.author}`}
+      >
+        <Ionicons
+          name={isSelected ? 'checkbox' : 'square-outline'}
+          size={24}
+          color={isSelected ? '#F59E0B' : '#9CA3AF'}
+        />
+        <View style={styles.rowContent}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{book.title}</Text>
+          <Text style={styles.rowAuthor} numberOfLines={1}>{book.author || 'Unknown'}</Text>
+          <Text style={styles.rowDetails}>{details}</Text>
+          {duplicateOf && (
+            <Text style={styles.duplicate}>Already in your library</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (!source) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.content}>
+          <View style={styles.intro}>
+            <Ionicons name="cloud-upload-outline" size={48} color="#F59E0B" />
+            <Text style={styles.introTitle}>Bring Your Library</Text>
+            <Text style={styles.introText}>
+              Choose the CSV file from a Goodreads export (My Books → Import and export) or a StoryGraph
+              export (Manage Account → Export StoryGraph Library). Shelves, ratings, reviews and read dates
+              come across with each book.
+            </Text>
+            <TouchableOpacity
+              style={[styles.primaryButton, isPicking && styles.buttonDisabled]}
+              onPress={handlePickFile}
+              disabled={isPicking}
+            >
+              {isPicking ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Ionicons name="document-outline" size={20} color="#FFFFFF" />
+              )}
+              <Text style={styles.primaryButtonText}>Choose CSV File</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <FlatList
+        data={preview}
+        keyExtractor={(item) => String(item.book.row)}
+        renderItem={renderItem}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={
+          <View style={styles.summary}>
+            <Text style={styles.summaryTitle}>
+              {preview.length} {preview.length === 1 ? 'book' : 'books'} from {IMPORT_SOURCE_LABELS[source]}
+            </Text>
+            {duplicateCount > 0 && (
+              <Text style={styles.summaryText}>
+                {duplicateCount} already in your library and left unticked.
+              </Text>
+            )}
+            {remaining !== 'unlimited' && (
+              <Text style={[styles.summaryText, overLimit && styles.limitText]}>
+                Free accounts can add {remaining} more {remaining === 1 ? 'book' : 'books'}.
+              </Text>
+            )}
+            <TouchableOpacity onPress={handlePickFile} disabled={isPicking}>
+              <Text style={styles.linkText}>Choose a different file</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, (selected.size === 0 || isImporting) && styles.buttonDisabled]}
+          onPress={handleImport}
+          disabled={selected.size === 0 || isImporting}
+        >
+          {isImporting && <ActivityIndicator color="#FFFFFF" />}
+          <Text style={styles.primaryButtonText}>
+            Import {selected.size} {selected.size === 1 ? 'Book' : 'Books'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  intro: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 24,
+    alignItems: 'center',
+  },
+  introTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#F59E0B',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  summary: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  limitText: {
+    color: '#EF4444',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F59E0B',
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  rowContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  rowAuthor: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  rowDetails: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  duplicate: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#D97706',
+    marginTop: 4,
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+});
@@ -1,14 +1,21 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, Switch, TouchableOpacity, Alert, Share } from 'react-native';
+import { View, Text, StyleSheet, Switch, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import useAppStore from '../../src/stores/appStore';
+import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
+import { getFeatureLimit } from '../../src/config/premiumFeatures';
+import { exportService, type ExportFormat } from '../../src/services/export.service';
 
 const PRIVACY_SETTINGS_KEY = 'app_privacy_settings';
 
 export default function PrivacyScreen() {
-  const { pets: items, reset } = useAppStore();
+  const router = useRouter();
+  const { user, reset } = useAppStore();
+  const { isPremium } = useSubscriptionStore();
+  const [isExporting, setIsExporting] = useState(false);
   const [settings, setSettings] = useState({ analytics: true, crashReports: true, shareUsageData: false });
 
   useEffect(() => { loadSettings(); }, []);
@@ -26,8 +33,27 @@ export default function PrivacyScreen() {
     );
   };
 
-  const handleExportData = async () => {
-    try { await Share.share({ message: JSON.stringify({ items, settings }, null, 2) }); } catch { Alert.alert('Export Failed'); }
+  const exportAs = async (format: ExportFormat) => {
+    if (!user) return;
+    setIsExporting(true);
+    try { await exportService.exportLibrary(user.id, format); } catch (error: any) { Alert.alert('Export Failed', error.message); } finally { setIsExporting(false); }
+  };
+
+  const handleExportData = () => {
+    if (!getFeatureLimit('exportEnabled', isPremium)) {
+      Alert.alert('Premium Feature', 'Exporting your library is available with Premium.',
+        [{ text: 'Not Now', style: 'cancel' }, { text: 'Upgrade', onPress: () => router.push('/subscription') }]
+      );
+      return;
+    }
+    Alert.alert('Export My Data', 'Choose a format',
+      [
+        { text: 'CSV (one row per book)', onPress: () => exportAs('csv') },
+        { text: 'JSON (everything)', onPress: () => exportAs('json') },
+        { text: 'Markdown (notes & highlights)', onPress: () => exportAs('markdown') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
   };
 
   return (
@@ -82,11 +108,24 @@ export default function PrivacyScreen() {
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Your Data</Text>
 
-          <TouchableOpacity style={styles.actionButton} onPress={handleExportData}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleExportData} disabled={isExporting}>
             <Ionicons name="download-outline" size={24} color="#F59E0B" />
             <View style={styles.optionContent}>
               <Text style={styles.optionTitle}>Export My Data</Text>
-              <Text style={styles.optionDescription}>Download a copy of your data</Text>
+              <Text style={styles.optionDescription}>CSV, JSON or Markdown copy of your library</Text>
+            </View>
+            {isExporting ? (
+              <ActivityIndicator color="#F59E0B" />
+            ) : (
+              <Ionicons name={isPremium ? 'chevron-forward' : 'lock-closed'} size={20} color="#9CA3AF" />
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/settings/import')}>
+            <Ionicons name="cloud-upload-outline" size={24} color="#F59E0B" />
+            <View style={styles.optionContent}>
+              <Text style={styles.optionTitle}>Import Books</Text>
+              <Text style={styles.optionDescription}>From a Goodreads or StoryGraph CSV export</Text>
             </View>
             <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
           </TouchableOpacity>
@@ -1,29 +1,66 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, Switch, TouchableOpacity, Alert } from 'react-native';
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, Switch, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useNetInfo } from '@react-native-community/netinfo';
+import { useAppStore, type SyncSettings } from '../../src/stores/appStore';
+
+const SYNC_STREAMS: { key: string; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { key: 'books', label: 'Books', icon: 'book-outline' },
+  { key: 'book_reads', label: 'Reading History', icon: 'repeat-outline' },
+  { key: 'bookshelves', label: 'Shelves', icon: 'library-outline' },
+  { key: 'bookshelf_items', label: 'Shelf Contents', icon: 'albums-outline' },
+  { key: 'notes', label: 'Notes', icon: 'document-text-outline' },
+  { key: 'highlights', label: 'Highlights', icon: 'color-fill-outline' },
+  { key: 'reading_sessions', label: 'Reading Sessions', icon: 'timer-outline' },
+  { key: 'reading_goals', label: 'Goals', icon: 'flag-outline' },
+  { key: 'reading_streaks', label: 'Streaks', icon: 'flame-outline' },
+  { key: 'achievements', label: 'Achievements', icon: 'trophy-outline' },
+  { key: 'deleted_records', label: 'Deletions', icon: 'trash-outline' },
+];
 
 export default function SyncScreen() {
-  const [settings, setSettings] = useState({
-    autoSync: true,
-    syncOnWifiOnly: true,
-    backgroundSync: false,
-  });
+  const router = useRouter();
+  const {
+    syncSettings,
+    updateSyncSettings,
+    syncAll,
+    lastSyncedAt,
+    isSyncing,
+    pendingChanges,
+    streamStatus,
+    syncQueue,
+    fetchSyncQueue,
+    retryFailedChanges,
+    cloudSyncEnabled,
+    error,
+  } = useAppStore();
+  const netInfo = useNetInfo();
+
+  useEffect(() => {
+    fetchSyncQueue();
+  }, [fetchSyncQueue, pendingChanges]);
 
-  const [lastSync, setLastSync] = useState<Date | null>(new Date());
+  const isOffline = netInfo.isConnected === false || netInfo.isInternetReachable === false;
+  const waitingForWifi = !isOffline
+    && syncSettings.syncOnWifiOnly
+    && netInfo.type !== 'unknown'
+    && netInfo.type !== 'wifi'
+    && netInfo.type !== 'ethernet';
+  const failedChanges = Object.values(syncQueue).reduce((sum, queue) => sum + (queue?.failed ?? 0), 0);
 
-  const toggleSetting = (key: keyof typeof settings) => {
-    setSettings(prev => ({ ...prev, [key]: !prev[key] }));
+  const toggleSetting = (key: keyof SyncSettings) => {
+    updateSyncSettings({ [key]: !syncSettings[key] });
   };
 
   const handleSyncNow = () => {
-    Alert.alert('Sync Started', 'Your data is being synchronized...');
-    setLastSync(new Date());
+    syncAll();
   };
 
-  const formatLastSync = (date: Date | null) => {
+  const formatLastSync = (date: string | null | undefined) => {
     if (!date) return 'Never';
-    return date.toLocaleString('en-US', {
+    return new Date(date).toLocaleString('en-US', {
       month: 'short',
       day: 'numeric',
       hour: 'numeric',
@@ -31,21 +68,65 @@ export default function SyncScreen() {
     });
   };
 
+  const getStatusSummary = (): { icon: keyof typeof Ionicons.glyphMap; title: string } => {
+    if (!cloudSyncEnabled) return { icon: 'phone-portrait-outline', title: 'Stored on This Device' };
+    if (isSyncing) return { icon: 'sync-outline', title: 'Syncing...' };
+    if (isOffline) return { icon: 'cloud-offline-outline', title: 'Offline' };
+    if (waitingForWifi) return { icon: 'wifi-outline', title: 'Waiting for Wi-Fi' };
+    if (error || failedChanges > 0) return { icon: 'alert-circle-outline', title: 'Sync Issue' };
+    if (pendingChanges > 0) {
+      return {
+        icon: 'cloud-upload-outline',
+        title: `${pendingChanges} ${pendingChanges === 1 ? 'change' : 'changes'} waiting`,
+      };
+    }
+    return { icon: 'cloud-done-outline', title: 'Data Synced' };
+  };
+
+  const summary = getStatusSummary();
+  const canSyncNow = cloudSyncEnabled && !isSyncing && !isOffline && !waitingForWifi;
+
   return (
     <SafeAreaView style={styles.container} edges={['bottom']}>
-      <View style={styles.content}>
+      <ScrollView contentContainerStyle={styles.content}>
         <View style={styles.syncStatus}>
           <View style={styles.syncStatusIcon}>
-            <Ionicons name="cloud-done-outline" size={48} color="#F59E0B" />
+            <Ionicons name={summary.icon} size={48} color="#F59E0B" />
           </View>
-          <Text style={styles.syncStatusText}>Data Synced</Text>
-          <Text style={styles.syncStatusTime}>Last sync: {formatLastSync(lastSync)}</Text>
-          <TouchableOpacity style={styles.syncButton} onPress={handleSyncNow}>
-            <Ionicons name="sync-outline" size={20} color="#FFFFFF" />
-            <Text style={styles.syncButtonText}>Sync Now</Text>
-          </TouchableOpacity>
+          <Text style={styles.syncStatusText}>{summary.title}</Text>
+          <Text style={styles.syncStatusTime}>Last sync: {formatLastSync(lastSyncedAt)}</Text>
+          {error && cloudSyncEnabled && <Text style={styles.syncError}>{error}</Text>}
+          {cloudSyncEnabled ? (
+            <TouchableOpacity
+              style={[styles.syncButton, !canSyncNow && styles.syncButtonDisabled]}
+              onPress={handleSyncNow}
+              disabled={!canSyncNow}
+            >
+              {isSyncing ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Ionicons name="sync-outline" size={20} color="#FFFFFF" />
+              )}
+              <Text style={styles.syncButtonText}>{isSyncing ? 'Syncing' : 'Sync Now'}</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.syncButton} onPress={() => router.push('/subscription')}>
+              <Ionicons name="star" size={20} color="#FFFFFF" />
+              <Text style={styles.syncButtonText}>Upgrade for Cloud Sync</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
+        {!cloudSyncEnabled && (
+          <View style={styles.localOnlyCard}>
+            <Ionicons name="cloud-offline-outline" size={24} color="#D97706" />
+            <Text style={styles.localOnlyText}>
+              Your library is saved on this device only. Premium syncs it across all your
+              devices and uploads everything you have added so far.
+            </Text>
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Sync Settings</Text>
 
@@ -56,10 +137,10 @@ export default function SyncScreen() {
               <Text style={styles.optionDescription}>Automatically sync data</Text>
             </View>
             <Switch
-              value={settings.autoSync}
+              value={syncSettings.autoSync}
               onValueChange={() => toggleSetting('autoSync')}
               trackColor={{ false: '#E5E7EB', true: '#A7F3D0' }}
-              thumbColor={settings.autoSync ? '#F59E0B' : '#9CA3AF'}
+              thumbColor={syncSettings.autoSync ? '#F59E0B' : '#9CA3AF'}
             />
           </View>
 
@@ -70,10 +151,10 @@ export default function SyncScreen() {
               <Text style={styles.optionDescription}>Only sync on Wi-Fi</Text>
             </View>
             <Switch
-              value={settings.syncOnWifiOnly}
+              value={syncSettings.syncOnWifiOnly}
               onValueChange={() => toggleSetting('syncOnWifiOnly')}
               trackColor={{ false: '#E5E7EB', true: '#A7F3D0' }}
-              thumbColor={settings.syncOnWifiOnly ? '#F59E0B' : '#9CA3AF'}
+              thumbColor={syncSettings.syncOnWifiOnly ? '#F59E0B' : '#9CA3AF'}
             />
           </View>
 
@@ -81,24 +162,69 @@ export default function SyncScreen() {
             <Ionicons name="moon-outline" size={24} color="#F59E0B" />
             <View style={styles.optionContent}>
               <Text style={styles.optionTitle}>Background Sync</Text>
-              <Text style={styles.optionDescription}>Sync when app is closed</Text>
+              <Text style={styles.optionDescription}>Send changes when you leave the app</Text>
             </View>
             <Switch
-              value={settings.backgroundSync}
+              value={syncSettings.backgroundSync}
               onValueChange={() => toggleSetting('backgroundSync')}
               trackColor={{ false: '#E5E7EB', true: '#A7F3D0' }}
-              thumbColor={settings.backgroundSync ? '#F59E0B' : '#9CA3AF'}
+              thumbColor={syncSettings.backgroundSync ? '#F59E0B' : '#9CA3AF'}
             />
           </View>
         </View>
 
+        {cloudSyncEnabled && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Sync Status</Text>
+
+            {SYNC_STREAMS.map((stream) => {
+              const status = streamStatus[stream.key];
+              const queue = syncQueue[stream.key as keyof typeof syncQueue];
+              const lastError = status?.lastError ?? queue?.lastError ?? null;
+              const waiting = (queue?.pending ?? 0) + (queue?.failed ?? 0);
+
+              let description = status?.lastSyncedAt
+                ? `Synced ${formatLastSync(status.lastSyncedAt)}`
+                : 'Not synced yet';
+              if (waiting > 0) description = `${waiting} waiting to upload`;
+
+              return (
+                <View key={stream.key} style={styles.option}>
+                  <Ionicons name={stream.icon} size={24} color="#F59E0B" />
+                  <View style={styles.optionContent}>
+                    <Text style={styles.optionTitle}>{stream.label}</Text>
+                    <Text style={styles.optionDescription}>{description}</Text>
+                    {lastError && (
+                      <Text style={styles.streamError} numberOfLines={2}>{lastError}</Text>
+                    )}
+                  </View>
+                  <Ionicons
+                    name={lastError ? 'alert-circle' : waiting > 0 ? 'time-outline' : 'checkmark-circle'}
+                    size={22}
+                    color={lastError ? '#EF4444' : waiting > 0 ? '#F59E0B' : '#10B981'}
+                  />
+                </View>
+              );
+            })}
+
+            {failedChanges > 0 && (
+              <TouchableOpacity style={styles.retryButton} onPress={retryFailedChanges}>
+                <Ionicons name="refresh-outline" size={18} color="#F59E0B" />
+                <Text style={styles.retryButtonText}>
+                  Retry {failedChanges} failed {failedChanges === 1 ? 'change' : 'changes'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         <View style={styles.infoCard}>
           <Ionicons name="information-circle-outline" size={24} color="#6366F1" />
           <Text style={styles.infoText}>
             Your data is stored locally and synced securely when enabled.
           </Text>
         </View>
-      </View>
+      </ScrollView>
     </SafeAreaView>
   );
 }
@@ -109,7 +235,6 @@ const styles = StyleSheet.create({
     backgroundColor: '#F9FAFB',
   },
   content: {
-    flex: 1,
     padding: 16,
   },
   syncStatus: {
@@ -142,6 +267,15 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     gap: 8,
   },
+  syncButtonDisabled: {
+    opacity: 0.6,
+  },
+  syncError: {
+    fontSize: 14,
+    color: '#EF4444',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
   syncButtonText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -182,6 +316,39 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginTop: 2,
   },
+  localOnlyCard: {
+    flexDirection: 'row',
+    backgroundColor: '#FEF3C7',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 24,
+  },
+  localOnlyText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#92400E',
+    lineHeight: 20,
+  },
+  streamError: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 4,
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    gap: 8,
+  },
+  retryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#F59E0B',
+  },
   infoCard: {
     flexDirection: 'row',
     backgroundColor: '#EEF2FF',
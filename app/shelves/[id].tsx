@@ -0,0 +1,221 @@
+/**
+ * Shelf Detail Screen
+ * Shows the books on one shelf
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppStore, type Book } from '../../src/stores/appStore';
+
+export default function ShelfDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { books, bookshelves, bookshelfItems, fetchShelves, removeBookFromShelf } = useAppStore();
+
+  const shelf = useMemo(() => bookshelves.find(s => s.id === id), [bookshelves, id]);
+  const shelfBooks = useMemo(() => {
+    const bookIds = bookshelfItems
+      .filter(item => item.bookshelf_id === id)
+      .map(item => item.book_id);
+    return bookIds
+      .map(bookId => books.find(b => b.id === bookId))
+      .filter((book): book is Book => book !== undefined);
+  }, [books, bookshelfItems, id]);
+
+  useEffect(() => {
+    fetchShelves();
+  }, [fetchShelves]);
+
+  const handleRemoveBook = (book: Book) => {
+    if (!shelf) return;
+    Alert.alert(
+      'Remove from Shelf',
+      `Remove "${book.title}" from ${shelf.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => removeBookFromShelf(shelf.id, book.id),
+        },
+      ]
+    );
+  };
+
+  if (!shelf) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorContainer}>
+          <Ionicons name="library-outline" size={64} color="#D1D5DB" />
+          <Text style={styles.errorText}>Shelf not found</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => router.back()}
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{shelf.name}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {shelf.description ? (
+          <Text style={styles.description}>{shelf.description}</Text>
+        ) : null}
+
+        {shelfBooks.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="book-outline" size={48} color="#D1D5DB" />
+            <Text style={styles.emptyText}>This shelf is empty</Text>
+            <Text style={styles.emptySubtext}>Add books to it from a book's details page</Text>
+          </View>
+        ) : (
+          shelfBooks.map((book) => (
+            <TouchableOpacity
+              key={book.id}
+              style={styles.bookRow}
+              onPress={() => router.push(`/book/${book.id}`)}
+            >
+              <View style={styles.bookInfo}>
+                <Text style={styles.bookTitle} numberOfLines={1}>{book.title}</Text>
+                <Text style={styles.bookAuthor} numberOfLines={1}>{book.author}</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => handleRemoveBook(book)}
+                accessibilityLabel={`Remove ${book.title} from shelf`}
+              >
+                <Ionicons name="close-circle-outline" size={22} color="#9CA3AF" />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    textAlign: 'center',
+    marginHorizontal: 8,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 18,
+    color: '#6B7280',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  backButton: {
+    backgroundColor: '#F59E0B',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  bookRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  bookInfo: {
+    flex: 1,
+  },
+  bookTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  bookAuthor: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  removeButton: {
+    padding: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,418 @@
+/**
+ * Bookshelves Screen
+ * Lists the user's shelves and lets them create, rename and delete custom ones
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppStore, type Bookshelf } from '../../src/stores/appStore';
+import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
+import { FREE_TIER_LIMITS, isAtLimit, getRemainingCount } from '../../src/config/premiumFeatures';
+
+export default function ShelvesScreen() {
+  const router = useRouter();
+  const { isPremium } = useSubscriptionStore();
+  const {
+    bookshelves,
+    bookshelfItems,
+    fetchShelves,
+    createShelf,
+    updateShelf,
+    deleteShelf,
+  } = useAppStore();
+
+  const [showShelfModal, setShowShelfModal] = useState(false);
+  const [editingShelf, setEditingShelf] = useState<Bookshelf | null>(null);
+  const [shelfName, setShelfName] = useState('');
+  const [shelfDescription, setShelfDescription] = useState('');
+
+  // The default Favorites shelf comes with every account and does not count toward the limit
+  const customShelves = useMemo(() => bookshelves.filter(s => !s.is_default), [bookshelves]);
+  const shelvesRemaining = getRemainingCount('shelves', customShelves.length, isPremium);
+
+  useEffect(() => {
+    fetchShelves();
+  }, [fetchShelves]);
+
+  const countBooks = (shelfId: string) =>
+    bookshelfItems.filter(item => item.bookshelf_id === shelfId).length;
+
+  const openShelfModal = (shelf: Bookshelf | null) => {
+    if (!shelf && isAtLimit('shelves', customShelves.length, isPremium)) {
+      Alert.alert(
+        'Shelf Limit Reached',
+        `Free accounts can create up to ${FREE_TIER_LIMITS.maxShelves} custom shelves in addition to Favorites. Upgrade to Premium for unlimited shelves!`,
+        [
+          { text: 'Maybe Later', style: 'cancel' },
+          { text: 'Upgrade', onPress: () => router.push('/subscription') },
+        ]
+      );
+      return;
+    }
+
+    setEditingShelf(shelf);
+    setShelfName(shelf?.name ?? '');
+    setShelfDescription(shelf?.description ?? '');
+    setShowShelfModal(true);
+  };
+
+  const closeShelfModal = () => {
+    setShowShelfModal(false);
+    setEditingShelf(null);
+    setShelfName('');
+    setShelfDescription('');
+  };
+
+  const handleSaveShelf = async () => {
+    const name = shelfName.trim();
+    if (!name) {
+      Alert.alert('Error', 'Please enter a shelf name');
+      return;
+    }
+
+    const duplicate = bookshelves.some(
+      s => s.id !== editingShelf?.id && s.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      Alert.alert('Error', 'You already have a shelf with this name');
+      return;
+    }
+
+    if (editingShelf) {
+      await updateShelf(editingShelf.id, {
+        name,
+        description: shelfDescription.trim(),
+      });
+    } else {
+      await createShelf(name, shelfDescription);
+    }
+    closeShelfModal();
+  };
+
+  const handleDeleteShelf = (shelf: Bookshelf) => {
+    Alert.alert(
+      'Delete Shelf',
+      `Are you sure you want to delete "${shelf.name}"? The books on it will stay in your library.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteShelf(shelf.id),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => router.back()}
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Bookshelves</Text>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => openShelfModal(null)}
+          accessibilityLabel="Create shelf"
+        >
+          <Ionicons name="add" size={28} color="#F59E0B" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Limit Warning for Free Users */}
+        {!isPremium && (
+          <View style={styles.limitBanner}>
+            <Ionicons name="information-circle" size={20} color="#D97706" />
+            <Text style={styles.limitText}>
+              {shelvesRemaining === 'unlimited'
+                ? 'Unlimited shelves'
+                : `${shelvesRemaining} custom shelves remaining`}
+            </Text>
+            {shelvesRemaining !== 'unlimited' && (
+              <TouchableOpacity onPress={() => router.push('/subscription')}>
+                <Text style={styles.upgradeLink}>Upgrade</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {bookshelves.map((shelf) => {
+          const bookCount = countBooks(shelf.id);
+          return (
+            <TouchableOpacity
+              key={shelf.id}
+              style={styles.shelfCard}
+              onPress={() => router.push(`/shelves/${shelf.id}`)}
+            >
+              <View style={styles.shelfIcon}>
+                <Ionicons
+                  name={shelf.is_default ? 'heart' : 'library-outline'}
+                  size={24}
+                  color="#F59E0B"
+                />
+              </View>
+              <View style={styles.shelfInfo}>
+                <Text style={styles.shelfName}>{shelf.name}</Text>
+                {shelf.description ? (
+                  <Text style={styles.shelfDescription} numberOfLines={1}>
+                    {shelf.description}
+                  </Text>
+                ) : null}
+                <Text style={styles.shelfCount}>
+                  {bookCount} {bookCount === 1 ? 'book' : 'books'}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.shelfAction}
+                onPress={() => openShelfModal(shelf)}
+                accessibilityLabel={`Rename ${shelf.name}`}
+              >
+                <Ionicons name="create-outline" size={20} color="#6B7280" />
+              </TouchableOpacity>
+              {!shelf.is_default && (
+                <TouchableOpacity
+                  style={styles.shelfAction}
+                  onPress={() => handleDeleteShelf(shelf)}
+                  accessibilityLabel={`Delete ${shelf.name}`}
+                >
+                  <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+
+        {bookshelves.length === 0 && (
+          <View style={styles.emptyState}>
+            <Ionicons name="library-outline" size={48} color="#D1D5DB" />
+            <Text style={styles.emptyText}>No shelves yet</Text>
+            <Text style={styles.emptySubtext}>Group your books into collections of your own</Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Create / Rename Shelf Modal */}
+      <Modal visible={showShelfModal} transparent animationType="slide" onRequestClose={closeShelfModal}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{editingShelf ? 'Edit Shelf' : 'New Shelf'}</Text>
+            <TextInput
+              style={styles.modalInput}
+              value={shelfName}
+              onChangeText={setShelfName}
+              placeholder="Shelf name"
+              placeholderTextColor="#9CA3AF"
+              autoFocus
+            />
+            <TextInput
+              style={[styles.modalInput, styles.modalTextArea]}
+              value={shelfDescription}
+              onChangeText={setShelfDescription}
+              placeholder="Description (optional)"
+              placeholderTextColor="#9CA3AF"
+              multiline
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalCancelButton} onPress={closeShelfModal}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalSaveButton} onPress={handleSaveShelf}>
+                <Text style={styles.modalSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    textAlign: 'center',
+    marginHorizontal: 8,
+  },
+  content: {
+    padding: 16,
+  },
+  limitBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  limitText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#92400E',
+    marginLeft: 8,
+  },
+  upgradeLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#D97706',
+  },
+  shelfCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  shelfIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#FEF3C7',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  shelfInfo: {
+    flex: 1,
+  },
+  shelfName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  shelfDescription: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  shelfCount: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  shelfAction: {
+    padding: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  modalInput: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  modalTextArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalCancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  modalSaveButton: {
+    flex: 1,
+    backgroundColor: '#F59E0B',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  modalSaveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
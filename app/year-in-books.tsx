@@ -0,0 +1,384 @@
+/**
+ * Year in Books Screen
+ * A swipeable recap of one calendar year, shareable as an image
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  useWindowDimensions,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import type Svg from 'react-native-svg';
+import useAppStore from '../src/stores/appStore';
+import { exportService } from '../src/services/export.service';
+import { formatRating } from '../src/utils/ratings';
+import YearInReviewCard from '../src/components/YearInReviewCard';
+import {
+  MONTH_NAMES,
+  buildYearInReview,
+  formatYearInReview,
+  getReviewYears,
+  type YearInReview,
+  type YearInReviewData,
+} from '../src/utils/yearInReview';
+
+interface RecapCard {
+  key: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  value: string;
+  detail?: string | undefined;
+}
+
+const CARD_MARGIN = 16;
+
+const plural = (count: number, word: string) => `${count.toLocaleString()} ${count === 1 ? word : `${word}s`}`;
+
+function buildCards(review: YearInReview): RecapCard[] {
+  const cards: RecapCard[] = [
+    {
+      key: 'totals',
+      icon: 'book',
+      label: `Your ${review.year} in books`,
+      value: plural(review.booksFinished, 'book'),
+      detail: `${plural(review.pagesRead, 'page')} · ${plural(review.notesWritten, 'note')} · ${plural(review.highlightsSaved, 'highlight')}`,
+    },
+  ];
+
+  if (review.longestBook) {
+    cards.push({
+      key: 'length',
+      icon: 'resize',
+      label: 'Longest book',
+      value: review.longestBook.title,
+      detail: review.shortestBook
+        ? `${plural(review.longestBook.total_pages, 'page')}, while ${review.shortestBook.title} was the shortest at ${plural(review.shortestBook.total_pages, 'page')}`
+        : plural(review.longestBook.total_pages, 'page'),
+    });
+  }
+  if (review.topRatedBook) {
+    cards.push({
+      key: 'rating',
+      icon: 'star',
+      label: 'Top rated',
+      value: review.topRatedBook.title,
+      detail: `${review.topRatedBook.author} · ${formatRating(review.topRatedBook.rating ?? 0)}`,
+    });
+  }
+  if (review.mostHighlighted) {
+    cards.push({
+      key: 'highlights',
+      icon: 'color-wand',
+      label: 'Most highlighted',
+      value: review.mostHighlighted.book.title,
+      detail: plural(review.mostHighlighted.count, 'highlight'),
+    });
+  }
+  if (review.favoriteGenre) {
+    cards.push({
+      key: 'genre',
+      icon: 'pricetag',
+      label: 'Favorite genre',
+      value: review.favoriteGenre.category,
+      detail: `${plural(review.favoriteGenre.count, 'book')} finished`,
+    });
+  }
+  if (review.busiestMonth) {
+    cards.push({
+      key: 'month',
+      icon: 'calendar',
+      label: 'Busiest month',
+      value: MONTH_NAMES[review.busiestMonth.month] ?? '',
+      detail: `${plural(review.busiestMonth.count, 'book')} finished`,
+    });
+  }
+  if (review.longestStreak > 0) {
+    cards.push({
+      key: 'streak',
+      icon: 'flame',
+      label: 'Longest streak',
+      value: plural(review.longestStreak, 'day'),
+      detail: review.minutesRead > 0 ? `${plural(review.minutesRead, 'minute')} of reading in all` : undefined,
+    });
+  }
+  return cards;
+}
+
+export default function YearInBooksScreen() {
+  const { user } = useAppStore();
+  const { width } = useWindowDimensions();
+  const svgRef = useRef<Svg>(null);
+  const pagerRef = useRef<ScrollView>(null);
+
+  const [data, setData] = useState<YearInReviewData | null>(null);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [page, setPage] = useState(0);
+  const [isSharing, setIsSharing] = useState(false);
+
+  // Notes and highlights in the store only cover the open book, so read everything from SQLite
+  useEffect(() => {
+    if (!user) return;
+    exportService
+      .loadData(user.id)
+      .then(setData)
+      .catch((error: any) => Alert.alert('Error', error.message));
+  }, [user]);
+
+  const years = useMemo(() => {
+    const current = new Date().getFullYear();
+    const found = data ? getReviewYears(data) : [];
+    return found.includes(current) ? found : [current, ...found];
+  }, [data]);
+
+  const review = useMemo(() => (data ? buildYearInReview(data, year) : null), [data, year]);
+  const cards = useMemo(() => (review ? buildCards(review) : []), [review]);
+  const cardWidth = width - CARD_MARGIN * 2;
+
+  const selectYear = useCallback((next: number) => {
+    setYear(next);
+    setPage(0);
+    pagerRef.current?.scrollTo({ x: 0, animated: false });
+  }, []);
+
+  const onScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setPage(Math.round(event.nativeEvent.contentOffset.x / width));
+  }, [width]);
+
+  const handleShare = useCallback(() => {
+    const svg = svgRef.current;
+    if (!review || !svg) return;
+    setIsSharing(true);
+    svg.toDataURL(async (base64) => {
+      try {
+        await exportService.shareImage(base64, `bookbuddy-${review.year}-in-books`, formatYearInReview(review));
+      } catch (error: any) {
+        Alert.alert('Share Failed', error.message);
+      } finally {
+        setIsSharing(false);
+      }
+    });
+  }, [review]);
+
+  if (!data || !review) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#F59E0B" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.yearBar}
+        contentContainerStyle={styles.yearBarContent}
+      >
+        {years.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.yearChip, option === year && styles.yearChipActive]}
+            onPress={() => selectYear(option)}
+          >
+            <Text style={[styles.yearChipText, option === year && styles.yearChipTextActive]}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {review.booksFinished === 0 && cards.length === 1 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="book-outline" size={48} color="#D1D5DB" />
+          <Text style={styles.emptyTitle}>Nothing to recap yet</Text>
+          <Text style={styles.emptyText}>Finish a book in {year} and it will show up here.</Text>
+        </View>
+      ) : (
+        <>
+          <ScrollView
+            ref={pagerRef}
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            onMomentumScrollEnd={onScroll}
+            style={styles.pager}
+          >
+            {cards.map((card) => (
+              <View key={card.key} style={[styles.page, { width }]}>
+                <View style={[styles.card, { width: cardWidth }]}>
+                  <Ionicons name={card.icon} size={40} color="#FFFFFF" />
+                  <Text style={styles.cardLabel}>{card.label}</Text>
+                  <Text style={styles.cardValue} numberOfLines={3}>{card.value}</Text>
+                  {card.detail && <Text style={styles.cardDetail}>{card.detail}</Text>}
+                </View>
+              </View>
+            ))}
+
+            <View style={[styles.page, { width }]}>
+              <View style={[styles.shareCard, { width: cardWidth }]}>
+                <YearInReviewCard ref={svgRef} review={review} size={cardWidth - 32} />
+                <TouchableOpacity style={styles.shareButton} onPress={handleShare} disabled={isSharing}>
+                  {isSharing ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <>
+                      <Ionicons name="share-outline" size={20} color="#FFFFFF" />
+                      <Text style={styles.shareButtonText}>Share as Image</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          </ScrollView>
+
+          <View style={styles.dots}>
+            {[...cards, null].map((card, index) => (
+              <View key={card?.key ?? 'share'} style={[styles.dot, index === page && styles.dotActive]} />
+            ))}
+          </View>
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+  },
+  yearBar: {
+    flexGrow: 0,
+  },
+  yearBarContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  yearChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#F3F4F6',
+  },
+  yearChipActive: {
+    backgroundColor: '#F59E0B',
+  },
+  yearChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  yearChipTextActive: {
+    color: '#FFFFFF',
+  },
+  pager: {
+    flex: 1,
+  },
+  page: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+  },
+  card: {
+    flex: 1,
+    backgroundColor: '#F59E0B',
+    borderRadius: 24,
+    padding: 32,
+    justifyContent: 'center',
+  },
+  cardLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FEF3C7',
+    marginTop: 24,
+  },
+  cardValue: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    marginTop: 8,
+  },
+  cardDetail: {
+    fontSize: 16,
+    color: '#FFFBEB',
+    marginTop: 16,
+    lineHeight: 22,
+  },
+  shareCard: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 24,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#F59E0B',
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    marginTop: 24,
+    minWidth: 200,
+  },
+  shareButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  dots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+  },
+  dotActive: {
+    backgroundColor: '#F59E0B',
+    width: 24,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
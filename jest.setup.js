@@ -1,4 +1,3 @@
-import '@testing-library/jest-native/extend-expect';
 
 // Mock expo-router
 jest.mock('expo-router', () => ({
@@ -7,9 +6,14 @@ jest.mock('expo-router', () => ({
     replace: jest.fn(),
     back: jest.fn(),
   }),
-  useLocalSearchParams: () => ({}),
+  useLocalSearchParams: jest.fn(() => ({})),
   useSegments: () => [],
-  Link: 'Link',
+  // A Link renders its children as text, so render it as Text to keep them queryable
+  Link: ({ children, style }) => {
+    const { createElement } = require('react');
+    const { Text } = require('react-native');
+    return createElement(Text, { style }, children);
+  },
   Tabs: 'Tabs',
   Drawer: 'Drawer',
 }));
@@ -28,4 +32,4 @@ jest.mock('expo-secure-store', () => ({
 }));
 
 // Silence the warning: Animated: `useNativeDriver` is not supported
-jest.mock('react-native/Libraries/Animated/NativeAnimatedHelper');
+jest.mock('react-native/src/private/animated/NativeAnimatedHelper');
@@ -0,0 +1,167 @@
+import React, { memo, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CameraView, useCameraPermissions, type BarcodeType } from 'expo-camera';
+import { Ionicons } from '@expo/vector-icons';
+
+// EAN-13 is the ISBN-13 barcode; some older books print their ISBN-10 as Code 39 or Code 128
+const BARCODE_TYPES: BarcodeType[] = ['ean13', 'code39', 'code128'];
+
+interface BarcodeScannerProps {
+  visible: boolean;
+  onScanned: (data: string) => void;
+  onClose: () => void;
+  title?: string;
+  hint?: string;
+}
+
+function BarcodeScanner({
+  visible,
+  onScanned,
+  onClose,
+  title = 'Scan Barcode',
+  hint = 'Point the camera at the barcode on the back cover',
+}: BarcodeScannerProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera reports the same code many times a second; only pass on the first
+  const scannedRef = useRef(false);
+
+  const handleScanned = ({ data }: { data: string }) => {
+    if (scannedRef.current) return;
+    scannedRef.current = true;
+    onScanned(data);
+  };
+
+  const renderBody = () => {
+    if (!permission) {
+      return <ActivityIndicator size="large" color="#F59E0B" />;
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.permission}>
+          <Ionicons name="camera-outline" size={48} color="#FFFFFF" />
+          <Text style={styles.permissionText}>
+            Camera access is needed to scan book barcodes
+          </Text>
+          {permission.canAskAgain && (
+            <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+              <Text style={styles.permissionButtonText}>Allow Camera</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: BARCODE_TYPES }}
+          onBarcodeScanned={handleScanned}
+        />
+        <View style={styles.frame} />
+        <Text style={styles.hint}>{hint}</Text>
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+      onShow={() => {
+        scannedRef.current = false;
+      }}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            accessibilityLabel="Close scanner"
+          >
+            <Ionicons name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{title}</Text>
+          <View style={styles.closeButton} />
+        </View>
+        <View style={styles.body}>{renderBody()}</View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    zIndex: 1,
+  },
+  closeButton: {
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  body: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  frame: {
+    width: '80%',
+    height: 160,
+    borderWidth: 3,
+    borderColor: '#F59E0B',
+    borderRadius: 16,
+  },
+  hint: {
+    position: 'absolute',
+    bottom: 48,
+    left: 24,
+    right: 24,
+    fontSize: 14,
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  permission: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  permissionText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  permissionButton: {
+    backgroundColor: '#F59E0B',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  permissionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export { BarcodeScanner };
+export default memo(BarcodeScanner);
@@ -0,0 +1,79 @@
+import React, { memo, useEffect, useState } from 'react';
+import { View, Image, StyleSheet, type ImageStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import coverService from '../services/cover.service';
+
+interface BookCoverProps {
+  uri?: string | null | undefined;
+  size?: 'sm' | 'md' | 'lg';
+  style?: ImageStyle;
+}
+
+const SIZES = {
+  sm: { width: 40, height: 60, icon: 18 },
+  md: { width: 64, height: 96, icon: 24 },
+  lg: { width: 160, height: 240, icon: 48 },
+};
+
+function BookCover({ uri, size = 'md', style }: BookCoverProps) {
+  // Prefer the cached copy so covers show offline; fall back to the URL while it downloads
+  const [source, setSource] = useState(() => (uri ? coverService.getCachedUri(uri) ?? uri : null));
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setFailed(false);
+    if (!uri) {
+      setSource(null);
+      return;
+    }
+
+    const cached = coverService.getCachedUri(uri);
+    setSource(cached ?? uri);
+    if (cached) return;
+
+    let active = true;
+    coverService.cacheCover(uri).then((local) => {
+      if (active && local) setSource(local);
+    });
+    return () => {
+      active = false;
+    };
+  }, [uri]);
+
+  const dimensions = SIZES[size];
+  const frame = { width: dimensions.width, height: dimensions.height };
+
+  if (!source || failed) {
+    return (
+      <View style={[styles.placeholder, frame, style]} accessibilityLabel="No cover">
+        <Ionicons name="book" size={dimensions.icon} color="#F59E0B" />
+      </View>
+    );
+  }
+
+  return (
+    <Image
+      source={{ uri: source }}
+      style={[styles.image, frame, style]}
+      resizeMode="cover"
+      onError={() => setFailed(true)}
+      accessibilityLabel="Book cover"
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  placeholder: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    borderRadius: 6,
+    backgroundColor: '#F3F4F6',
+  },
+});
+
+export { BookCover };
+export default memo(BookCover);
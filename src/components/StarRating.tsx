@@ -0,0 +1,80 @@
+import React, { memo } from 'react';
+import { View, StyleSheet, Pressable, type ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MAX_RATING, RATING_STEP, formatRating } from '../utils/ratings';
+
+interface StarRatingProps {
+  rating: number | null | undefined;
+  // Omit to show the rating read-only
+  onChange?: (rating: number | null) => void;
+  size?: number;
+  color?: string;
+  style?: ViewStyle;
+}
+
+function StarRating({
+  rating,
+  onChange,
+  size = 28,
+  color = '#FBBF24',
+  style,
+}: StarRatingProps) {
+  const value = rating ?? 0;
+
+  // Tapping the current rating again clears it
+  const handlePress = (next: number) => {
+    onChange?.(next === value ? null : next);
+  };
+
+  return (
+    <View
+      style={[styles.container, style]}
+      accessibilityRole={onChange ? 'adjustable' : 'image'}
+      accessibilityLabel={value ? `Rated ${formatRating(value)}` : 'Not rated'}
+    >
+      {Array.from({ length: MAX_RATING }, (_, index) => {
+        const star = index + 1;
+        const icon = value >= star ? 'star' : value >= star - RATING_STEP ? 'star-half' : 'star-outline';
+
+        return (
+          <View key={star} style={{ width: size, height: size }}>
+            <Ionicons name={icon} size={size} color={color} />
+            {onChange && (
+              // Left half of each star sets a half rating, right half a whole one
+              <View style={styles.halves}>
+                <Pressable
+                  style={styles.half}
+                  onPress={() => handlePress(star - RATING_STEP)}
+                  accessibilityLabel={`Rate ${formatRating(star - RATING_STEP)}`}
+                />
+                <Pressable
+                  style={styles.half}
+                  onPress={() => handlePress(star)}
+                  accessibilityLabel={`Rate ${formatRating(star)}`}
+                />
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  halves: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+  },
+  half: {
+    flex: 1,
+  },
+});
+
+export { StarRating };
+export default memo(StarRating);
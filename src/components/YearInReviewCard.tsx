@@ -0,0 +1,87 @@
+import React, { memo } from 'react';
+import Svg, { Defs, LinearGradient, Rect, Stop, Text as SvgText } from 'react-native-svg';
+import { MONTH_NAMES, type YearInReview } from '../utils/yearInReview';
+
+interface YearInReviewCardProps {
+  review: YearInReview;
+  size?: number;
+  // Exposes toDataURL for exporting the card as a PNG
+  ref?: React.Ref<Svg>;
+}
+
+// Drawn on a fixed canvas and scaled, so the exported image looks the same on every screen
+const CANVAS = 1080;
+const TITLE_LIMIT = 34;
+
+const truncate = (text: string) =>
+  text.length > TITLE_LIMIT ? `${text.slice(0, TITLE_LIMIT - 1).trimEnd()}…` : text;
+
+function YearInReviewCard({ review, size = 320, ref }: YearInReviewCardProps) {
+  const rows: Array<{ label: string; value: string }> = [];
+  if (review.longestBook) {
+    rows.push({ label: 'Longest book', value: truncate(review.longestBook.title) });
+  }
+  if (review.topRatedBook) {
+    rows.push({ label: 'Top rated', value: truncate(review.topRatedBook.title) });
+  }
+  if (review.mostHighlighted) {
+    rows.push({ label: 'Most highlighted', value: truncate(review.mostHighlighted.book.title) });
+  }
+  if (review.favoriteGenre) {
+    rows.push({ label: 'Favorite genre', value: truncate(review.favoriteGenre.category) });
+  }
+  if (review.busiestMonth) {
+    rows.push({ label: 'Busiest month', value: MONTH_NAMES[review.busiestMonth.month] ?? '' });
+  }
+  if (review.longestStreak > 0) {
+    rows.push({ label: 'Longest streak', value: `${review.longestStreak} days` });
+  }
+
+  return (
+    <Svg ref={ref} width={size} height={size} viewBox={`0 0 ${CANVAS} ${CANVAS}`}>
+      <Defs>
+        <LinearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+          <Stop offset="0" stopColor="#F59E0B" />
+          <Stop offset="1" stopColor="#D97706" />
+        </LinearGradient>
+      </Defs>
+      <Rect x={0} y={0} width={CANVAS} height={CANVAS} fill="url(#background)" />
+
+      <SvgText x={80} y={150} fill="#FFFFFF" fontSize={56} fontWeight="600">
+        My {review.year} in Books
+      </SvgText>
+      <SvgText x={80} y={290} fill="#FFFFFF" fontSize={120} fontWeight="700">
+        {review.booksFinished}
+      </SvgText>
+      <SvgText x={80} y={350} fill="#FEF3C7" fontSize={40}>
+        {review.booksFinished === 1 ? 'book finished' : 'books finished'}
+      </SvgText>
+      <SvgText x={560} y={290} fill="#FFFFFF" fontSize={120} fontWeight="700">
+        {review.pagesRead.toLocaleString()}
+      </SvgText>
+      <SvgText x={560} y={350} fill="#FEF3C7" fontSize={40}>
+        pages read
+      </SvgText>
+
+      <Rect x={80} y={410} width={CANVAS - 160} height={4} fill="#FEF3C7" opacity={0.5} />
+
+      {rows.map((row, index) => (
+        <React.Fragment key={row.label}>
+          <SvgText x={80} y={490 + index * 90} fill="#FEF3C7" fontSize={32}>
+            {row.label}
+          </SvgText>
+          <SvgText x={80} y={532 + index * 90} fill="#FFFFFF" fontSize={40} fontWeight="600">
+            {row.value}
+          </SvgText>
+        </React.Fragment>
+      ))}
+
+      <SvgText x={CANVAS - 80} y={CANVAS - 60} fill="#FFFFFF" fontSize={32} fontWeight="600" textAnchor="end">
+        BookBuddy
+      </SvgText>
+    </Svg>
+  );
+}
+
+export { YearInReviewCard };
+export default memo(YearInReviewCard);
@@ -51,14 +51,14 @@ export const PREMIUM_FEATURES: PremiumFeature[] = [
     title: 'Export Data',
     description: 'Export your reading history, notes, and statistics',
     freeLimit: 'Not available',
-    premiumLimit: 'CSV, JSON, PDF',
+    premiumLimit: 'CSV, JSON, Markdown',
   },
   {
     id: 'custom_shelves',
     icon: '🗂️',
     title: 'Custom Bookshelves',
     description: 'Create unlimited custom collections and shelves',
-    freeLimit: '3 shelves',
+    freeLimit: '3 shelves plus Favorites',
     premiumLimit: 'Unlimited',
   },
   {
@@ -83,6 +83,7 @@ export const FREE_TIER_LIMITS = {
   maxBooks: 10,
   notesPerBook: 5,
   highlightsPerBook: 5,
+  // Custom shelves; the default Favorites shelf every account gets is not counted
   maxShelves: 3,
   cloudSync: false,
   exportEnabled: false,
@@ -7,9 +7,10 @@
  */
 
 import * as SQLite from 'expo-sqlite';
+import { MIGRATIONS, migrate } from './schema';
 
 export const DB_NAME = 'app.db';
-export const DB_VERSION = 1;
+export const DB_VERSION = MIGRATIONS.length;
 
 // Valid identifier pattern (alphanumeric and underscores only)
 const VALID_IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
@@ -28,13 +29,24 @@ function validateIdentifier(name: string, type: 'table' | 'column'): void {
 }
 
 let dbInstance: SQLite.SQLiteDatabase | null = null;
+let openPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 
 export async function initDatabase(): Promise<SQLite.SQLiteDatabase> {
   if (dbInstance) return dbInstance;
 
-  dbInstance = await SQLite.openDatabaseAsync(DB_NAME);
-  await dbInstance.execAsync('PRAGMA journal_mode = WAL;');
-  return dbInstance;
+  // Concurrent callers share the same open + migrate run
+  if (!openPromise) {
+    openPromise = (async () => {
+      const db = await SQLite.openDatabaseAsync(DB_NAME);
+      await db.execAsync('PRAGMA journal_mode = WAL;');
+      await migrate(db);
+      dbInstance = db;
+      return db;
+    })().finally(() => {
+      openPromise = null;
+    });
+  }
+  return openPromise;
 }
 
 export function getDatabase(): SQLite.SQLiteDatabase {
@@ -77,6 +89,28 @@ export async function insert<T extends Record<string, unknown>>(
   return result.lastInsertRowId;
 }
 
+/**
+ * Insert or replace a record - all values are parameterized
+ */
+export async function upsert(
+  table: string,
+  data: Record<string, SQLite.SQLiteBindValue>
+): Promise<number> {
+  validateIdentifier(table, 'table');
+  const db = getDatabase();
+
+  const columns = Object.keys(data);
+  columns.forEach(col => validateIdentifier(col, 'column'));
+
+  const values = Object.values(data);
+  const placeholders = columns.map(() => '?').join(', ');
+  const columnList = columns.map(c => `"${c}"`).join(', ');
+
+  const sql = `INSERT OR REPLACE INTO "${table}" (${columnList}) VALUES (${placeholders})`;
+  const result = await db.runAsync(sql, ...values);
+  return result.changes;
+}
+
 /**
  * Update by ID - secure parameterized update
  */
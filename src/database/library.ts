@@ -0,0 +1,305 @@
+/**
+ * Local Library Repository
+ * SQLite is the source of truth for the whole library: books, reads, notes, highlights,
+ * sessions, shelves, goals and streaks.
+ * Every read and write goes through here before anything is sent to Supabase.
+ */
+
+import type * as SQLite from 'expo-sqlite';
+import {
+  initDatabase,
+  upsert,
+  updateById,
+  deleteById,
+  deleteWhere,
+  findById,
+  executeQuery,
+  transaction,
+} from './index';
+import { TABLE_COLUMNS, BOOLEAN_COLUMNS, type LocalTable } from './schema';
+
+export type { LocalTable } from './schema';
+
+type Row = Record<string, SQLite.SQLiteBindValue>;
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+/**
+ * Convert a record into a row for the given table.
+ * Unknown columns are dropped and undefined becomes NULL.
+ */
+function toRow(table: LocalTable, record: object, partial = false): Row {
+  const source = record as Record<string, unknown>;
+  const row: Row = {};
+
+  for (const column of TABLE_COLUMNS[table]) {
+    if (partial && !(column in source)) continue;
+
+    const value = source[column];
+    if (value === undefined || value === null) {
+      row[column] = null;
+    } else if (typeof value === 'boolean') {
+      row[column] = value ? 1 : 0;
+    } else if (typeof value === 'number' || typeof value === 'string') {
+      row[column] = value;
+    } else {
+      row[column] = JSON.stringify(value);
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Convert a SQLite row back into a record.
+ * NULL columns are omitted so optional fields stay undefined.
+ */
+function fromRow<T>(row: Record<string, unknown>, table?: LocalTable): T {
+  const booleans = table ? BOOLEAN_COLUMNS[table] ?? [] : [];
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value !== null) {
+      record[key] = booleans.includes(key) ? value === 1 : value;
+    }
+  }
+  return record as T;
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+export async function loadBooks<T>(userId: string): Promise<T[]> {
+  await initDatabase();
+  const rows = await executeQuery<Record<string, unknown>>(
+    'SELECT * FROM books WHERE user_id = ? ORDER BY date_added DESC',
+    [userId]
+  );
+  return rows.map((row) => fromRow<T>(row, 'books'));
+}
+
+/**
+ * Books whose title, author or ISBN, or any of whose notes, contain the term.
+ * Each row carries `matched_note` = 1 when only a note matched.
+ */
+export async function searchBooks<T>(userId: string, term: string): Promise<Array<T & { matched_note: boolean }>> {
+  await initDatabase();
+  const pattern = `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  const rows = await executeQuery<Record<string, unknown>>(
+    `SELECT books.*,
+       NOT (books.title LIKE ?1 ESCAPE '\\' OR books.author LIKE ?1 ESCAPE '\\'
+         OR IFNULL(books.isbn, '') LIKE ?1 ESCAPE '\\') AS matched_note
+     FROM books
+     WHERE books.user_id = ?2
+       AND (books.title LIKE ?1 ESCAPE '\\' OR books.author LIKE ?1 ESCAPE '\\'
+         OR IFNULL(books.isbn, '') LIKE ?1 ESCAPE '\\'
+         OR EXISTS (
+           SELECT 1 FROM notes
+           WHERE notes.book_id = books.id AND notes.content LIKE ?1 ESCAPE '\\'
+         ))
+     ORDER BY books.title COLLATE NOCASE ASC`,
+    [pattern, userId]
+  );
+  return rows.map((row) => {
+    const { matched_note, ...book } = row;
+    return { ...fromRow<T>(book, 'books'), matched_note: matched_note === 1 };
+  });
+}
+
+export async function loadBook<T>(id: string): Promise<T | null> {
+  await initDatabase();
+  const rows = await executeQuery<Record<string, unknown>>(
+    'SELECT * FROM books WHERE id = ? LIMIT 1',
+    [id]
+  );
+  return rows[0] ? fromRow<T>(rows[0], 'books') : null;
+}
+
+export async function loadRecord<T>(table: LocalTable, id: string): Promise<T | null> {
+  await initDatabase();
+  const row = await findById<Record<string, unknown>>(table, id);
+  return row ? fromRow<T>(row, table) : null;
+}
+
+/**
+ * Every record of a table owned by the user, in insertion order.
+ * The table name cannot be a parameter, so only tables in the schema are accepted.
+ */
+export async function loadTable<T>(table: LocalTable, userId: string): Promise<T[]> {
+  if (!Object.prototype.hasOwnProperty.call(TABLE_COLUMNS, table)) {
+    throw new Error(`Unknown local table: ${table}`);
+  }
+  await initDatabase();
+  const rows = await executeQuery<Record<string, unknown>>(
+    `SELECT * FROM "${table}" WHERE user_id = ? ORDER BY rowid ASC`,
+    [userId]
+  );
+  return rows.map((row) => fromRow<T>(row, table));
+}
+
+export async function loadNotes<T>(userId: string, bookId?: string): Promise<T[]> {
+  await initDatabase();
+  const rows = bookId
+    ? await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM notes WHERE user_id = ? AND book_id = ? ORDER BY created_at DESC',
+        [userId, bookId]
+      )
+    : await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM notes WHERE user_id = ? ORDER BY created_at DESC',
+        [userId]
+      );
+  return rows.map((row) => fromRow<T>(row));
+}
+
+export async function loadHighlights<T>(userId: string, bookId?: string): Promise<T[]> {
+  await initDatabase();
+  const rows = bookId
+    ? await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM highlights WHERE user_id = ? AND book_id = ? ORDER BY created_at DESC',
+        [userId, bookId]
+      )
+    : await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM highlights WHERE user_id = ? ORDER BY created_at DESC',
+        [userId]
+      );
+  return rows.map((row) => fromRow<T>(row));
+}
+
+export async function loadSessions<T>(userId: string, bookId?: string): Promise<T[]> {
+  await initDatabase();
+  const rows = bookId
+    ? await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM reading_sessions WHERE user_id = ? AND book_id = ? ORDER BY started_at DESC',
+        [userId, bookId]
+      )
+    : await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM reading_sessions WHERE user_id = ? ORDER BY started_at DESC',
+        [userId]
+      );
+  return rows.map((row) => fromRow<T>(row));
+}
+
+export async function loadReads<T>(userId: string, bookId?: string): Promise<T[]> {
+  await initDatabase();
+  const rows = bookId
+    ? await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM book_reads WHERE user_id = ? AND book_id = ? ORDER BY date_started DESC',
+        [userId, bookId]
+      )
+    : await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM book_reads WHERE user_id = ? ORDER BY date_started DESC',
+        [userId]
+      );
+  return rows.map((row) => fromRow<T>(row));
+}
+
+export async function loadShelves<T>(userId: string): Promise<T[]> {
+  await initDatabase();
+  const rows = await executeQuery<Record<string, unknown>>(
+    'SELECT * FROM bookshelves WHERE user_id = ? ORDER BY is_default DESC, created_at ASC',
+    [userId]
+  );
+  return rows.map((row) => fromRow<T>(row, 'bookshelves'));
+}
+
+export async function loadShelfItems<T>(userId: string, bookshelfId?: string): Promise<T[]> {
+  await initDatabase();
+  const rows = bookshelfId
+    ? await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM bookshelf_items WHERE user_id = ? AND bookshelf_id = ? ORDER BY added_at DESC',
+        [userId, bookshelfId]
+      )
+    : await executeQuery<Record<string, unknown>>(
+        'SELECT * FROM bookshelf_items WHERE user_id = ? ORDER BY added_at DESC',
+        [userId]
+      );
+  return rows.map((row) => fromRow<T>(row, 'bookshelf_items'));
+}
+
+export async function loadGoals<T>(userId: string): Promise<T[]> {
+  await initDatabase();
+  const rows = await executeQuery<Record<string, unknown>>(
+    'SELECT * FROM reading_goals WHERE user_id = ? ORDER BY start_date DESC, created_at DESC',
+    [userId]
+  );
+  return rows.map((row) => fromRow<T>(row, 'reading_goals'));
+}
+
+export async function loadStreak<T>(userId: string): Promise<T | null> {
+  await initDatabase();
+  const rows = await executeQuery<Record<string, unknown>>(
+    'SELECT * FROM reading_streaks WHERE user_id = ? LIMIT 1',
+    [userId]
+  );
+  return rows[0] ? fromRow<T>(rows[0]) : null;
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+/**
+ * Insert or replace a full record
+ */
+export async function saveRecord(table: LocalTable, record: object): Promise<void> {
+  await initDatabase();
+  await upsert(table, toRow(table, record));
+}
+
+/**
+ * Insert or replace many records in a single transaction
+ */
+export async function saveRecords(table: LocalTable, records: object[]): Promise<void> {
+  if (records.length === 0) return;
+  await initDatabase();
+  await transaction(async () => {
+    for (const record of records) {
+      await upsert(table, toRow(table, record));
+    }
+  });
+}
+
+/**
+ * Apply a partial update to an existing record
+ */
+export async function patchRecord(table: LocalTable, id: string, updates: object): Promise<void> {
+  const row = toRow(table, updates, true);
+  delete row.id;
+  if (Object.keys(row).length === 0) return;
+
+  await initDatabase();
+  await updateById(table, id, row);
+}
+
+export async function removeRecord(table: LocalTable, id: string): Promise<void> {
+  await initDatabase();
+  await deleteById(table, id);
+}
+
+/**
+ * Delete a book together with everything attached to it
+ */
+export async function removeBook(id: string): Promise<void> {
+  await initDatabase();
+  await transaction(async () => {
+    await deleteWhere('notes', 'book_id', id);
+    await deleteWhere('highlights', 'book_id', id);
+    await deleteWhere('reading_sessions', 'book_id', id);
+    await deleteWhere('bookshelf_items', 'book_id', id);
+    await deleteWhere('book_reads', 'book_id', id);
+    await deleteById('books', id);
+  });
+}
+
+/**
+ * Delete a shelf and its items; the books themselves are kept
+ */
+export async function removeShelf(id: string): Promise<void> {
+  await initDatabase();
+  await transaction(async () => {
+    await deleteWhere('bookshelf_items', 'bookshelf_id', id);
+    await deleteById('bookshelves', id);
+  });
+}
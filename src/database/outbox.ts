@@ -0,0 +1,223 @@
+/**
+ * Outbox Repository
+ * Durable queue of local changes waiting to be sent to Supabase.
+ * Entries are replayed strictly in insertion order by the sync service.
+ */
+
+import { initDatabase, insert, updateById, deleteById, executeQuery } from './index';
+import type { LocalTable } from './schema';
+
+export type OutboxOperation = 'upsert' | 'update' | 'delete';
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxMutation {
+  userId: string;
+  table: LocalTable;
+  operation: OutboxOperation;
+  recordId: string;
+  payload?: Record<string, unknown>;
+  onConflict?: string;
+}
+
+export interface OutboxEntry {
+  id: number;
+  user_id: string;
+  table_name: LocalTable;
+  operation: OutboxOperation;
+  record_id: string;
+  payload: Record<string, unknown> | null;
+  on_conflict: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface TableQueueStatus {
+  pending: number;
+  failed: number;
+  // Most recent delivery error for the table, if any entry is still queued
+  lastError: string | null;
+}
+
+type OutboxRow = Omit<OutboxEntry, 'payload'> & { payload: string | null };
+
+function fromRow(row: OutboxRow): OutboxEntry {
+  return {
+    ...row,
+    payload: row.payload ? (JSON.parse(row.payload) as Record<string, unknown>) : null,
+  };
+}
+
+// Identifies a record across tables, e.g. to group its queued entries
+export const recordKey = (table: LocalTable, recordId: string) => `${table}/${recordId}`;
+
+/**
+ * Append a mutation to the end of the queue
+ */
+export async function enqueue(mutation: OutboxMutation): Promise<void> {
+  await initDatabase();
+  await insert('outbox', {
+    user_id: mutation.userId,
+    table_name: mutation.table,
+    operation: mutation.operation,
+    record_id: mutation.recordId,
+    payload: mutation.payload ? JSON.stringify(mutation.payload) : null,
+    on_conflict: mutation.onConflict ?? null,
+    status: 'pending',
+    attempts: 0,
+    created_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Pending entries for a user, oldest first
+ */
+export async function getPending(userId: string): Promise<OutboxEntry[]> {
+  await initDatabase();
+  const rows = await executeQuery<OutboxRow>(
+    "SELECT * FROM outbox WHERE user_id = ? AND status = 'pending' ORDER BY id ASC",
+    [userId]
+  );
+  return rows.map(fromRow);
+}
+
+/**
+ * Ids of records in a table that still have unsent local changes,
+ * including changes parked as 'failed'
+ */
+export async function getUnsentRecordIds(userId: string, table: LocalTable): Promise<Set<string>> {
+  await initDatabase();
+  const rows = await executeQuery<{ record_id: string }>(
+    'SELECT DISTINCT record_id FROM outbox WHERE user_id = ? AND table_name = ?',
+    [userId, table]
+  );
+  return new Set(rows.map((row) => row.record_id));
+}
+
+/**
+ * Records with an entry parked as 'failed', as `table/record_id` keys
+ */
+export async function getFailedRecordKeys(userId: string): Promise<Set<string>> {
+  await initDatabase();
+  const rows = await executeQuery<{ table_name: LocalTable; record_id: string }>(
+    "SELECT DISTINCT table_name, record_id FROM outbox WHERE user_id = ? AND status = 'failed'",
+    [userId]
+  );
+  return new Set(rows.map((row) => recordKey(row.table_name, row.record_id)));
+}
+
+export async function countPending(userId: string): Promise<number> {
+  await initDatabase();
+  const rows = await executeQuery<{ count: number }>(
+    "SELECT COUNT(*) as count FROM outbox WHERE user_id = ? AND status = 'pending'",
+    [userId]
+  );
+  return rows[0]?.count || 0;
+}
+
+/**
+ * Pending and failed entry counts per table, with the latest delivery error
+ */
+export async function getQueueStatus(
+  userId: string
+): Promise<Partial<Record<LocalTable, TableQueueStatus>>> {
+  await initDatabase();
+  const rows = await executeQuery<{
+    table_name: LocalTable;
+    pending: number;
+    failed: number;
+    last_error: string | null;
+  }>(
+    `SELECT table_name,
+      SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
+      SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+      (SELECT last_error FROM outbox latest
+        WHERE latest.user_id = outbox.user_id AND latest.table_name = outbox.table_name
+        AND latest.last_error IS NOT NULL
+        ORDER BY latest.id DESC LIMIT 1) as last_error
+    FROM outbox WHERE user_id = ? GROUP BY table_name`,
+    [userId]
+  );
+
+  const status: Partial<Record<LocalTable, TableQueueStatus>> = {};
+  for (const row of rows) {
+    status[row.table_name] = {
+      pending: row.pending,
+      failed: row.failed,
+      lastError: row.last_error,
+    };
+  }
+  return status;
+}
+
+/**
+ * Record a failed delivery attempt
+ */
+export async function recordFailure(
+  id: number,
+  attempts: number,
+  error: string,
+  nextAttemptAt: string | null,
+  status: OutboxStatus = 'pending'
+): Promise<void> {
+  await initDatabase();
+  await updateById('outbox', id, {
+    attempts,
+    last_error: error,
+    next_attempt_at: nextAttemptAt,
+    status,
+  });
+}
+
+/**
+ * Replace an entry's payload, e.g. once a file it points at has been uploaded
+ */
+export async function updatePayload(id: number, payload: Record<string, unknown>): Promise<void> {
+  await initDatabase();
+  await updateById('outbox', id, { payload: JSON.stringify(payload) });
+}
+
+/**
+ * Make every pending entry eligible for an immediate retry.
+ * Attempt counts are kept so repeated failures still back off.
+ */
+export async function clearRetryDelays(userId: string): Promise<void> {
+  await initDatabase();
+  await executeQuery(
+    "UPDATE outbox SET next_attempt_at = NULL WHERE user_id = ? AND status = 'pending'",
+    [userId]
+  );
+}
+
+/**
+ * Put entries that exhausted their attempts back in the queue
+ */
+export async function retryFailed(userId: string): Promise<void> {
+  await initDatabase();
+  await executeQuery(
+    "UPDATE outbox SET status = 'pending', attempts = 0, next_attempt_at = NULL WHERE user_id = ? AND status = 'failed'",
+    [userId]
+  );
+}
+
+/**
+ * Drop every queued entry for one record, failed ones included, e.g. after it has been merged
+ */
+export async function removeEntriesForRecord(
+  userId: string,
+  table: LocalTable,
+  recordId: string
+): Promise<void> {
+  await initDatabase();
+  await executeQuery(
+    'DELETE FROM outbox WHERE user_id = ? AND table_name = ? AND record_id = ?',
+    [userId, table, recordId]
+  );
+}
+
+export async function removeEntry(id: number): Promise<void> {
+  await initDatabase();
+  await deleteById('outbox', id);
+}
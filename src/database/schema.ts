@@ -0,0 +1,324 @@
+/**
+ * Local Database Schema
+ *
+ * Mirrors the Supabase library tables (see supabase/migrations) so the app
+ * works fully offline. Each entry in MIGRATIONS is applied once, in order,
+ * and recorded in the schema_migrations table.
+ */
+
+import type * as SQLite from 'expo-sqlite';
+
+export const MIGRATIONS: string[] = [
+  // v1 - library tables
+  `
+  CREATE TABLE IF NOT EXISTS books (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    author TEXT NOT NULL,
+    isbn TEXT,
+    cover_url TEXT,
+    total_pages INTEGER NOT NULL DEFAULT 0,
+    current_page INTEGER NOT NULL DEFAULT 0,
+    progress INTEGER NOT NULL DEFAULT 0,
+    category TEXT,
+    rating INTEGER,
+    status TEXT NOT NULL DEFAULT 'to_read',
+    date_added TEXT NOT NULL,
+    date_started TEXT,
+    date_finished TEXT,
+    created_at TEXT,
+    updated_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS notes (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    book_id TEXT NOT NULL,
+    content TEXT NOT NULL,
+    page INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS highlights (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    book_id TEXT NOT NULL,
+    text TEXT NOT NULL,
+    page INTEGER,
+    color TEXT NOT NULL DEFAULT '#FBBF24',
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS reading_goals (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    target_books INTEGER NOT NULL DEFAULT 12,
+    target_pages INTEGER,
+    created_at TEXT,
+    updated_at TEXT,
+    UNIQUE(user_id, year)
+  );
+
+  CREATE TABLE IF NOT EXISTS reading_streaks (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL UNIQUE,
+    current_streak INTEGER NOT NULL DEFAULT 0,
+    longest_streak INTEGER NOT NULL DEFAULT 0,
+    last_read_date TEXT,
+    created_at TEXT,
+    updated_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_books_user ON books(user_id, date_added);
+  CREATE INDEX IF NOT EXISTS idx_notes_book ON notes(book_id);
+  CREATE INDEX IF NOT EXISTS idx_highlights_book ON highlights(book_id);
+  `,
+
+  // v2 - outbound mutation queue
+  `
+  CREATE TABLE IF NOT EXISTS outbox (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    table_name TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    payload TEXT,
+    on_conflict TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT,
+    last_error TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_outbox_user_status ON outbox(user_id, status, id);
+  `,
+
+  // v3 - last synced remote versions and unresolved conflicts
+  `
+  CREATE TABLE IF NOT EXISTS sync_base (
+    table_name TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT,
+    PRIMARY KEY (table_name, record_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    table_name TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    local_data TEXT NOT NULL,
+    remote_data TEXT NOT NULL,
+    detected_at TEXT NOT NULL,
+    UNIQUE(table_name, record_id)
+  );
+  `,
+
+  // v4 - delta sync position per table
+  `
+  CREATE TABLE IF NOT EXISTS sync_cursors (
+    user_id TEXT NOT NULL,
+    table_name TEXT NOT NULL,
+    synced_until TEXT NOT NULL,
+    PRIMARY KEY (user_id, table_name)
+  );
+  `,
+
+  // v5 - reading sessions
+  `
+  CREATE TABLE IF NOT EXISTS reading_sessions (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    book_id TEXT NOT NULL,
+    pages_read INTEGER NOT NULL,
+    duration_minutes INTEGER,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_reading_sessions_book ON reading_sessions(book_id, started_at);
+  CREATE INDEX IF NOT EXISTS idx_reading_sessions_user ON reading_sessions(user_id, started_at);
+  `,
+
+  // v6 - bookshelves
+  `
+  CREATE TABLE IF NOT EXISTS bookshelves (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    is_default INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS bookshelf_items (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    bookshelf_id TEXT NOT NULL,
+    book_id TEXT NOT NULL,
+    added_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE(bookshelf_id, book_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_bookshelves_user ON bookshelves(user_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_bookshelf_items_book ON bookshelf_items(book_id);
+  `,
+
+  // v7 - reason for not finishing a book
+  `
+  ALTER TABLE books ADD COLUMN dnf_reason TEXT;
+  `,
+
+  // v8 - each read of a book, so re-reads keep their own dates and rating
+  `
+  CREATE TABLE IF NOT EXISTS book_reads (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    book_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'reading',
+    current_page INTEGER NOT NULL DEFAULT 0,
+    progress INTEGER NOT NULL DEFAULT 0,
+    rating INTEGER,
+    date_started TEXT,
+    date_finished TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_book_reads_book ON book_reads(book_id, date_started);
+  CREATE INDEX IF NOT EXISTS idx_book_reads_user ON book_reads(user_id, date_finished);
+  `,
+
+  // v9 - written reviews; ratings may now be half stars (stored as REAL in the INTEGER column)
+  `
+  ALTER TABLE books ADD COLUMN review TEXT;
+  ALTER TABLE books ADD COLUMN review_spoiler INTEGER NOT NULL DEFAULT 0;
+  `,
+
+  // v10 - goal types; a user may have several goals, so the one-per-year constraint goes.
+  // Each existing goal covered its year; a page target becomes a goal of its own, with an id
+  // derived from the original goal's (first group all f) as in 010_goal_types.sql, so the
+  // device and the server split off the same goal.
+  `
+  CREATE TABLE reading_goals_v10 (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    period TEXT NOT NULL DEFAULT 'yearly',
+    metric TEXT NOT NULL DEFAULT 'books',
+    target INTEGER NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT,
+    created_at TEXT,
+    updated_at TEXT
+  );
+
+  INSERT INTO reading_goals_v10 (id, user_id, period, metric, target, start_date, end_date, created_at, updated_at)
+    SELECT id, user_id, 'yearly', 'books', target_books, year || '-01-01', year || '-12-31', created_at, updated_at
+    FROM reading_goals;
+
+  INSERT INTO reading_goals_v10 (id, user_id, period, metric, target, start_date, end_date, created_at, updated_at)
+    SELECT 'ffffffff' || lower(substr(id, 9)), user_id, 'yearly', 'pages', target_pages,
+      year || '-01-01', year || '-12-31', created_at, updated_at
+    FROM reading_goals
+    WHERE target_pages IS NOT NULL AND target_pages > 0;
+
+  DROP TABLE reading_goals;
+  ALTER TABLE reading_goals_v10 RENAME TO reading_goals;
+
+  CREATE INDEX IF NOT EXISTS idx_reading_goals_user ON reading_goals(user_id, start_date);
+  `,
+
+  // v11 - unlocked achievements, one row per badge
+  `
+  CREATE TABLE IF NOT EXISTS achievements (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    achievement_id TEXT NOT NULL,
+    unlocked_at TEXT NOT NULL,
+    created_at TEXT,
+    updated_at TEXT,
+    UNIQUE(user_id, achievement_id)
+  );
+  `,
+];
+
+/**
+ * Columns known to each local table.
+ * Records coming from Supabase carry extra columns (e.g. app_id) that are
+ * dropped before they are written locally.
+ */
+export const TABLE_COLUMNS = {
+  books: [
+    'id', 'user_id', 'title', 'author', 'isbn', 'cover_url', 'total_pages',
+    'current_page', 'progress', 'category', 'rating', 'status', 'date_added',
+    'date_started', 'date_finished', 'dnf_reason', 'review', 'review_spoiler',
+    'created_at', 'updated_at',
+  ],
+  book_reads: [
+    'id', 'user_id', 'book_id', 'status', 'current_page', 'progress', 'rating',
+    'date_started', 'date_finished', 'created_at', 'updated_at',
+  ],
+  notes: ['id', 'user_id', 'book_id', 'content', 'page', 'created_at', 'updated_at'],
+  highlights: ['id', 'user_id', 'book_id', 'text', 'page', 'color', 'created_at'],
+  reading_sessions: [
+    'id', 'user_id', 'book_id', 'pages_read', 'duration_minutes', 'started_at',
+    'ended_at', 'created_at',
+  ],
+  reading_goals: [
+    'id', 'user_id', 'period', 'metric', 'target', 'start_date', 'end_date',
+    'created_at', 'updated_at',
+  ],
+  reading_streaks: [
+    'id', 'user_id', 'current_streak', 'longest_streak', 'last_read_date',
+    'created_at', 'updated_at',
+  ],
+  achievements: ['id', 'user_id', 'achievement_id', 'unlocked_at', 'created_at', 'updated_at'],
+  bookshelves: ['id', 'user_id', 'name', 'description', 'is_default', 'created_at', 'updated_at'],
+  bookshelf_items: ['id', 'user_id', 'bookshelf_id', 'book_id', 'added_at', 'updated_at'],
+} as const;
+
+export type LocalTable = keyof typeof TABLE_COLUMNS;
+
+/**
+ * Columns stored as 0/1 in SQLite that are booleans everywhere else
+ */
+export const BOOLEAN_COLUMNS: Partial<Record<LocalTable, readonly string[]>> = {
+  books: ['review_spoiler'],
+  bookshelves: ['is_default'],
+};
+
+/**
+ * Apply any migrations that have not yet run on this device
+ */
+export async function migrate(db: SQLite.SQLiteDatabase): Promise<void> {
+  await db.execAsync(
+    'CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY NOT NULL, applied_at TEXT NOT NULL);'
+  );
+
+  const result = await db.getFirstAsync<{ version: number | null }>(
+    'SELECT MAX(version) as version FROM schema_migrations'
+  );
+  const currentVersion = result?.version ?? 0;
+
+  for (let index = currentVersion; index < MIGRATIONS.length; index++) {
+    const statements = MIGRATIONS[index];
+    if (!statements) continue;
+
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(statements);
+      await db.runAsync(
+        'INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)',
+        index + 1,
+        new Date().toISOString()
+      );
+    });
+  }
+}
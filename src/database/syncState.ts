@@ -0,0 +1,179 @@
+/**
+ * Sync State Repository
+ * Keeps the last remote version of each synced record (the merge base),
+ * how far each table has been pulled, and any conflicts that need the
+ * user to pick a side.
+ */
+
+import { initDatabase, upsert, deleteById, executeQuery, transaction } from './index';
+import type { LocalTable } from './schema';
+
+type SyncRecord = Record<string, unknown> & { id: string; updated_at?: string };
+
+export interface SyncConflict<T = Record<string, unknown>> {
+  id: number;
+  table_name: LocalTable;
+  record_id: string;
+  local: T;
+  remote: T;
+  detected_at: string;
+}
+
+interface ConflictRow {
+  id: number;
+  table_name: LocalTable;
+  record_id: string;
+  local_data: string;
+  remote_data: string;
+  detected_at: string;
+}
+
+// ============================================================================
+// MERGE BASE
+// ============================================================================
+
+export async function getBase<T extends SyncRecord>(table: LocalTable, recordId: string): Promise<T | null> {
+  await initDatabase();
+  const rows = await executeQuery<{ data: string }>(
+    'SELECT data FROM sync_base WHERE table_name = ? AND record_id = ? LIMIT 1',
+    [table, recordId]
+  );
+  return rows[0] ? (JSON.parse(rows[0].data) as T) : null;
+}
+
+/**
+ * Record the remote versions most recently seen for a table
+ */
+export async function saveBases(table: LocalTable, records: SyncRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  await initDatabase();
+  await transaction(async () => {
+    for (const record of records) {
+      await upsert('sync_base', {
+        table_name: table,
+        record_id: record.id,
+        data: JSON.stringify(record),
+        updated_at: record.updated_at ?? null,
+      });
+    }
+  });
+}
+
+export async function saveBase(table: LocalTable, record: SyncRecord): Promise<void> {
+  await initDatabase();
+  await upsert('sync_base', {
+    table_name: table,
+    record_id: record.id,
+    data: JSON.stringify(record),
+    updated_at: record.updated_at ?? null,
+  });
+}
+
+export async function removeBase(table: LocalTable, recordId: string): Promise<void> {
+  await initDatabase();
+  await executeQuery(
+    'DELETE FROM sync_base WHERE table_name = ? AND record_id = ?',
+    [table, recordId]
+  );
+}
+
+// ============================================================================
+// DELTA CURSORS
+// ============================================================================
+
+/**
+ * Server timestamp up to which a stream (a table or the tombstones) has been pulled
+ */
+export async function getCursor(userId: string, stream: string): Promise<string | null> {
+  await initDatabase();
+  const rows = await executeQuery<{ synced_until: string }>(
+    'SELECT synced_until FROM sync_cursors WHERE user_id = ? AND table_name = ? LIMIT 1',
+    [userId, stream]
+  );
+  return rows[0]?.synced_until ?? null;
+}
+
+export async function saveCursor(userId: string, stream: string, syncedUntil: string): Promise<void> {
+  await initDatabase();
+  await upsert('sync_cursors', {
+    user_id: userId,
+    table_name: stream,
+    synced_until: syncedUntil,
+  });
+}
+
+// ============================================================================
+// CONFLICTS
+// ============================================================================
+
+/**
+ * Store a conflict; a newer conflict for the same record replaces the old one
+ */
+export async function saveConflict(
+  userId: string,
+  table: LocalTable,
+  local: SyncRecord,
+  remote: SyncRecord
+): Promise<void> {
+  await initDatabase();
+  await upsert('sync_conflicts', {
+    user_id: userId,
+    table_name: table,
+    record_id: remote.id,
+    local_data: JSON.stringify(local),
+    remote_data: JSON.stringify(remote),
+    detected_at: new Date().toISOString(),
+  });
+}
+
+export async function getConflicts<T>(userId: string): Promise<SyncConflict<T>[]> {
+  await initDatabase();
+  const rows = await executeQuery<ConflictRow>(
+    'SELECT * FROM sync_conflicts WHERE user_id = ? ORDER BY detected_at DESC',
+    [userId]
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    table_name: row.table_name,
+    record_id: row.record_id,
+    local: JSON.parse(row.local_data) as T,
+    remote: JSON.parse(row.remote_data) as T,
+    detected_at: row.detected_at,
+  }));
+}
+
+/**
+ * Ids of records in a table with a conflict waiting for the user
+ */
+export async function getConflictRecordIds(userId: string, table: LocalTable): Promise<Set<string>> {
+  await initDatabase();
+  const rows = await executeQuery<{ record_id: string }>(
+    'SELECT record_id FROM sync_conflicts WHERE user_id = ? AND table_name = ?',
+    [userId, table]
+  );
+  return new Set(rows.map((row) => row.record_id));
+}
+
+/**
+ * Replace the remote side of an open conflict with a newer remote version
+ */
+export async function updateConflictRemote(table: LocalTable, remote: SyncRecord): Promise<void> {
+  await initDatabase();
+  await executeQuery(
+    'UPDATE sync_conflicts SET remote_data = ? WHERE table_name = ? AND record_id = ?',
+    [JSON.stringify(remote), table, remote.id]
+  );
+}
+
+export async function removeConflict(id: number): Promise<void> {
+  await initDatabase();
+  await deleteById('sync_conflicts', id);
+}
+
+export async function removeConflictsForRecord(table: LocalTable, recordId: string): Promise<void> {
+  await initDatabase();
+  await executeQuery(
+    'DELETE FROM sync_conflicts WHERE table_name = ? AND record_id = ?',
+    [table, recordId]
+  );
+}
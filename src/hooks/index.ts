@@ -1,6 +1,8 @@
 export * from "./useAppState";
+export * from "./useDebouncedValue";
 export * from "./useOnlineManager";
 export * from "./useRefreshByUser";
 export * from "./useRefreshOnFocus";
 export * from "./useRevenueCatInit";
 export * from "./useSupabaseAuthInit";
+export * from "./useSyncInit";
@@ -0,0 +1,83 @@
+/**
+ * useSyncInit Hook
+ * Starts the outbox sync service, keeps it in step with the user's sync settings
+ * and cloud_sync entitlement, and mirrors its queue length and conflicts into the app store
+ */
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { syncService } from '../services/sync.service';
+import { useAppStore } from '../stores/appStore';
+import { useSubscriptionStore } from '../stores/subscriptionStore';
+import { canAccessFeature } from '../config/premiumFeatures';
+
+const applySettings = () => {
+  const { syncSettings, cloudSyncEnabled } = useAppStore.getState();
+  syncService.configure({
+    cloudSync: cloudSyncEnabled,
+    autoSync: syncSettings.autoSync,
+    wifiOnly: syncSettings.syncOnWifiOnly,
+  });
+};
+
+// Both stores restore from AsyncStorage; comparing before then would look like an upgrade
+const applyEntitlement = () => {
+  if (!useAppStore.persist.hasHydrated() || !useSubscriptionStore.persist.hasHydrated()) return;
+
+  const { isPremium } = useSubscriptionStore.getState();
+  useAppStore.getState().setCloudSyncAccess(canAccessFeature('cloud_sync', isPremium));
+};
+
+export function useSyncInit() {
+  useEffect(() => {
+    applySettings();
+    syncService.start();
+
+    // Persisted settings arrive after hydration, and change from the Sync screen
+    const unsubscribeSettings = useAppStore.subscribe((state, previous) => {
+      if (
+        state.syncSettings !== previous.syncSettings ||
+        state.cloudSyncEnabled !== previous.cloudSyncEnabled
+      ) {
+        applySettings();
+      }
+    });
+
+    applyEntitlement();
+    const unsubscribeAppHydration = useAppStore.persist.onFinishHydration(applyEntitlement);
+    const unsubscribeSubscriptionHydration = useSubscriptionStore.persist.onFinishHydration(applyEntitlement);
+    const unsubscribeEntitlement = useSubscriptionStore.subscribe((state, previous) => {
+      if (state.isPremium !== previous.isPremium) applyEntitlement();
+    });
+
+    const unsubscribe = syncService.onPendingChange((count) => {
+      useAppStore.setState({ pendingChanges: count });
+    });
+    const unsubscribeConflicts = syncService.onConflict(() => {
+      useAppStore.getState().fetchConflicts();
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', (status) => {
+      const { syncSettings, syncAll } = useAppStore.getState();
+
+      if (status === 'background' && syncSettings.backgroundSync) {
+        syncService.flush().catch(console.warn);
+      } else if (status === 'active' && syncSettings.autoSync) {
+        syncAll();
+      }
+    });
+
+    return () => {
+      unsubscribeSettings();
+      unsubscribeAppHydration();
+      unsubscribeSubscriptionHydration();
+      unsubscribeEntitlement();
+      unsubscribe();
+      unsubscribeConflicts();
+      appStateSubscription.remove();
+      syncService.stop();
+    };
+  }, []);
+}
+
+export default useSyncInit;
@@ -0,0 +1,70 @@
+import { bookMetadataService, FixtureProvider } from '../bookMetadata.service';
+import { DEFAULT_FIXTURES } from '../metadata/fixture.provider';
+
+describe('Book metadata service', () => {
+  let provider: FixtureProvider;
+
+  beforeEach(() => {
+    provider = new FixtureProvider();
+    bookMetadataService.setProvider(provider);
+  });
+
+  describe('lookupIsbn', () => {
+    it('finds a book by ISBN-13 or its ISBN-10', async () => {
+      expect((await bookMetadataService.lookupIsbn('978-0-441-17271-9'))?.title).toBe('Dune');
+      expect((await bookMetadataService.lookupIsbn('0441172717'))?.author).toBe('Frank Herbert');
+    });
+
+    it('resolves to null for an invalid or unknown ISBN without asking the provider', async () => {
+      const lookup = jest.spyOn(provider, 'lookupIsbn');
+
+      expect(await bookMetadataService.lookupIsbn('0441172710')).toBeNull();
+      expect(lookup).not.toHaveBeenCalled();
+      expect(await bookMetadataService.lookupIsbn('9780306406157')).toBeNull();
+    });
+
+    it('caches results until the cache is cleared', async () => {
+      const lookup = jest.spyOn(provider, 'lookupIsbn');
+
+      await Promise.all([bookMetadataService.lookupIsbn('9780441172719'), bookMetadataService.lookupIsbn('0441172717')]);
+      await bookMetadataService.lookupIsbn('9780441172719');
+      expect(lookup).toHaveBeenCalledTimes(1);
+
+      bookMetadataService.clearCache();
+      await bookMetadataService.lookupIsbn('9780441172719');
+      expect(lookup).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('search', () => {
+    it('matches free text against the title or the author', async () => {
+      const byAuthor = await bookMetadataService.search({ query: 'austen' });
+      expect(byAuthor.map((book) => book.title)).toEqual(['Pride and Prejudice']);
+
+      const byTitle = await bookMetadataService.search({ query: ' HOBBIT ' });
+      expect(byTitle.map((book) => book.title)).toEqual(['The Hobbit']);
+    });
+
+    it('narrows by title and author together', async () => {
+      expect(await bookMetadataService.search({ title: 'dune', author: 'herbert' })).toEqual([DEFAULT_FIXTURES[1]]);
+      expect(await bookMetadataService.search({ title: 'dune', author: 'austen' })).toEqual([]);
+    });
+
+    it('returns nothing for an empty query and respects the limit', async () => {
+      const search = jest.spyOn(provider, 'search');
+
+      expect(await bookMetadataService.search({ query: '   ' })).toEqual([]);
+      expect(search).not.toHaveBeenCalled();
+      expect(await bookMetadataService.search({ query: 'a' }, 2)).toHaveLength(2);
+    });
+
+    it('caches searches regardless of case and surrounding spaces', async () => {
+      const search = jest.spyOn(provider, 'search');
+
+      await bookMetadataService.search({ query: 'Dune' });
+      await bookMetadataService.search({ query: ' dune ' });
+      expect(search).toHaveBeenCalledTimes(1);
+      expect(search).toHaveBeenCalledWith({ query: 'Dune' }, 10);
+    });
+  });
+});
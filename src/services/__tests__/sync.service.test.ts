@@ -0,0 +1,285 @@
+import { syncService } from '../sync.service';
+import * as db from '../database';
+import * as outbox from '../../database/outbox';
+import * as local from '../../database/library';
+import * as syncState from '../../database/syncState';
+import { coverService } from '../cover.service';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+}));
+
+jest.mock('../supabase', () => ({
+  getCurrentSession: jest.fn(),
+}));
+
+jest.mock('../cover.service', () => ({
+  coverService: {
+    isLocalCover: (url: string) => url.startsWith('file://'),
+    uploadCover: jest.fn(),
+  },
+}));
+
+jest.mock('../database', () => ({
+  fetchAll: jest.fn(),
+  fetchById: jest.fn(),
+  upsert: jest.fn(),
+  update: jest.fn(),
+  updateWhere: jest.fn(),
+  remove: jest.fn(),
+  createMany: jest.fn(),
+}));
+
+jest.mock('../../database/outbox', () => ({
+  recordKey: (table: string, recordId: string) => `${table}/${recordId}`,
+  enqueue: jest.fn(),
+  getPending: jest.fn(async () => []),
+  getUnsentRecordIds: jest.fn(async () => new Set()),
+  getFailedRecordKeys: jest.fn(async () => new Set()),
+  countPending: jest.fn(async () => 0),
+  recordFailure: jest.fn(),
+  removeEntry: jest.fn(),
+  updatePayload: jest.fn(),
+  removeEntriesForRecord: jest.fn(),
+  clearRetryDelays: jest.fn(),
+}));
+
+jest.mock('../../database/library', () => ({
+  loadRecord: jest.fn(),
+  loadTable: jest.fn(async () => []),
+  saveRecord: jest.fn(),
+  saveRecords: jest.fn(),
+  patchRecord: jest.fn(),
+  removeRecord: jest.fn(),
+}));
+
+jest.mock('../../database/syncState', () => ({
+  getBase: jest.fn(),
+  saveBase: jest.fn(),
+  saveBases: jest.fn(),
+  removeBase: jest.fn(),
+  getCursor: jest.fn(async () => null),
+  saveCursor: jest.fn(),
+  saveConflict: jest.fn(),
+  getConflictRecordIds: jest.fn(async () => new Set()),
+  updateConflictRemote: jest.fn(),
+  removeConflictsForRecord: jest.fn(),
+}));
+
+const USER_ID = 'user-1';
+
+const base = {
+  id: 'note-1',
+  user_id: USER_ID,
+  book_id: 'book-1',
+  content: 'Original',
+  updated_at: '2026-01-01T00:00:00+00:00',
+};
+const mine = { ...base, content: 'Edited here', updated_at: '2026-01-02T00:00:00.000Z' };
+const theirs = { ...base, content: 'Edited elsewhere', updated_at: '2026-01-03T00:00:00+00:00' };
+
+describe('Sync conflicts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (outbox.getUnsentRecordIds as jest.Mock).mockResolvedValue(new Set());
+    (syncState.getConflictRecordIds as jest.Mock).mockResolvedValue(new Set());
+    (db.fetchAll as jest.Mock).mockImplementation(async (table: string) => ({
+      data: table === 'notes' ? [theirs] : [],
+      error: null,
+    }));
+  });
+
+  it('records a conflict and keeps the local note when both sides edited the content', async () => {
+    (outbox.getUnsentRecordIds as jest.Mock).mockImplementation(async (_userId: string, table: string) =>
+      new Set(table === 'notes' ? [base.id] : [])
+    );
+    (local.loadRecord as jest.Mock).mockResolvedValue(mine);
+    (syncState.getBase as jest.Mock).mockResolvedValue(base);
+
+    await syncService.pullChanges(USER_ID);
+
+    expect(syncState.saveConflict).toHaveBeenCalledWith(USER_ID, 'notes', mine, theirs);
+    expect(local.saveRecord).not.toHaveBeenCalled();
+    expect(local.saveRecords).toHaveBeenCalledWith('notes', []);
+  });
+
+  it('records a conflict for a book field both devices changed, however their clocks compare', async () => {
+    const baseBook = { id: 'book-1', user_id: USER_ID, title: 'Dune', rating: 3, updated_at: '2026-01-01T00:00:00+00:00' };
+    // This device's clock runs ahead, so its edit looks newer than it is
+    const myBook = { ...baseBook, rating: 5, updated_at: '2026-02-01T00:00:00.000Z' };
+    const theirBook = { ...baseBook, rating: 2, updated_at: '2026-01-03T00:00:00+00:00' };
+    (db.fetchAll as jest.Mock).mockImplementation(async (table: string) => ({
+      data: table === 'books' ? [theirBook] : [],
+      error: null,
+    }));
+    (outbox.getUnsentRecordIds as jest.Mock).mockImplementation(async (_userId: string, table: string) =>
+      new Set(table === 'books' ? [baseBook.id] : [])
+    );
+    (local.loadRecord as jest.Mock).mockResolvedValue(myBook);
+    (syncState.getBase as jest.Mock).mockResolvedValue(baseBook);
+
+    await syncService.pullChanges(USER_ID);
+
+    expect(syncState.saveConflict).toHaveBeenCalledWith(USER_ID, 'books', myBook, theirBook);
+    expect(outbox.enqueue).not.toHaveBeenCalled();
+    expect(local.saveRecord).not.toHaveBeenCalled();
+  });
+
+  it('does not overwrite the local note when a pull re-reads a row with an open conflict', async () => {
+    // The conflict removed the note's outbox entries, so it no longer looks locally changed
+    (syncState.getConflictRecordIds as jest.Mock).mockImplementation(async (_userId: string, table: string) =>
+      new Set(table === 'notes' ? [base.id] : [])
+    );
+
+    await syncService.pullChanges(USER_ID);
+
+    expect(local.saveRecords).toHaveBeenCalledWith('notes', []);
+    expect(syncState.saveBases).toHaveBeenCalledWith('notes', []);
+    expect(syncState.updateConflictRemote).toHaveBeenCalledWith('notes', theirs);
+    expect(syncState.saveConflict).not.toHaveBeenCalled();
+  });
+
+  it('does not overwrite the local note when Realtime pushes a row with an open conflict', async () => {
+    (syncState.getConflictRecordIds as jest.Mock).mockResolvedValue(new Set([base.id]));
+
+    await syncService.applyRemoteChange('notes', USER_ID, 'UPDATE', theirs);
+
+    expect(local.saveRecords).toHaveBeenCalledWith('notes', []);
+    expect(syncState.updateConflictRemote).toHaveBeenCalledWith('notes', theirs);
+  });
+
+  it('still fast-forwards notes without a conflict or local changes', async () => {
+    await syncService.applyRemoteChange('notes', USER_ID, 'UPDATE', theirs);
+
+    expect(local.saveRecords).toHaveBeenCalledWith('notes', [theirs]);
+    expect(syncState.updateConflictRemote).not.toHaveBeenCalled();
+  });
+});
+
+describe('Outbox replay', () => {
+  const entry = (id: number, recordId: string, attempts = 0, overrides: Record<string, unknown> = {}) => ({
+    id,
+    user_id: USER_ID,
+    table_name: 'book_reads',
+    operation: 'update',
+    record_id: recordId,
+    payload: { progress: id },
+    on_conflict: null,
+    status: 'pending',
+    attempts,
+    next_attempt_at: null,
+    last_error: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const { getCurrentSession } = jest.requireMock('../supabase');
+    (getCurrentSession as jest.Mock).mockResolvedValue({ user: { id: USER_ID } });
+    (outbox.getFailedRecordKeys as jest.Mock).mockResolvedValue(new Set());
+    syncService.configure({ cloudSync: true, autoSync: false, wifiOnly: false });
+  });
+
+  // Drops the retry timer a failed entry schedules
+  afterEach(() => syncService.stop());
+
+  it('holds back later changes to a record whose entry was just parked', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (outbox.getPending as jest.Mock).mockResolvedValue([entry(1, 'read-1', 9), entry(2, 'read-1'), entry(3, 'read-2')]);
+    (db.update as jest.Mock).mockImplementation(async (_table: string, recordId: string) => ({
+      error: recordId === 'read-1' ? { message: 'Rejected' } : null,
+    }));
+
+    await syncService.flush();
+
+    expect(outbox.recordFailure).toHaveBeenCalledWith(1, 10, 'Rejected', null, 'failed');
+    expect(db.update).toHaveBeenCalledTimes(2);
+    expect(db.update).toHaveBeenCalledWith('book_reads', 'read-2', { progress: 3 });
+    expect(outbox.removeEntry).toHaveBeenCalledTimes(1);
+    expect(outbox.removeEntry).toHaveBeenCalledWith(3);
+    warn.mockRestore();
+  });
+
+  it('holds back changes to a record parked in an earlier run', async () => {
+    (outbox.getFailedRecordKeys as jest.Mock).mockResolvedValue(new Set(['book_reads/read-1']));
+    (outbox.getPending as jest.Mock).mockResolvedValue([entry(2, 'read-1'), entry(3, 'read-2')]);
+    (db.update as jest.Mock).mockResolvedValue({ error: null });
+
+    await syncService.flush();
+
+    expect(db.update).toHaveBeenCalledTimes(1);
+    expect(db.update).toHaveBeenCalledWith('book_reads', 'read-2', { progress: 3 });
+    expect(outbox.removeEntry).toHaveBeenCalledWith(3);
+  });
+
+  it('sends other records while one is backing off', async () => {
+    const later = new Date(Date.now() + 60_000).toISOString();
+    (outbox.getPending as jest.Mock).mockResolvedValue([
+      entry(1, 'read-1', 1, { next_attempt_at: later }),
+      entry(2, 'read-1'),
+      entry(3, 'read-2'),
+    ]);
+    (db.update as jest.Mock).mockResolvedValue({ error: null });
+
+    await syncService.flush();
+
+    expect(db.update).toHaveBeenCalledTimes(1);
+    expect(db.update).toHaveBeenCalledWith('book_reads', 'read-2', { progress: 3 });
+  });
+
+  it('holds back only the record whose entry just failed', async () => {
+    (outbox.getPending as jest.Mock).mockResolvedValue([entry(1, 'read-1'), entry(2, 'read-1'), entry(3, 'read-2')]);
+    (db.update as jest.Mock).mockImplementation(async (_table: string, recordId: string) => ({
+      error: recordId === 'read-1' ? { message: 'Timed out' } : null,
+    }));
+
+    await syncService.flush();
+
+    expect(outbox.recordFailure).toHaveBeenCalledWith(1, 1, 'Timed out', expect.any(String));
+    expect(db.update).toHaveBeenCalledTimes(2);
+    expect(outbox.removeEntry).toHaveBeenCalledWith(3);
+  });
+
+  it('holds back rows that reference a parked book', async () => {
+    (outbox.getFailedRecordKeys as jest.Mock).mockResolvedValue(new Set(['books/book-1']));
+    const note = (id: number, bookId: string) =>
+      entry(id, `note-${id}`, 0, {
+        table_name: 'notes',
+        operation: 'upsert',
+        payload: { id: `note-${id}`, book_id: bookId, content: 'Thoughts' },
+      });
+    (outbox.getPending as jest.Mock).mockResolvedValue([
+      note(1, 'book-1'),
+      entry(2, 'note-1', 0, { table_name: 'notes', payload: { content: 'Edited' } }),
+      note(3, 'book-2'),
+    ]);
+    (db.upsert as jest.Mock).mockResolvedValue({ data: null, error: null });
+
+    await syncService.flush();
+
+    expect(db.upsert).toHaveBeenCalledTimes(1);
+    expect(db.upsert).toHaveBeenCalledWith('notes', expect.objectContaining({ book_id: 'book-2' }), { onConflict: 'id' });
+    expect(db.updateWhere).not.toHaveBeenCalled();
+    expect(outbox.removeEntry).toHaveBeenCalledTimes(1);
+    expect(outbox.removeEntry).toHaveBeenCalledWith(3);
+  });
+
+  it('uploads a cover saved on the device before sending the book', async () => {
+    const saved = 'file:///covers/book-1-1.jpg';
+    const uploaded = 'https://storage.example.com/covers/user-1/book-1.jpg';
+    (outbox.getPending as jest.Mock).mockResolvedValue([
+      entry(1, 'book-1', 0, { table_name: 'books', operation: 'upsert', payload: { id: 'book-1', cover_url: saved } }),
+    ]);
+    (coverService.uploadCover as jest.Mock).mockResolvedValue(uploaded);
+    (local.loadRecord as jest.Mock).mockResolvedValue({ id: 'book-1', cover_url: saved });
+    (db.upsert as jest.Mock).mockResolvedValue({ data: null, error: null });
+
+    await syncService.flush();
+
+    expect(coverService.uploadCover).toHaveBeenCalledWith(USER_ID, 'book-1', saved);
+    expect(outbox.updatePayload).toHaveBeenCalledWith(1, { id: 'book-1', cover_url: uploaded });
+    expect(local.patchRecord).toHaveBeenCalledWith('books', 'book-1', { cover_url: uploaded });
+    expect(db.upsert).toHaveBeenCalledWith('books', { id: 'book-1', cover_url: uploaded }, { onConflict: 'id' });
+  });
+});
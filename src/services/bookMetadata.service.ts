@@ -0,0 +1,113 @@
+/**
+ * BookBuddy Book Metadata Service
+ * Looks up title, author, page count and cover by ISBN or title/author through a
+ * pluggable provider, caching results so repeated lookups do not hit the network
+ */
+
+import { normalizeIsbn } from '../utils/isbn';
+import { OpenLibraryProvider } from './metadata/openLibrary.provider';
+import { FixtureProvider } from './metadata/fixture.provider';
+import type { BookMetadata, BookMetadataProvider, BookSearchQuery } from './metadata/types';
+
+export type { BookMetadata, BookMetadataProvider, BookSearchQuery } from './metadata/types';
+export { OpenLibraryProvider } from './metadata/openLibrary.provider';
+export { FixtureProvider } from './metadata/fixture.provider';
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 200;
+const DEFAULT_SEARCH_LIMIT = 10;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+class BookMetadataService {
+  private provider: BookMetadataProvider;
+  private cache = new Map<string, CacheEntry>();
+  // Lookups already on the wire, so a double tap does not send two requests
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(provider: BookMetadataProvider) {
+    this.provider = provider;
+  }
+
+  getProvider(): BookMetadataProvider {
+    return this.provider;
+  }
+
+  /**
+   * Swap the provider, e.g. for the fixture provider in tests; drops cached results
+   */
+  setProvider(provider: BookMetadataProvider): void {
+    this.provider = provider;
+    this.clearCache();
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+    this.inFlight.clear();
+  }
+
+  /**
+   * Look up an ISBN-10 or ISBN-13; resolves to null for an invalid ISBN or no match
+   */
+  async lookupIsbn(isbn: string): Promise<BookMetadata | null> {
+    const normalized = normalizeIsbn(isbn);
+    if (!normalized) return null;
+
+    return this.cached(`isbn:${normalized}`, () => this.provider.lookupIsbn(normalized));
+  }
+
+  async search(query: BookSearchQuery, limit: number = DEFAULT_SEARCH_LIMIT): Promise<BookMetadata[]> {
+    const text = query.query?.trim() ?? '';
+    const title = query.title?.trim() ?? '';
+    const author = query.author?.trim() ?? '';
+    if (!text && !title && !author) return [];
+
+    const key = `search:${text.toLowerCase()}|${title.toLowerCase()}|${author.toLowerCase()}|${limit}`;
+    return this.cached(key, () =>
+      this.provider.search({ ...(text && { query: text }), ...(title && { title }), ...(author && { author }) }, limit)
+    );
+  }
+
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as T;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = load()
+      .then((value) => {
+        this.remember(key, value);
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private remember(key: string, value: unknown): void {
+    this.cache.delete(key);
+    this.cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (this.cache.size > CACHE_MAX_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+  }
+}
+
+const createDefaultProvider = (): BookMetadataProvider =>
+  process.env.EXPO_PUBLIC_METADATA_PROVIDER === 'fixture'
+    ? new FixtureProvider()
+    : new OpenLibraryProvider();
+
+export const bookMetadataService = new BookMetadataService(createDefaultProvider());
+export default bookMetadataService;
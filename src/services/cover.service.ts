@@ -0,0 +1,177 @@
+/**
+ * BookBuddy Cover Service
+ * Picks or photographs a cover and saves it on the device. With cloud sync on, the
+ * sync service uploads saved covers to the covers bucket under the user's folder.
+ * Downloaded covers are cached on the device so they show offline.
+ */
+
+import * as ImagePicker from 'expo-image-picker';
+import { Directory, File, Paths } from 'expo-file-system';
+import { getAppBucket } from './supabase';
+import { uploadFile, getPublicUrl } from './database';
+
+export type CoverSource = 'library' | 'camera';
+
+// Book covers are roughly 2:3
+const COVER_ASPECT: [number, number] = [2, 3];
+const COVER_QUALITY = 0.8;
+
+/**
+ * Stable file name for a cover URL
+ */
+function cacheFileName(url: string): string {
+  let hash = 5381;
+  for (let index = 0; index < url.length; index++) {
+    hash = ((hash << 5) + hash + url.charCodeAt(index)) | 0;
+  }
+  return `${(hash >>> 0).toString(36)}-${url.length}.jpg`;
+}
+
+const isRemote = (uri: string) => /^https?:\/\//i.test(uri);
+
+class CoverService {
+  // Downloaded covers, keyed by URL
+  private directory = new Directory(Paths.document, 'covers');
+  // Covers the user picked, one per book, kept with the local library
+  private savedDirectory = new Directory(Paths.document, 'book-covers');
+  // Covers being downloaded, so a list of cards showing one cover downloads it once
+  private downloads = new Map<string, Promise<string | null>>();
+
+  /**
+   * Let the user choose or take a photo and crop it to a cover; null if they cancel
+   */
+  async pickCover(source: CoverSource): Promise<string | null> {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      throw new Error(
+        source === 'camera'
+          ? 'Camera access is needed to photograph a cover.'
+          : 'Photo library access is needed to choose a cover.'
+      );
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: COVER_ASPECT,
+      quality: COVER_QUALITY,
+    };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (result.canceled) return null;
+    return result.assets[0]?.uri ?? null;
+  }
+
+  /**
+   * Keep a picked image as a book's cover and return the saved file's URI.
+   * The book's previous saved cover is deleted.
+   */
+  saveCover(bookId: string, pickedUri: string): string {
+    this.savedDirectory.create({ idempotent: true, intermediates: true });
+    for (const entry of this.savedDirectory.list()) {
+      if (entry instanceof File && entry.name.startsWith(`${bookId}-`)) {
+        entry.delete();
+      }
+    }
+
+    // A new name per save, so the cover component notices the change
+    const saved = new File(this.savedDirectory, `${bookId}-${Date.now()}.jpg`);
+    new File(pickedUri).copy(saved);
+    return saved.uri;
+  }
+
+  /**
+   * Whether a cover URL points at a file on this device rather than the bucket
+   */
+  isLocalCover(url: string): boolean {
+    return !isRemote(url);
+  }
+
+  /**
+   * Upload a cover saved on the device and return its public URL; null if the file is gone.
+   * The image is cached under that URL straight away.
+   */
+  async uploadCover(userId: string, bookId: string, localUri: string): Promise<string | null> {
+    const picked = new File(localUri);
+    if (!picked.exists) return null;
+    const bytes = await picked.bytes();
+    const bucket = getAppBucket('covers');
+
+    // A new name per upload, so a replaced cover is never served from a stale cache
+    const { path, error } = await uploadFile(bucket, `${userId}/${bookId}-${Date.now()}.jpg`, bytes.buffer, {
+      contentType: 'image/jpeg',
+      upsert: true,
+    });
+    if (error || !path) {
+      throw error ?? new Error('Cover upload failed');
+    }
+
+    const url = getPublicUrl(bucket, path);
+    try {
+      this.ensureDirectory();
+      picked.copy(this.cacheFile(url));
+    } catch (cacheError) {
+      console.warn('Failed to cache uploaded cover:', cacheError);
+    }
+    return url;
+  }
+
+  /**
+   * Local file for a cover if it has been cached; local URIs are returned as they are
+   */
+  getCachedUri(url: string): string | null {
+    if (!isRemote(url)) return url;
+    const file = this.cacheFile(url);
+    return file.exists ? file.uri : null;
+  }
+
+  /**
+   * Download a cover into the cache; resolves to the local URI, or null if it could not be fetched
+   */
+  async cacheCover(url: string): Promise<string | null> {
+    const cached = this.getCachedUri(url);
+    if (cached) return cached;
+
+    const pending = this.downloads.get(url);
+    if (pending) return pending;
+
+    const download = (async () => {
+      try {
+        this.ensureDirectory();
+        const file = await File.downloadFileAsync(url, this.cacheFile(url), { idempotent: true });
+        return file.uri;
+      } catch (error) {
+        console.warn('Failed to cache cover:', error);
+        return null;
+      } finally {
+        this.downloads.delete(url);
+      }
+    })();
+    this.downloads.set(url, download);
+    return download;
+  }
+
+  /**
+   * Delete every downloaded cover, on sign-out; saved covers stay with the local library
+   */
+  clearCache(): void {
+    if (this.directory.exists) {
+      this.directory.delete();
+    }
+  }
+
+  private cacheFile(url: string): File {
+    return new File(this.directory, cacheFileName(url));
+  }
+
+  private ensureDirectory(): void {
+    this.directory.create({ idempotent: true, intermediates: true });
+  }
+}
+
+export const coverService = new CoverService();
+export default coverService;
@@ -273,7 +273,9 @@ export async function upsert<T>(
 // ============================================================================
 
 /**
- * Subscribe to table changes (filtered by app_id)
+ * Subscribe to table changes (filtered by app_id).
+ * Pass userId to get a channel of the user's own rows; Realtime accepts a
+ * single filter, so the user is matched server-side and app_id client-side.
  */
 export function subscribeToTable<T>(
   table: string,
@@ -282,15 +284,27 @@ export function subscribeToTable<T>(
     new: T | null;
     old: T | null;
   }) => void,
-  options: { event?: 'INSERT' | 'UPDATE' | 'DELETE' | '*'; skipAppFilter?: boolean } = {}
+  options: {
+    event?: 'INSERT' | 'UPDATE' | 'DELETE' | '*';
+    skipAppFilter?: boolean;
+    userId?: string;
+  } = {}
 ) {
-  // Build filter for app_id
-  const filter = (!options.skipAppFilter && !SHARED_TABLES.includes(table) && APP_ID)
-    ? `app_id=eq.${APP_ID}`
-    : undefined;
+  const filterByApp = !options.skipAppFilter && !SHARED_TABLES.includes(table) && !!APP_ID;
+
+  let filter: string | undefined;
+  if (options.userId) {
+    filter = `user_id=eq.${options.userId}`;
+  } else if (filterByApp) {
+    filter = `app_id=eq.${APP_ID}`;
+  }
+
+  const channelName = options.userId
+    ? `${table}_changes_${APP_ID}_${options.userId}`
+    : `${table}_changes_${APP_ID}`;
 
   const channel = supabase
-    .channel(`${table}_changes_${APP_ID}`)
+    .channel(channelName)
     .on(
       'postgres_changes',
       {
@@ -300,6 +314,10 @@ export function subscribeToTable<T>(
         filter,
       },
       (payload) => {
+        // DELETE payloads only carry the primary key, so they cannot be checked
+        const record = (payload.eventType === 'DELETE' ? payload.old : payload.new) as { app_id?: string };
+        if (options.userId && filterByApp && record?.app_id && record.app_id !== APP_ID) return;
+
         callback({
           eventType: payload.eventType as 'INSERT' | 'UPDATE' | 'DELETE',
           new: payload.new as T | null,
@@ -0,0 +1,113 @@
+/**
+ * BookBuddy Export Service
+ * Writes the local library to a CSV, JSON or Markdown file, or an image, and opens the share sheet
+ */
+
+import { Share } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as local from '../database/library';
+import {
+  buildCsv,
+  buildJson,
+  buildMarkdown,
+  type ExportData,
+  type ExportFormat,
+} from '../utils/export';
+import type {
+  Book,
+  BookRead,
+  Bookshelf,
+  BookshelfItem,
+  Highlight,
+  Note,
+  ReadingGoal,
+  ReadingSession,
+  ReadingStreak,
+} from '../stores/appStore';
+
+export type { ExportFormat } from '../utils/export';
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  markdown: 'text/markdown',
+};
+
+class ExportService {
+  private directory = new Directory(Paths.cache, 'exports');
+
+  /**
+   * Everything the user has on this device, read straight from SQLite
+   */
+  async loadData(userId: string): Promise<ExportData> {
+    const [books, reads, notes, highlights, sessions, shelves, shelfItems, goals, streak] = await Promise.all([
+      local.loadBooks<Book>(userId),
+      local.loadReads<BookRead>(userId),
+      local.loadNotes<Note>(userId),
+      local.loadHighlights<Highlight>(userId),
+      local.loadSessions<ReadingSession>(userId),
+      local.loadShelves<Bookshelf>(userId),
+      local.loadShelfItems<BookshelfItem>(userId),
+      local.loadTable<ReadingGoal>('reading_goals', userId),
+      local.loadStreak<ReadingStreak>(userId),
+    ]);
+    return { books, reads, notes, highlights, sessions, shelves, shelfItems, goals, streak };
+  }
+
+  /**
+   * Write the export file and return it; an earlier export from the same day is replaced
+   */
+  async writeExport(userId: string, format: ExportFormat, now: Date = new Date()): Promise<File> {
+    const data = await this.loadData(userId);
+    const content = format === 'csv'
+      ? buildCsv(data)
+      : format === 'json'
+        ? buildJson(data, now)
+        : buildMarkdown(data, now);
+
+    this.directory.create({ idempotent: true, intermediates: true });
+    const file = new File(this.directory, `bookbuddy-${now.toISOString().slice(0, 10)}.${FILE_EXTENSIONS[format]}`);
+    if (file.exists) file.delete();
+    file.create();
+    file.write(content);
+    return file;
+  }
+
+  /**
+   * Share a PNG given as base64, e.g. a rendered summary card.
+   * Where files cannot be shared (the web), `message` is shared as text instead.
+   */
+  async shareImage(base64: string, name: string, message: string): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      await Share.share({ message, title: name });
+      return;
+    }
+
+    this.directory.create({ idempotent: true, intermediates: true });
+    const file = new File(this.directory, `${name}.png`);
+    if (file.exists) file.delete();
+    file.create();
+    file.write(base64, { encoding: 'base64' });
+    await Sharing.shareAsync(file.uri, { mimeType: 'image/png', UTI: 'public.png', dialogTitle: name });
+  }
+
+  async exportLibrary(userId: string, format: ExportFormat): Promise<void> {
+    const file = await this.writeExport(userId, format);
+    // Where files cannot be shared (the web), the file's contents are shared as text
+    if (!(await Sharing.isAvailableAsync())) {
+      await Share.share({ message: await file.text(), title: file.name });
+      return;
+    }
+    await Sharing.shareAsync(file.uri, { mimeType: MIME_TYPES[format], dialogTitle: file.name });
+  }
+}
+
+export const exportService = new ExportService();
+export default exportService;
@@ -0,0 +1,64 @@
+/**
+ * Fixture Metadata Provider
+ * Answers lookups from a fixed in-memory catalogue, for tests and offline development
+ */
+
+import type { BookMetadata, BookMetadataProvider, BookSearchQuery } from './types';
+
+export const DEFAULT_FIXTURES: BookMetadata[] = [
+  {
+    title: 'The Hobbit',
+    author: 'J.R.R. Tolkien',
+    isbn: '9780547928227',
+    total_pages: 300,
+    cover_url: 'https://covers.openlibrary.org/b/isbn/9780547928227-L.jpg',
+  },
+  {
+    title: 'Dune',
+    author: 'Frank Herbert',
+    isbn: '9780441172719',
+    total_pages: 617,
+    cover_url: 'https://covers.openlibrary.org/b/isbn/9780441172719-L.jpg',
+  },
+  {
+    title: 'Pride and Prejudice',
+    author: 'Jane Austen',
+    isbn: '9780141439518',
+    total_pages: 480,
+    cover_url: 'https://covers.openlibrary.org/b/isbn/9780141439518-L.jpg',
+  },
+  {
+    title: 'Sapiens: A Brief History of Humankind',
+    author: 'Yuval Noah Harari',
+    isbn: '9780062316097',
+    total_pages: 464,
+    cover_url: 'https://covers.openlibrary.org/b/isbn/9780062316097-L.jpg',
+  },
+  {
+    title: 'Atomic Habits',
+    author: 'James Clear',
+    isbn: '9780735211292',
+    total_pages: 320,
+    cover_url: 'https://covers.openlibrary.org/b/isbn/9780735211292-L.jpg',
+  },
+];
+
+const matches = (value: string | undefined, term: string | undefined) =>
+  !term || (value ?? '').toLowerCase().includes(term.trim().toLowerCase());
+
+export class FixtureProvider implements BookMetadataProvider {
+  readonly name = 'fixture';
+
+  constructor(private fixtures: BookMetadata[] = DEFAULT_FIXTURES) {}
+
+  async lookupIsbn(isbn: string): Promise<BookMetadata | null> {
+    return this.fixtures.find((book) => book.isbn === isbn) ?? null;
+  }
+
+  async search(query: BookSearchQuery, limit: number): Promise<BookMetadata[]> {
+    return this.fixtures
+      .filter((book) => matches(book.title, query.title) && matches(book.author, query.author))
+      .filter((book) => matches(book.title, query.query) || matches(book.author, query.query))
+      .slice(0, limit);
+  }
+}
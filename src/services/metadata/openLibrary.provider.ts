@@ -0,0 +1,81 @@
+/**
+ * Open Library Metadata Provider
+ * Looks books up in the public Open Library catalogue over HTTP
+ */
+
+import axios, { type AxiosInstance } from 'axios';
+import { normalizeIsbn } from '../../utils/isbn';
+import type { BookMetadata, BookMetadataProvider, BookSearchQuery } from './types';
+
+const OPEN_LIBRARY_URL = 'https://openlibrary.org';
+const COVERS_URL = 'https://covers.openlibrary.org/b/id';
+
+interface OpenLibraryBook {
+  title?: string;
+  authors?: { name: string }[];
+  number_of_pages?: number;
+  cover?: { small?: string; medium?: string; large?: string };
+}
+
+interface OpenLibrarySearchDoc {
+  title?: string;
+  author_name?: string[];
+  isbn?: string[];
+  number_of_pages_median?: number;
+  cover_i?: number;
+}
+
+export class OpenLibraryProvider implements BookMetadataProvider {
+  readonly name = 'openlibrary';
+  private client: AxiosInstance;
+
+  constructor(baseURL: string = OPEN_LIBRARY_URL) {
+    this.client = axios.create({
+      baseURL,
+      timeout: 10000,
+    });
+  }
+
+  async lookupIsbn(isbn: string): Promise<BookMetadata | null> {
+    const key = `ISBN:${isbn}`;
+    const response = await this.client.get<Record<string, OpenLibraryBook>>('/api/books', {
+      params: { bibkeys: key, format: 'json', jscmd: 'data' },
+    });
+
+    const book = response.data[key];
+    if (!book?.title) return null;
+
+    const result: BookMetadata = { title: book.title, isbn };
+    const author = book.authors?.map((a) => a.name).join(', ');
+    if (author) result.author = author;
+    if (book.number_of_pages) result.total_pages = book.number_of_pages;
+    const cover = book.cover?.large ?? book.cover?.medium;
+    if (cover) result.cover_url = cover;
+    return result;
+  }
+
+  async search(query: BookSearchQuery, limit: number): Promise<BookMetadata[]> {
+    const response = await this.client.get<{ docs: OpenLibrarySearchDoc[] }>('/search.json', {
+      params: {
+        ...(query.query && { q: query.query }),
+        ...(query.title && { title: query.title }),
+        ...(query.author && { author: query.author }),
+        fields: 'title,author_name,isbn,number_of_pages_median,cover_i',
+        limit,
+      },
+    });
+
+    return response.data.docs
+      .filter((doc) => doc.title)
+      .map((doc) => {
+        const result: BookMetadata = { title: doc.title as string };
+        if (doc.author_name?.length) result.author = doc.author_name.join(', ');
+        // Editions are listed in no particular order; prefer one that validates
+        const isbn = doc.isbn?.map(normalizeIsbn).find((value) => value !== null);
+        if (isbn) result.isbn = isbn;
+        if (doc.number_of_pages_median) result.total_pages = doc.number_of_pages_median;
+        if (doc.cover_i) result.cover_url = `${COVERS_URL}/${doc.cover_i}-L.jpg`;
+        return result;
+      });
+  }
+}
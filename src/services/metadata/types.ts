@@ -0,0 +1,27 @@
+/**
+ * Book Metadata Types
+ * Shared shape for catalogue lookups, whichever provider answers them
+ */
+
+export interface BookMetadata {
+  title: string;
+  author?: string;
+  // Normalized ISBN-13
+  isbn?: string;
+  total_pages?: number;
+  cover_url?: string;
+}
+
+export interface BookSearchQuery {
+  // Free text matched against title or author
+  query?: string;
+  title?: string;
+  author?: string;
+}
+
+export interface BookMetadataProvider {
+  readonly name: string;
+  // Resolves to null when the catalogue has no match
+  lookupIsbn(isbn: string): Promise<BookMetadata | null>;
+  search(query: BookSearchQuery, limit: number): Promise<BookMetadata[]>;
+}
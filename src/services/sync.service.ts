@@ -0,0 +1,737 @@
+/**
+ * Sync Service
+ * Replays the local outbox against Supabase in order, retrying with
+ * exponential backoff and resuming as soon as connectivity returns.
+ * Without the cloud_sync entitlement nothing is sent; only deletions are kept
+ * in the outbox, and the rest of the library is uploaded when sync is enabled.
+ * Pulls only fetch rows changed since the last sync plus tombstones for
+ * deletions, and merge remote rows with unsent local edits using updated_at
+ * and the last synced version of each record. A cover saved on the device is
+ * uploaded just before the book that points at it is sent.
+ */
+
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import { getCurrentSession } from './supabase';
+import { coverService } from './cover.service';
+import * as db from './database';
+import * as outbox from '../database/outbox';
+import * as local from '../database/library';
+import * as syncState from '../database/syncState';
+import { TABLE_COLUMNS, type LocalTable } from '../database/schema';
+import { changedFields, mergeRecord } from '../utils/merge';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// After this many failures an entry is parked as 'failed'. Later entries for the same
+// record, and rows referencing it, wait behind a parked or retrying entry; others go ahead.
+const MAX_ATTEMPTS = 10;
+
+// PostgREST: no rows matched a single-row update (record already deleted remotely)
+const NO_ROWS_ERROR_CODE = 'PGRST116';
+
+// Rows per request when pulling changes; stays under the PostgREST max-rows cap
+const PULL_PAGE_SIZE = 500;
+
+// Rows per request when inserting new records in bulk, e.g. an import
+const INSERT_BATCH_SIZE = 100;
+
+// Supabase table holding one row per deleted record (see 002_delta_sync.sql)
+const TOMBSTONES_TABLE = 'deleted_records';
+
+// Pulled in this order so child rows arrive after their books
+const SYNCED_TABLES: LocalTable[] = [
+  'books',
+  'book_reads',
+  'bookshelves',
+  'bookshelf_items',
+  'notes',
+  'highlights',
+  'reading_sessions',
+  'reading_streaks',
+  'reading_goals',
+  'achievements',
+];
+
+/**
+ * Tables merged field by field when both sides changed.
+ * A field changed on both sides is never auto-resolved; the user picks a side.
+ */
+const MERGEABLE_TABLES = new Set<LocalTable>(['books', 'notes']);
+
+// Columns pointing at a parent row, which has to reach the server before its children
+const PARENT_COLUMNS: Record<string, LocalTable> = {
+  book_id: 'books',
+  bookshelf_id: 'bookshelves',
+};
+
+// One row per user (and badge); ids differ between devices, so upserts match on these
+const UPSERT_CONFLICT_KEYS: Partial<Record<LocalTable, string>> = {
+  reading_streaks: 'user_id,app_id',
+  achievements: 'user_id,app_id,achievement_id',
+};
+
+type SyncRecord = Record<string, unknown> & { id: string; updated_at?: string };
+type Tombstone = { table_name: string; record_id: string; deleted_at: string };
+type PendingListener = (count: number) => void;
+
+export type NetworkStatus = 'online' | 'offline' | 'wifi_required';
+
+export interface SyncOptions {
+  // The user is entitled to cloud sync; otherwise the library stays on the device
+  cloudSync: boolean;
+  // Send queued changes as soon as they are made and when connectivity returns
+  autoSync: boolean;
+  // Hold all traffic while on cellular
+  wifiOnly: boolean;
+}
+
+// Outcome of pulling one stream: a local table or the tombstones
+export interface PullResult {
+  stream: LocalTable | typeof TOMBSTONES_TABLE;
+  error: string | null;
+}
+type ConflictListener = () => void;
+type SendResult = 'sent' | 'requeued';
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+const isReachable = (state: NetInfoState) =>
+  !!state.isConnected && state.isInternetReachable !== false;
+
+const isUnmetered = (state: NetInfoState) => state.type === 'wifi' || state.type === 'ethernet';
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : (error as { message?: string })?.message || String(error);
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class SyncService {
+  private options: SyncOptions = { cloudSync: false, autoSync: true, wifiOnly: true };
+  private netState: NetInfoState | null = null;
+  private networkStatus: NetworkStatus = 'online';
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private flushRequested = false;
+  private listeners = new Set<PendingListener>();
+  private conflictListeners = new Set<ConflictListener>();
+
+  /**
+   * Start watching connectivity and replay anything left from a previous run
+   */
+  start(): void {
+    if (this.unsubscribeNetInfo) return;
+
+    this.unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      this.netState = state;
+      this.updateNetworkStatus();
+    });
+
+    if (this.options.autoSync) {
+      this.flush().catch(console.warn);
+    }
+  }
+
+  /**
+   * Apply the user's sync settings; takes effect immediately
+   */
+  configure(options: SyncOptions): void {
+    const wasEnabled = this.options.cloudSync;
+    this.options = options;
+    this.updateNetworkStatus();
+
+    if (options.cloudSync && !wasEnabled && options.autoSync) {
+      this.flush().catch(console.warn);
+    }
+  }
+
+  /**
+   * Whether the current connection may be used for sync
+   */
+  getNetworkStatus(): NetworkStatus {
+    return this.networkStatus;
+  }
+
+  stop(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.clearRetryTimer();
+  }
+
+  /**
+   * Queue a change that has already been written locally and try to send it
+   */
+  async enqueue(mutation: outbox.OutboxMutation): Promise<void> {
+    // Local-only: creates and edits are picked up by uploadLibrary later,
+    // but a deletion leaves nothing behind to upload, so it is held
+    if (!this.options.cloudSync && mutation.operation !== 'delete') return;
+
+    await outbox.enqueue(mutation);
+    await this.notifyPending(mutation.userId);
+    if (this.options.autoSync) {
+      this.flush().catch(console.warn);
+    }
+  }
+
+  /**
+   * Send many new records that have already been written locally, a batch per request.
+   * A batch that cannot be inserted (offline, or it failed) is queued record by record instead.
+   */
+  async insertMany(userId: string, table: LocalTable, records: Array<{ id: string }>): Promise<void> {
+    // Local-only: picked up by uploadLibrary when sync is enabled
+    if (!this.options.cloudSync || records.length === 0) return;
+
+    for (let start = 0; start < records.length; start += INSERT_BATCH_SIZE) {
+      const batch = records.slice(start, start + INSERT_BATCH_SIZE);
+
+      if (this.networkStatus === 'online') {
+        const { data, error } = await db.createMany<SyncRecord>(table, batch);
+        if (!error) {
+          if (MERGEABLE_TABLES.has(table)) {
+            for (const record of data ?? []) {
+              await syncState.saveBase(table, record);
+            }
+          }
+          continue;
+        }
+        console.warn(`Bulk insert into ${table} failed, queueing instead:`, errorMessage(error));
+      }
+
+      for (const record of batch) {
+        await outbox.enqueue({ userId, table, operation: 'upsert', recordId: record.id, payload: { ...record } });
+      }
+    }
+
+    await this.notifyPending(userId);
+    if (this.options.autoSync) {
+      this.flush().catch(console.warn);
+    }
+  }
+
+  /**
+   * Replay pending entries for the signed-in user.
+   * Concurrent calls share one run; a call made mid-run triggers one more pass.
+   */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushRequested = true;
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      do {
+        this.flushRequested = false;
+        await this.replay();
+      } while (this.flushRequested);
+    })().finally(() => {
+      this.flushing = null;
+    });
+
+    return this.flushing;
+  }
+
+  async getPendingCount(): Promise<number> {
+    const session = await getCurrentSession();
+    if (!session?.user) return 0;
+    return outbox.countPending(session.user.id);
+  }
+
+  /**
+   * Subscribe to changes in the number of pending entries
+   */
+  onPendingChange(listener: PendingListener): () => void {
+    this.listeners.add(listener);
+    this.getPendingCount().then(listener, console.warn);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to newly detected conflicts
+   */
+  onConflict(listener: ConflictListener): () => void {
+    this.conflictListeners.add(listener);
+    return () => {
+      this.conflictListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Bring everything changed remotely since the last pull into the local database,
+   * then apply deletions made on other devices.
+   * A failing stream does not stop the others; each outcome is reported.
+   */
+  async pullChanges(userId: string): Promise<PullResult[]> {
+    const results: PullResult[] = [];
+
+    for (const table of SYNCED_TABLES) {
+      try {
+        await this.pullPages<SyncRecord>(userId, table, 'updated_at', (rows) =>
+          this.applyRemoteRows(table, userId, rows)
+        );
+        results.push({ stream: table, error: null });
+      } catch (error) {
+        results.push({ stream: table, error: errorMessage(error) });
+      }
+    }
+
+    try {
+      await this.pullPages<Tombstone>(userId, TOMBSTONES_TABLE, 'deleted_at', async (tombstones) => {
+        for (const tombstone of tombstones) {
+          if (tombstone.table_name in TABLE_COLUMNS) {
+            await this.applyDeletion(userId, tombstone.table_name as LocalTable, tombstone.record_id);
+          }
+        }
+      });
+      results.push({ stream: TOMBSTONES_TABLE, error: null });
+    } catch (error) {
+      results.push({ stream: TOMBSTONES_TABLE, error: errorMessage(error) });
+    }
+
+    return results;
+  }
+
+  /**
+   * Queue the local library for upload, e.g. when cloud sync becomes available.
+   * Records unchanged since they were last synced are skipped; edited ones are
+   * sent as guarded updates so changes from other devices are merged.
+   */
+  async uploadLibrary(userId: string): Promise<void> {
+    for (const table of SYNCED_TABLES) {
+      const records = await local.loadTable<SyncRecord>(table, userId);
+      const conflictKey = UPSERT_CONFLICT_KEYS[table];
+
+      for (const record of records) {
+        const base = MERGEABLE_TABLES.has(table)
+          ? await syncState.getBase<SyncRecord>(table, record.id)
+          : null;
+
+        if (base) {
+          const changes = changedFields(base, record, TABLE_COLUMNS[table]);
+          if (Object.keys(changes).length === 0) continue;
+          await outbox.enqueue({
+            userId,
+            table,
+            operation: 'update',
+            recordId: record.id,
+            payload: { ...changes, updated_at: record.updated_at },
+          });
+        } else if (conflictKey) {
+          const { id, ...payload } = record;
+          await outbox.enqueue({ userId, table, operation: 'upsert', recordId: id, payload, onConflict: conflictKey });
+        } else {
+          await outbox.enqueue({ userId, table, operation: 'upsert', recordId: record.id, payload: record });
+        }
+      }
+    }
+
+    await this.notifyPending(userId);
+  }
+
+  /**
+   * Apply a single change pushed over Realtime, the same way a pull would.
+   * The delta cursor is left alone; the next pull re-reads the row harmlessly.
+   */
+  async applyRemoteChange(
+    table: LocalTable,
+    userId: string,
+    eventType: 'INSERT' | 'UPDATE' | 'DELETE',
+    record: SyncRecord
+  ): Promise<void> {
+    if (eventType === 'DELETE') {
+      await this.applyDeletion(userId, table, record.id);
+    } else {
+      await this.applyRemoteRows(table, userId, [record]);
+    }
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  /**
+   * Page through rows of a remote table at or after the stored cursor, oldest first.
+   * Rows sharing the cursor timestamp are re-read, so applying a page must be idempotent.
+   */
+  private async pullPages<T extends Record<string, unknown>>(
+    userId: string,
+    table: string,
+    column: string,
+    apply: (rows: T[]) => Promise<void>
+  ): Promise<void> {
+    let cursor = await syncState.getCursor(userId, table);
+    let offset = 0;
+
+    for (;;) {
+      const { data, error } = await db.fetchAll<T>(table, {
+        filters: cursor ? [{ column, operator: 'gte', value: cursor }] : [],
+        orderBy: { column, ascending: true },
+        limit: PULL_PAGE_SIZE,
+        offset,
+      });
+      if (error) throw error;
+
+      const rows = data || [];
+      await apply(rows);
+
+      const last = rows[rows.length - 1]?.[column];
+      if (typeof last === 'string') {
+        // A full page with one timestamp cannot move the cursor; step past it instead
+        offset = last === cursor ? offset + rows.length : 0;
+        cursor = last;
+        await syncState.saveCursor(userId, table, cursor);
+      }
+
+      if (rows.length < PULL_PAGE_SIZE) return;
+    }
+  }
+
+  /**
+   * Records without unsent local changes are fast-forwarded; the rest are merged.
+   * Records with an open conflict keep their local version until it is resolved.
+   */
+  private async applyRemoteRows(table: LocalTable, userId: string, rows: SyncRecord[]): Promise<void> {
+    const unsentIds = await outbox.getUnsentRecordIds(userId, table);
+    const conflictIds = await syncState.getConflictRecordIds(userId, table);
+    const clean: SyncRecord[] = [];
+
+    for (const remote of rows) {
+      if (conflictIds.has(remote.id)) {
+        // Resolving the conflict then works against the newest remote version
+        await syncState.updateConflictRemote(table, remote);
+        await syncState.saveBase(table, remote);
+      } else if (unsentIds.has(remote.id)) {
+        await this.reconcile(table, userId, remote);
+      } else {
+        clean.push(remote);
+      }
+    }
+
+    await local.saveRecords(table, clean);
+    if (MERGEABLE_TABLES.has(table)) {
+      await syncState.saveBases(table, clean);
+    }
+  }
+
+  /**
+   * Remove a record deleted on another device, along with any unsent edits to it.
+   * A deleted book or shelf also takes what is attached to it, including rows never uploaded.
+   */
+  private async applyDeletion(userId: string, table: LocalTable, recordId: string): Promise<void> {
+    if (table === 'books') {
+      const [notes, highlights, sessions, shelfItems, reads] = await Promise.all([
+        local.loadNotes<SyncRecord>(userId, recordId),
+        local.loadHighlights<SyncRecord>(userId, recordId),
+        local.loadSessions<SyncRecord>(userId, recordId),
+        local.loadShelfItems<SyncRecord & { book_id: string }>(userId),
+        local.loadReads<SyncRecord>(userId, recordId),
+      ]);
+      for (const note of notes) {
+        await this.discardRecord(userId, 'notes', note.id);
+      }
+      for (const highlight of highlights) {
+        await this.discardRecord(userId, 'highlights', highlight.id);
+      }
+      for (const session of sessions) {
+        await this.discardRecord(userId, 'reading_sessions', session.id);
+      }
+      for (const item of shelfItems.filter((i) => i.book_id === recordId)) {
+        await this.discardRecord(userId, 'bookshelf_items', item.id);
+      }
+      for (const read of reads) {
+        await this.discardRecord(userId, 'book_reads', read.id);
+      }
+      await local.removeBook(recordId);
+    } else if (table === 'bookshelves') {
+      const items = await local.loadShelfItems<SyncRecord>(userId, recordId);
+      for (const item of items) {
+        await this.discardRecord(userId, 'bookshelf_items', item.id);
+      }
+      await local.removeShelf(recordId);
+    } else {
+      await local.removeRecord(table, recordId);
+    }
+
+    await this.discardRecord(userId, table, recordId);
+  }
+
+  private async discardRecord(userId: string, table: LocalTable, recordId: string): Promise<void> {
+    await outbox.removeEntriesForRecord(userId, table, recordId);
+    if (MERGEABLE_TABLES.has(table)) {
+      await syncState.removeBase(table, recordId);
+      await syncState.removeConflictsForRecord(table, recordId);
+    }
+  }
+
+  /**
+   * Merge a remote record into a local record that has unsent changes.
+   * Rewrites the record's outbox entries so only winning local fields are sent.
+   * Returns false when the queued entries were left as they are.
+   */
+  private async reconcile(table: LocalTable, userId: string, remote: SyncRecord): Promise<boolean> {
+    if (!MERGEABLE_TABLES.has(table)) return false; // Unsent local changes win for non-mergeable tables
+
+    const localRecord = await local.loadRecord<SyncRecord>(table, remote.id);
+    if (!localRecord) return false; // Deleted locally; the queued delete will be sent
+
+    const base = await syncState.getBase<SyncRecord>(table, remote.id);
+    if (base && base.updated_at === remote.updated_at) return false; // Remote unchanged since last sync
+
+    const { merged, localChanges, conflictingFields } = mergeRecord(
+      base,
+      localRecord,
+      remote,
+      TABLE_COLUMNS[table]
+    );
+
+    await outbox.removeEntriesForRecord(userId, table, remote.id);
+    await syncState.saveBase(table, remote);
+
+    if (conflictingFields.length > 0) {
+      // Keep the local version on screen until the user resolves it
+      await syncState.saveConflict(userId, table, localRecord, remote);
+      this.conflictListeners.forEach((listener) => listener());
+      return true;
+    }
+
+    await local.saveRecord(table, merged);
+    if (Object.keys(localChanges).length > 0) {
+      await outbox.enqueue({
+        userId,
+        table,
+        operation: 'update',
+        recordId: remote.id,
+        payload: { ...localChanges, updated_at: merged.updated_at },
+      });
+    }
+    return true;
+  }
+
+  private async replay(): Promise<void> {
+    if (!this.options.cloudSync || this.networkStatus !== 'online') return;
+
+    const session = await getCurrentSession();
+    const userId = session?.user?.id;
+    if (!userId) return;
+
+    const entries = await outbox.getPending(userId);
+    // Records whose entries wait this pass, starting with those parked earlier
+    const held = await outbox.getFailedRecordKeys(userId);
+    let retryInMs: number | null = null;
+    const holdForRetry = (key: string, delayMs: number) => {
+      held.add(key);
+      retryInMs = retryInMs === null ? delayMs : Math.min(retryInMs, delayMs);
+    };
+
+    for (const entry of entries) {
+      const key = outbox.recordKey(entry.table_name, entry.record_id);
+      if (held.has(key) || this.hasHeldParent(entry, held)) {
+        held.add(key);
+        continue;
+      }
+
+      if (entry.next_attempt_at) {
+        const waitMs = Date.parse(entry.next_attempt_at) - Date.now();
+        if (waitMs > 0) {
+          holdForRetry(key, waitMs);
+          continue;
+        }
+      }
+
+      try {
+        const result = await this.send(entry);
+        if (result === 'requeued') {
+          // The record was merged and its entries rewritten; start a fresh pass
+          this.flushRequested = true;
+          break;
+        }
+        await outbox.removeEntry(entry.id);
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const message = errorMessage(error);
+
+        if (attempts >= MAX_ATTEMPTS) {
+          console.warn(`Giving up on ${entry.operation} ${entry.table_name}/${entry.record_id}:`, message);
+          await outbox.recordFailure(entry.id, attempts, message, null, 'failed');
+          held.add(key);
+          continue;
+        }
+
+        const delay = getRetryDelay(attempts);
+        await outbox.recordFailure(
+          entry.id,
+          attempts,
+          message,
+          new Date(Date.now() + delay).toISOString()
+        );
+        holdForRetry(key, delay);
+      }
+    }
+
+    if (retryInMs !== null) this.scheduleRetry(retryInMs);
+    await this.notifyPending(userId);
+  }
+
+  /**
+   * Whether the entry carries a reference to a parent whose own entries are held back,
+   * e.g. a note for a book the server has not accepted yet
+   */
+  private hasHeldParent(entry: outbox.OutboxEntry, held: Set<string>): boolean {
+    return Object.entries(PARENT_COLUMNS).some(([column, parentTable]) => {
+      const parentId = entry.payload?.[column];
+      return typeof parentId === 'string' && held.has(outbox.recordKey(parentTable, parentId));
+    });
+  }
+
+  /**
+   * Upload a cover saved on the device before the book row pointing at it is sent,
+   * then point the queued entry and the local book at the uploaded copy
+   */
+  private async withUploadedCover(entry: outbox.OutboxEntry): Promise<outbox.OutboxEntry> {
+    const cover = entry.payload?.cover_url;
+    if (entry.table_name !== 'books' || typeof cover !== 'string' || !coverService.isLocalCover(cover)) {
+      return entry;
+    }
+
+    const url = await coverService.uploadCover(entry.user_id, entry.record_id, cover);
+    const payload = { ...entry.payload, cover_url: url };
+    // A retry after a failed send reuses the upload
+    await outbox.updatePayload(entry.id, payload);
+
+    const book = await local.loadRecord<SyncRecord>('books', entry.record_id);
+    if (book?.cover_url === cover) {
+      await local.patchRecord('books', entry.record_id, { cover_url: url });
+    }
+    return { ...entry, payload };
+  }
+
+  private async send(queued: outbox.OutboxEntry): Promise<SendResult> {
+    const entry = await this.withUploadedCover(queued);
+    const table = entry.table_name;
+    const tracksBase = MERGEABLE_TABLES.has(table);
+
+    switch (entry.operation) {
+      case 'upsert': {
+        // Upsert keeps replays idempotent if a previous attempt reached the server
+        const { data, error } = await db.upsert<SyncRecord>(table, entry.payload ?? {}, {
+          onConflict: entry.on_conflict ?? 'id',
+        });
+        if (error) throw error;
+        if (tracksBase && data) await syncState.saveBase(table, data);
+        return 'sent';
+      }
+      case 'update': {
+        if (!tracksBase) {
+          const { error } = await db.update(table, entry.record_id, entry.payload ?? {});
+          if (error && error.code !== NO_ROWS_ERROR_CODE) throw error;
+          return 'sent';
+        }
+        return this.sendGuardedUpdate(entry);
+      }
+      case 'delete': {
+        const { error } = await db.remove(table, entry.record_id);
+        if (error) throw error;
+        if (tracksBase) await syncState.removeBase(table, entry.record_id);
+        return 'sent';
+      }
+    }
+  }
+
+  /**
+   * Update only if the remote row is still the version we last synced.
+   * If another device changed it first, merge instead of overwriting.
+   */
+  private async sendGuardedUpdate(entry: outbox.OutboxEntry): Promise<SendResult> {
+    const table = entry.table_name;
+    const base = await syncState.getBase<SyncRecord>(table, entry.record_id);
+
+    const filters: NonNullable<db.QueryOptions['filters']> = [
+      { column: 'id', operator: 'eq', value: entry.record_id },
+    ];
+    if (base?.updated_at) {
+      filters.push({ column: 'updated_at', operator: 'eq', value: base.updated_at });
+    }
+
+    const { data, error } = await db.updateWhere<SyncRecord>(table, entry.payload ?? {}, filters);
+    if (error) throw error;
+
+    const updated = data?.[0];
+    if (updated) {
+      await syncState.saveBase(table, updated);
+      return 'sent';
+    }
+
+    const { data: remote, error: fetchError } = await db.fetchById<SyncRecord>(table, entry.record_id);
+    if (fetchError?.code === NO_ROWS_ERROR_CODE || !remote) {
+      return 'sent'; // Deleted remotely; nothing left to update
+    }
+    if (fetchError) throw fetchError;
+
+    const rewritten = await this.reconcile(table, entry.user_id, remote);
+    return rewritten ? 'requeued' : 'sent';
+  }
+
+  private updateNetworkStatus(): void {
+    const previous = this.networkStatus;
+
+    if (this.netState && !isReachable(this.netState)) {
+      this.networkStatus = 'offline';
+    } else if (this.netState && this.options.wifiOnly && !isUnmetered(this.netState)) {
+      this.networkStatus = 'wifi_required';
+    } else {
+      this.networkStatus = 'online';
+    }
+
+    if (
+      this.networkStatus === 'online' &&
+      previous !== 'online' &&
+      this.options.autoSync &&
+      this.options.cloudSync
+    ) {
+      this.resumeAfterReconnect().catch(console.warn);
+    }
+  }
+
+  private async resumeAfterReconnect(): Promise<void> {
+    const session = await getCurrentSession();
+    if (session?.user) {
+      await outbox.clearRetryDelays(session.user.id);
+    }
+    this.clearRetryTimer();
+    await this.flush();
+  }
+
+  private scheduleRetry(delayMs: number): void {
+    this.clearRetryTimer();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush().catch(console.warn);
+    }, delayMs);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async notifyPending(userId: string): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const count = await outbox.countPending(userId);
+    this.listeners.forEach((listener) => listener(count));
+  }
+}
+
+export const syncService = new SyncService();
+export default syncService;
@@ -1,14 +1,35 @@
 /**
  * BookBuddy App Store
- * Sync-enabled Zustand store with Supabase backend and local caching
+ * Offline-first Zustand store: SQLite is the source of truth, Supabase is synced in the background
  */
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
-import { supabase, getCurrentUser, initializeAppContext } from '../services/supabase';
+import { supabase, initializeAppContext } from '../services/supabase';
 import * as db from '../services/database';
+import * as local from '../database/library';
+import * as outbox from '../database/outbox';
+import * as syncState from '../database/syncState';
+import type { SyncConflict } from '../database/syncState';
+import { TABLE_COLUMNS } from '../database/schema';
+import { syncService } from '../services/sync.service';
+import { coverService } from '../services/cover.service';
+import { generateId } from '../utils/helpers';
+import { changedFields } from '../utils/merge';
+import { toLocalDayKey } from '../utils/dates';
+import { calculateStreak } from '../utils/streaks';
+import { normalizeIsbn } from '../utils/isbn';
+import type { LibraryView } from '../utils/library';
+import { applyProgress, applyStatusAction, type BookStatusAction } from '../utils/bookStatus';
+import { findCurrentRead, isSameInstant, readFieldsFromBook, sortReads, type ReadFields } from '../utils/bookReads';
+import type { ImportedBook } from '../utils/importers';
+import { findDuplicateGoals } from '../utils/goals';
+import { findNewAchievements } from '../utils/achievements';
+import { notificationService } from '../services/notification.service';
+import { useSubscriptionStore } from './subscriptionStore';
+import { getRemainingCount } from '../config/premiumFeatures';
 
 // ============================================================================
 // TYPES
@@ -19,21 +40,48 @@ export interface Book {
   user_id?: string;
   title: string;
   author: string;
-  isbn?: string;
-  cover_url?: string;
+  isbn?: string | null;
+  cover_url?: string | null;
   total_pages: number;
   current_page: number;
   progress: number;
-  category?: string;
-  rating?: number;
+  category?: string | null;
+  // Half-star steps from 0.5 to 5
+  rating?: number | null;
   status: 'to_read' | 'reading' | 'finished' | 'dnf';
   date_added: string;
-  date_started?: string;
-  date_finished?: string;
+  // Cleared (null) when a status change resets them
+  date_started?: string | null;
+  date_finished?: string | null;
+  dnf_reason?: string | null;
+  review?: string | null;
+  // Hide the review behind a tap so it does not spoil the book
+  review_spoiler?: boolean;
   created_at?: string;
   updated_at?: string;
 }
 
+// One read of a book; re-reading a book starts a new one
+export interface BookRead {
+  id: string;
+  user_id?: string;
+  book_id: string;
+  status: Exclude<Book['status'], 'to_read'>;
+  current_page: number;
+  progress: number;
+  rating?: number | null;
+  date_started: string | null;
+  date_finished: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A book found by searching the library; matchedNote is set when only a note's text matched
+export interface LibrarySearchResult {
+  book: Book;
+  matchedNote: boolean;
+}
+
 export interface Note {
   id: string;
   user_id?: string;
@@ -54,6 +102,24 @@ export interface Highlight {
   created_at: string;
 }
 
+export interface ReadingSession {
+  id: string;
+  user_id?: string;
+  book_id: string;
+  pages_read: number;
+  duration_minutes?: number;
+  started_at: string;
+  ended_at?: string;
+  created_at: string;
+}
+
+// A timer running on this device; becomes a ReadingSession when stopped
+export interface ActiveReadingSession {
+  book_id: string;
+  started_at: string;
+  start_page: number;
+}
+
 export interface ReadingStreak {
   id?: string;
   current_streak: number;
@@ -61,11 +127,66 @@ export interface ReadingStreak {
   last_read_date: string | null;
 }
 
+export type GoalPeriod = 'yearly' | 'monthly' | 'weekly' | 'custom';
+export type GoalMetric = 'books' | 'pages' | 'minutes';
+
 export interface ReadingGoal {
-  id?: string;
-  year: number;
-  target_books: number;
-  target_pages?: number;
+  id: string;
+  user_id?: string;
+  period: GoalPeriod;
+  metric: GoalMetric;
+  target: number;
+  // YYYY-MM-DD; a custom goal runs from start to end, a repeating one stops after end if set
+  start_date: string;
+  end_date: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type GoalInput = Pick<ReadingGoal, 'period' | 'metric' | 'target' | 'start_date' | 'end_date'>;
+
+// A badge the user has earned; see ACHIEVEMENTS for the rules
+export interface UnlockedAchievement {
+  id: string;
+  user_id?: string;
+  achievement_id: string;
+  unlocked_at: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Bookshelf {
+  id: string;
+  user_id?: string;
+  name: string;
+  description?: string;
+  // Created for every user and cannot be deleted
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BookshelfItem {
+  id: string;
+  user_id?: string;
+  bookshelf_id: string;
+  book_id: string;
+  added_at: string;
+  updated_at: string;
+}
+
+export type ConflictResolution = 'local' | 'remote' | 'both';
+
+export interface SyncSettings {
+  autoSync: boolean;
+  syncOnWifiOnly: boolean;
+  // Send queued changes when the app is sent to the background
+  backgroundSync: boolean;
+}
+
+export interface StreamSyncStatus {
+  lastSyncedAt: string | null;
+  lastError: string | null;
 }
 
 export interface User {
@@ -82,16 +203,37 @@ interface AppState {
 
   // Data
   books: Book[];
+  bookReads: BookRead[];
   notes: Note[];
   highlights: Highlight[];
+  readingSessions: ReadingSession[];
+  activeSession: ActiveReadingSession | null;
   readingStreak: ReadingStreak;
-  readingGoal: ReadingGoal | null;
+  readingGoals: ReadingGoal[];
+  unlockedAchievements: UnlockedAchievement[];
+  bookshelves: Bookshelf[];
+  bookshelfItems: BookshelfItem[];
+  noteConflicts: SyncConflict<Note>[];
+  bookConflicts: SyncConflict<Book>[];
+  // Users whose achievements earned before badges existed were unlocked quietly on this device
+  achievementsBackfilled: string[];
 
   // Sync state
   isLoading: boolean;
   isSyncing: boolean;
   lastSyncedAt: string | null;
   pendingChanges: number;
+  syncSettings: SyncSettings;
+  // Mirrors the cloud_sync entitlement; false means the library is local-only
+  cloudSyncEnabled: boolean;
+  // Set when cloud sync is switched on; the next sync uploads the local library
+  needsLibraryUpload: boolean;
+  // Pull outcome per table (and 'deleted_records' for tombstones)
+  streamStatus: Record<string, StreamSyncStatus>;
+  // Last Library tab view (filters, sort, grouping) per user id
+  libraryViews: Record<string, LibraryView>;
+  // Outbox state per table
+  syncQueue: Partial<Record<local.LocalTable, outbox.TableQueueStatus>>;
   error: string | null;
 
   // Auth actions
@@ -101,10 +243,18 @@ interface AppState {
 
   // Book actions
   fetchBooks: () => Promise<void>;
+  searchLibrary: (query: string) => Promise<LibrarySearchResult[]>;
   addBook: (book: Omit<Book, 'id' | 'user_id' | 'date_added' | 'progress' | 'created_at' | 'updated_at'>) => Promise<Book | null>;
   updateBook: (id: string, updates: Partial<Book>) => Promise<void>;
   deleteBook: (id: string) => Promise<void>;
   updateBookProgress: (id: string, currentPage: number) => Promise<void>;
+  changeBookStatus: (id: string, action: BookStatusAction, reason?: string) => Promise<void>;
+  setBookCover: (id: string, pickedUri: string) => Promise<string | null>;
+  importBooks: (imported: ImportedBook[]) => Promise<number>;
+
+  // Read history actions
+  fetchReads: (bookId?: string) => Promise<void>;
+  recordBookRead: (previous: Book, updated: Book) => Promise<void>;
 
   // Note actions
   fetchNotes: (bookId?: string) => Promise<void>;
@@ -117,16 +267,52 @@ interface AppState {
   addHighlight: (highlight: Omit<Highlight, 'id' | 'user_id' | 'created_at'>) => Promise<Highlight | null>;
   deleteHighlight: (id: string) => Promise<void>;
 
+  // Reading session actions
+  fetchSessions: (bookId?: string) => Promise<void>;
+  addReadingSession: (session: Omit<ReadingSession, 'id' | 'user_id' | 'created_at'>) => Promise<ReadingSession | null>;
+  startReadingSession: (bookId: string) => void;
+  stopReadingSession: (endPage: number) => Promise<ReadingSession | null>;
+  cancelReadingSession: () => void;
+
   // Streak actions
   fetchStreak: () => Promise<void>;
-  updateReadingStreak: () => Promise<void>;
+  recalculateStreak: () => Promise<void>;
 
   // Goal actions
-  fetchGoal: (year?: number) => Promise<void>;
-  setReadingGoal: (targetBooks: number, targetPages?: number) => Promise<void>;
+  fetchGoals: () => Promise<void>;
+  saveGoal: (goal: GoalInput, id?: string) => Promise<ReadingGoal | null>;
+  deleteGoal: (id: string) => Promise<void>;
+
+  // Achievement actions
+  fetchAchievements: () => Promise<void>;
+  checkAchievements: () => Promise<void>;
+
+  // Shelf actions
+  fetchShelves: () => Promise<void>;
+  createShelf: (name: string, description?: string) => Promise<Bookshelf | null>;
+  updateShelf: (id: string, updates: Partial<Pick<Bookshelf, 'name' | 'description'>>) => Promise<void>;
+  deleteShelf: (id: string) => Promise<void>;
+  addBookToShelf: (shelfId: string, bookId: string) => Promise<void>;
+  removeBookFromShelf: (shelfId: string, bookId: string) => Promise<void>;
+
+  // Conflict actions
+  fetchConflicts: () => Promise<void>;
+  resolveNoteConflict: (conflictId: number, resolution: ConflictResolution) => Promise<void>;
+  resolveBookConflict: (conflictId: number, resolution: Exclude<ConflictResolution, 'both'>) => Promise<void>;
 
   // Sync actions
+  loadLibrary: () => Promise<void>;
   syncAll: () => Promise<void>;
+  startRealtime: () => void;
+  stopRealtime: () => void;
+  updateSyncSettings: (changes: Partial<SyncSettings>) => void;
+  setCloudSyncAccess: (enabled: boolean) => Promise<void>;
+  fetchSyncQueue: () => Promise<void>;
+  retryFailedChanges: () => Promise<void>;
+
+  // Library view actions
+  setLibraryView: (view: LibraryView) => void;
+
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   reset: () => void;
@@ -161,6 +347,53 @@ const deleteFromSecureStore = async (key: string) => {
   }
 };
 
+// ============================================================================
+// REMOTE SYNC HELPERS
+// ============================================================================
+
+/**
+ * Queue a change that has already been written locally for delivery to Supabase.
+ * The outbox survives restarts and is replayed by the sync service.
+ */
+const queueChange = async (mutation: outbox.OutboxMutation) => {
+  try {
+    await syncService.enqueue(mutation);
+  } catch (error) {
+    console.warn(`Failed to queue ${mutation.operation} on ${mutation.table}:`, error);
+  }
+};
+
+// Book fields that are also kept on the book's current read
+const READ_FIELDS: readonly (keyof Book)[] = [
+  'status', 'current_page', 'progress', 'rating', 'date_started', 'date_finished',
+];
+
+// Tables pushed to the device over Realtime while signed in
+const REALTIME_TABLES = ['books', 'notes', 'highlights'] as const;
+
+type RealtimeRecord = Record<string, unknown> & { id: string };
+
+// Open Realtime channels for the signed-in user
+let realtimeUnsubscribers: Array<() => void> = [];
+
+// Achievements are checked once the whole library has loaded for this user, one check at a time
+let achievementsReadyFor: string | null = null;
+let achievementCheck: Promise<void> | null = null;
+let achievementTimer: ReturnType<typeof setTimeout> | null = null;
+
+// A second import started before the first is saved would count the library too early
+let importRunning = false;
+
+/**
+ * Replace, add or drop one record in a state list after a remote change
+ */
+const mergeById = <T extends { id: string }>(items: T[], id: string, record: T | null): T[] => {
+  if (!record) return items.filter((item) => item.id !== id);
+  return items.some((item) => item.id === id)
+    ? items.map((item) => (item.id === id ? record : item))
+    : [record, ...items];
+};
+
 // ============================================================================
 // INITIAL STATE
 // ============================================================================
@@ -169,18 +402,37 @@ const initialState = {
   isAuthenticated: false,
   user: null,
   books: [],
+  bookReads: [],
   notes: [],
   highlights: [],
+  readingSessions: [],
+  activeSession: null,
   readingStreak: {
     current_streak: 0,
     longest_streak: 0,
     last_read_date: null,
   },
-  readingGoal: null,
+  readingGoals: [],
+  unlockedAchievements: [],
+  achievementsBackfilled: [],
+  bookshelves: [],
+  bookshelfItems: [],
+  noteConflicts: [],
+  bookConflicts: [],
   isLoading: false,
   isSyncing: false,
   lastSyncedAt: null,
   pendingChanges: 0,
+  syncSettings: {
+    autoSync: true,
+    syncOnWifiOnly: true,
+    backgroundSync: false,
+  },
+  cloudSyncEnabled: false,
+  needsLibraryUpload: false,
+  streamStatus: {},
+  libraryViews: {},
+  syncQueue: {},
   error: null,
 };
 
@@ -203,20 +455,31 @@ export const useAppStore = create<AppState>()(
           await initializeAppContext();
         } else {
           await deleteFromSecureStore('user_data');
+          get().stopRealtime();
         }
         set({ user, isAuthenticated: !!user });
 
-        // Fetch data after login
+        // Show the local library first, then pull remote changes
         if (user) {
-          get().syncAll();
+          await get().loadLibrary();
+          if (get().syncSettings.autoSync) {
+            get().syncAll();
+            get().startRealtime();
+          }
         }
       },
 
       logout: async () => {
+        get().stopRealtime();
         await supabase.auth.signOut();
         await deleteFromSecureStore('auth_token');
         await deleteFromSecureStore('user_data');
-        set(initialState);
+        coverService.clearCache();
+        achievementsReadyFor = null;
+        // Sync preferences and the entitlement state belong to the device, not the account;
+        // library views and achievement backfills are kept per user for their next sign-in
+        const { syncSettings, cloudSyncEnabled, needsLibraryUpload, libraryViews, achievementsBackfilled } = get();
+        set({ ...initialState, syncSettings, cloudSyncEnabled, needsLibraryUpload, libraryViews, achievementsBackfilled });
       },
 
       restoreSession: async () => {
@@ -229,7 +492,14 @@ export const useAppStore = create<AppState>()(
             avatar_url: session.user.user_metadata?.avatar_url,
           };
           set({ user, isAuthenticated: true });
-          get().syncAll();
+          await get().loadLibrary();
+          if (get().syncSettings.autoSync) {
+            get().syncAll();
+            get().startRealtime();
+          }
+        } else {
+          // Signed out elsewhere (e.g. the auth store)
+          get().stopRealtime();
         }
       },
 
@@ -238,44 +508,82 @@ export const useAppStore = create<AppState>()(
       // ========================================
 
       fetchBooks: async () => {
+        const { user } = get();
+        if (!user) return;
+
         set({ isLoading: true, error: null });
         try {
-          const { data, error } = await db.fetchAll<Book>('books', {
-            orderBy: { column: 'date_added', ascending: false }
-          });
-
-          if (error) throw error;
-          set({ books: data || [], isLoading: false });
+          const books = await local.loadBooks<Book>(user.id);
+          set({ books, isLoading: false });
         } catch (error: any) {
           set({ error: error.message, isLoading: false });
         }
       },
 
+      searchLibrary: async (query) => {
+        const { user } = get();
+        const term = query.trim();
+        if (!user || !term) return [];
+
+        try {
+          // ISBNs are stored as ISBN-13, so match a typed ISBN-10 or hyphenated one too
+          const rows = await local.searchBooks<Book>(user.id, normalizeIsbn(term) ?? term);
+          return rows.map(({ matched_note, ...book }) => ({
+            book: book as Book,
+            matchedNote: matched_note,
+          }));
+        } catch (error: any) {
+          set({ error: error.message });
+          return [];
+        }
+      },
+
       addBook: async (bookData) => {
         set({ isLoading: true, error: null });
         try {
-          const user = await getCurrentUser();
+          const { user } = get();
           if (!user) throw new Error('Not authenticated');
 
-          const newBook: Partial<Book> = {
+          const now = new Date().toISOString();
+          const newBook: Book = {
             ...bookData,
+            id: generateId(),
             user_id: user.id,
             current_page: bookData.current_page || 0,
             progress: 0,
             status: bookData.status || 'to_read',
-            date_added: new Date().toISOString(),
+            date_added: now,
+            created_at: now,
+            updated_at: now,
           };
+          // Added as already reading or finished: fill in the dates that status implies
+          if (newBook.status === 'reading' || newBook.status === 'finished') {
+            const action = newBook.status === 'reading' ? 'start' : 'finish';
+            Object.assign(newBook, applyStatusAction({ ...newBook, status: 'to_read' }, action));
+          }
 
-          const { data, error } = await db.create<Book>('books', newBook);
-          if (error) throw error;
+          await local.saveRecord('books', newBook);
+          set((state) => ({
+            books: [newBook, ...state.books],
+            isLoading: false,
+          }));
 
-          if (data) {
-            set((state) => ({
-              books: [data, ...state.books],
-              isLoading: false,
-            }));
+          queueChange({
+            userId: user.id,
+            table: 'books',
+            operation: 'upsert',
+            recordId: newBook.id,
+            payload: { ...newBook },
+          });
+
+          if (newBook.status !== 'to_read') {
+            const { rating: _rating, ...unrated } = newBook;
+            await get().recordBookRead(
+              { ...unrated, status: 'to_read', date_started: null, date_finished: null },
+              newBook
+            );
           }
-          return data;
+          return newBook;
         } catch (error: any) {
           set({ error: error.message, isLoading: false });
           return null;
@@ -284,14 +592,33 @@ export const useAppStore = create<AppState>()(
 
       updateBook: async (id, updates) => {
         try {
-          const { error } = await db.update<Book>('books', id, updates);
-          if (error) throw error;
+          const { user } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          const previous = get().books.find((book) => book.id === id);
+          const changes: Partial<Book> = {
+            ...updates,
+            updated_at: new Date().toISOString(),
+          };
+          await local.patchRecord('books', id, changes);
 
           set((state) => ({
             books: state.books.map((book) =>
-              book.id === id ? { ...book, ...updates } : book
+              book.id === id ? { ...book, ...changes } : book
             ),
           }));
+
+          queueChange({
+            userId: user.id,
+            table: 'books',
+            operation: 'update',
+            recordId: id,
+            payload: { ...changes },
+          });
+
+          if (previous && READ_FIELDS.some((field) => field in updates)) {
+            await get().recordBookRead(previous, { ...previous, ...changes });
+          }
         } catch (error: any) {
           set({ error: error.message });
         }
@@ -299,14 +626,29 @@ export const useAppStore = create<AppState>()(
 
       deleteBook: async (id) => {
         try {
-          const { error } = await db.remove('books', id);
-          if (error) throw error;
+          const { user } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          await local.removeBook(id);
 
           set((state) => ({
             books: state.books.filter((book) => book.id !== id),
             notes: state.notes.filter((note) => note.book_id !== id),
             highlights: state.highlights.filter((highlight) => highlight.book_id !== id),
+            readingSessions: state.readingSessions.filter((session) => session.book_id !== id),
+            activeSession: state.activeSession?.book_id === id ? null : state.activeSession,
+            bookshelfItems: state.bookshelfItems.filter((item) => item.book_id !== id),
+            bookReads: state.bookReads.filter((read) => read.book_id !== id),
           }));
+          await get().recalculateStreak();
+
+          // Remote reads, notes, highlights, sessions and shelf items are removed by ON DELETE CASCADE
+          queueChange({
+            userId: user.id,
+            table: 'books',
+            operation: 'delete',
+            recordId: id,
+          });
         } catch (error: any) {
           set({ error: error.message });
         }
@@ -316,23 +658,260 @@ export const useAppStore = create<AppState>()(
         const book = get().books.find(b => b.id === id);
         if (!book) return;
 
-        const progress = Math.min(100, Math.round((currentPage / book.total_pages) * 100));
-        const updates: Partial<Book> = {
-          current_page: currentPage,
-          progress,
-        };
+        const updates = applyProgress(book, currentPage);
+        const pagesRead = (updates.current_page ?? book.current_page) - book.current_page;
+
+        await get().updateBook(id, updates);
+
+        // Progress logged without the timer still counts as a session;
+        // a running timer records its own session when stopped
+        if (pagesRead > 0 && get().activeSession?.book_id !== id) {
+          const now = new Date().toISOString();
+          await get().addReadingSession({
+            book_id: id,
+            pages_read: pagesRead,
+            started_at: now,
+            ended_at: now,
+          });
+        }
+      },
+
+      changeBookStatus: async (id, action, reason) => {
+        const book = get().books.find(b => b.id === id);
+        if (!book) return;
+
+        try {
+          const updates = applyStatusAction(book, action, reason !== undefined ? { reason } : {});
+          // A timer left running on a book that is no longer being read would log a bogus session
+          if (updates.status !== 'reading' && get().activeSession?.book_id === id) {
+            set({ activeSession: null });
+          }
+          await get().updateBook(id, updates);
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
 
-        if (progress === 100 && !book.date_finished) {
-          updates.date_finished = new Date().toISOString();
-          updates.status = 'finished';
+      setBookCover: async (id, pickedUri) => {
+        try {
+          // Kept on the device; with cloud sync on, the outbox uploads it along with the book
+          const coverUri = coverService.saveCover(id, pickedUri);
+          await get().updateBook(id, { cover_url: coverUri });
+          return coverUri;
+        } catch (error: any) {
+          set({ error: error.message });
+          return null;
         }
-        if (!book.date_started && currentPage > 0) {
-          updates.date_started = new Date().toISOString();
-          updates.status = 'reading';
+      },
+
+      importBooks: async (imported) => {
+        if (importRunning) return 0;
+        importRunning = true;
+        set({ isLoading: true, error: null });
+        try {
+          const { user, books: library } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          // Free accounts stop at the book limit, however the import was started
+          const remaining = getRemainingCount('books', library.length, useSubscriptionStore.getState().isPremium);
+          const allowed = remaining === 'unlimited' ? imported : imported.slice(0, remaining);
+          if (imported.length > 0 && allowed.length === 0) {
+            throw new Error('Book limit reached. Upgrade to Premium for unlimited books!');
+          }
+
+          const now = new Date().toISOString();
+          const books: Book[] = [];
+          const reads: BookRead[] = [];
+
+          for (const item of allowed) {
+            const finished = item.status === 'finished';
+            // The last read is the one the book's status describes; a read with only a finish date started then too
+            const readDates = item.reads
+              .filter((read) => read.date_started || read.date_finished)
+              .map((read) => ({ date_started: read.date_started ?? read.date_finished, date_finished: read.date_finished }));
+            const currentDates = item.status === 'to_read' ? undefined : readDates.pop();
+
+            const book: Book = {
+              id: generateId(),
+              user_id: user.id,
+              title: item.title,
+              author: item.author || 'Unknown',
+              total_pages: item.total_pages,
+              current_page: finished ? item.total_pages : 0,
+              progress: finished ? 100 : 0,
+              status: item.status,
+              date_added: item.date_added ?? now,
+              date_started: currentDates?.date_started ?? (item.status === 'reading' ? now : null),
+              date_finished: finished ? currentDates?.date_finished ?? null : null,
+              review_spoiler: item.review_spoiler,
+              created_at: now,
+              updated_at: now,
+              ...(item.isbn && { isbn: item.isbn }),
+              ...(item.category && { category: item.category }),
+              ...(item.rating !== null && { rating: item.rating }),
+              ...(item.review && { review: item.review }),
+            };
+            books.push(book);
+
+            const newRead = (fields: ReadFields, rating?: number | null): BookRead => ({
+              ...fields,
+              id: generateId(),
+              user_id: user.id,
+              book_id: book.id,
+              ...(rating != null && { rating }),
+              created_at: now,
+              updated_at: now,
+            });
+            // Earlier reads in the export were all finished
+            for (const dates of readDates) {
+              if (!dates.date_finished) continue;
+              reads.push(newRead({ status: 'finished', current_page: book.total_pages, progress: 100, ...dates }));
+            }
+            const currentFields = readFieldsFromBook(book);
+            if (currentFields) reads.push(newRead(currentFields, item.rating));
+          }
+
+          await local.saveRecords('books', books);
+          await local.saveRecords('book_reads', reads);
+          await Promise.all([get().fetchBooks(), get().fetchReads()]);
+          set({ isLoading: false });
+
+          // Books first, so their reads have something to point at
+          await syncService.insertMany(user.id, 'books', books);
+          await syncService.insertMany(user.id, 'book_reads', reads);
+          return books.length;
+        } catch (error: any) {
+          set({ error: error.message, isLoading: false });
+          return 0;
+        } finally {
+          importRunning = false;
         }
+      },
 
-        await get().updateBook(id, updates);
-        await get().updateReadingStreak();
+      // ========================================
+      // READ HISTORY ACTIONS
+      // ========================================
+
+      fetchReads: async (bookId) => {
+        const { user } = get();
+        if (!user) return;
+
+        try {
+          const reads = await local.loadReads<BookRead>(user.id, bookId);
+          if (bookId) {
+            set((state) => ({
+              bookReads: sortReads([...reads, ...state.bookReads.filter((read) => read.book_id !== bookId)]),
+            }));
+          } else {
+            set({ bookReads: reads });
+          }
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
+
+      recordBookRead: async (previous, updated) => {
+        try {
+          const { user, bookReads } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          const now = new Date().toISOString();
+          const ratingChanged = updated.rating !== previous.rating;
+          const newRead = (fields: ReadFields, rating: number | null | undefined): BookRead => ({
+            ...fields,
+            id: generateId(),
+            user_id: user.id,
+            book_id: updated.id,
+            ...(rating !== undefined && { rating }),
+            created_at: now,
+            updated_at: now,
+          });
+
+          const created: BookRead[] = [];
+          const changed: Array<{ id: string; changes: Partial<BookRead> }> = [];
+          const removed: string[] = [];
+
+          // A read finished before history was kept is recorded once the book moves on from it
+          const previousRead = findCurrentRead(previous, bookReads);
+          if (
+            !previousRead &&
+            (previous.status === 'finished' || previous.status === 'dnf') &&
+            !isSameInstant(previous.date_started, updated.date_started)
+          ) {
+            created.push(newRead({
+              status: previous.status,
+              current_page: previous.current_page,
+              progress: previous.progress,
+              date_started: previous.date_started ?? previous.date_finished ?? null,
+              date_finished: previous.date_finished ?? null,
+            }, previous.rating));
+          }
+
+          const fields = readFieldsFromBook(updated);
+          const currentRead = findCurrentRead(updated, bookReads);
+          if (!fields) {
+            // Moving back to To Read drops a read in progress; finished and DNF reads stay in the history
+            if (previousRead?.status === 'reading') removed.push(previousRead.id);
+          } else if (currentRead) {
+            const changes: Partial<BookRead> = {};
+            for (const [key, value] of Object.entries(fields) as [keyof ReadFields, unknown][]) {
+              const same = key === 'date_started' || key === 'date_finished'
+                ? isSameInstant(currentRead[key], value as string | null)
+                : currentRead[key] === value;
+              if (!same) Object.assign(changes, { [key]: value });
+            }
+            if (ratingChanged) changes.rating = updated.rating ?? null;
+            if (Object.keys(changes).length > 0) {
+              changed.push({ id: currentRead.id, changes: { ...changes, updated_at: now } });
+            }
+          } else {
+            created.push(newRead(fields, ratingChanged ? updated.rating : undefined));
+          }
+
+          for (const read of created) {
+            await local.saveRecord('book_reads', read);
+            queueChange({
+              userId: user.id,
+              table: 'book_reads',
+              operation: 'upsert',
+              recordId: read.id,
+              payload: { ...read },
+            });
+          }
+          for (const { id, changes } of changed) {
+            await local.patchRecord('book_reads', id, changes);
+            queueChange({
+              userId: user.id,
+              table: 'book_reads',
+              operation: 'update',
+              recordId: id,
+              payload: { ...changes },
+            });
+          }
+          for (const id of removed) {
+            await local.removeRecord('book_reads', id);
+            queueChange({
+              userId: user.id,
+              table: 'book_reads',
+              operation: 'delete',
+              recordId: id,
+            });
+          }
+
+          set((state) => ({
+            bookReads: sortReads([
+              ...created,
+              ...state.bookReads
+                .filter((read) => !removed.includes(read.id))
+                .map((read) => {
+                  const update = changed.find((c) => c.id === read.id);
+                  return update ? { ...read, ...update.changes } : read;
+                }),
+            ]),
+          }));
+        } catch (error: any) {
+          set({ error: error.message });
+        }
       },
 
       // ========================================
@@ -340,16 +919,18 @@ export const useAppStore = create<AppState>()(
       // ========================================
 
       fetchNotes: async (bookId) => {
+        const { user } = get();
+        if (!user) return;
+
         try {
-          const options: db.QueryOptions = {
-            orderBy: { column: 'created_at', ascending: false }
-          };
+          const notes = await local.loadNotes<Note>(user.id, bookId);
           if (bookId) {
-            options.filters = [{ column: 'book_id', operator: 'eq', value: bookId }];
+            set((state) => ({
+              notes: [...notes, ...state.notes.filter((note) => note.book_id !== bookId)],
+            }));
+          } else {
+            set({ notes });
           }
-          const { data, error } = await db.fetchAll<Note>('notes', options);
-          if (error) throw error;
-          set({ notes: data || [] });
         } catch (error: any) {
           set({ error: error.message });
         }
@@ -357,23 +938,29 @@ export const useAppStore = create<AppState>()(
 
       addNote: async (noteData) => {
         try {
-          const user = await getCurrentUser();
+          const { user } = get();
           if (!user) throw new Error('Not authenticated');
 
-          const newNote: Partial<Note> = {
+          const now = new Date().toISOString();
+          const newNote: Note = {
             ...noteData,
+            id: generateId(),
             user_id: user.id,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
+            created_at: now,
+            updated_at: now,
           };
 
-          const { data, error } = await db.create<Note>('notes', newNote);
-          if (error) throw error;
+          await local.saveRecord('notes', newNote);
+          set((state) => ({ notes: [newNote, ...state.notes] }));
 
-          if (data) {
-            set((state) => ({ notes: [data, ...state.notes] }));
-          }
-          return data;
+          queueChange({
+            userId: user.id,
+            table: 'notes',
+            operation: 'upsert',
+            recordId: newNote.id,
+            payload: { ...newNote },
+          });
+          return newNote;
         } catch (error: any) {
           set({ error: error.message });
           return null;
@@ -382,19 +969,28 @@ export const useAppStore = create<AppState>()(
 
       updateNote: async (id, content) => {
         try {
-          const { error } = await db.update<Note>('notes', id, {
+          const { user } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          const changes = {
             content,
             updated_at: new Date().toISOString(),
-          });
-          if (error) throw error;
+          };
+          await local.patchRecord('notes', id, changes);
 
           set((state) => ({
             notes: state.notes.map((note) =>
-              note.id === id
-                ? { ...note, content, updated_at: new Date().toISOString() }
-                : note
+              note.id === id ? { ...note, ...changes } : note
             ),
           }));
+
+          queueChange({
+            userId: user.id,
+            table: 'notes',
+            operation: 'update',
+            recordId: id,
+            payload: changes,
+          });
         } catch (error: any) {
           set({ error: error.message });
         }
@@ -402,9 +998,18 @@ export const useAppStore = create<AppState>()(
 
       deleteNote: async (id) => {
         try {
-          const { error } = await db.remove('notes', id);
-          if (error) throw error;
+          const { user } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          await local.removeRecord('notes', id);
           set((state) => ({ notes: state.notes.filter((note) => note.id !== id) }));
+
+          queueChange({
+            userId: user.id,
+            table: 'notes',
+            operation: 'delete',
+            recordId: id,
+          });
         } catch (error: any) {
           set({ error: error.message });
         }
@@ -415,16 +1020,21 @@ export const useAppStore = create<AppState>()(
       // ========================================
 
       fetchHighlights: async (bookId) => {
+        const { user } = get();
+        if (!user) return;
+
         try {
-          const options: db.QueryOptions = {
-            orderBy: { column: 'created_at', ascending: false }
-          };
+          const highlights = await local.loadHighlights<Highlight>(user.id, bookId);
           if (bookId) {
-            options.filters = [{ column: 'book_id', operator: 'eq', value: bookId }];
+            set((state) => ({
+              highlights: [
+                ...highlights,
+                ...state.highlights.filter((highlight) => highlight.book_id !== bookId),
+              ],
+            }));
+          } else {
+            set({ highlights });
           }
-          const { data, error } = await db.fetchAll<Highlight>('highlights', options);
-          if (error) throw error;
-          set({ highlights: data || [] });
         } catch (error: any) {
           set({ error: error.message });
         }
@@ -432,22 +1042,27 @@ export const useAppStore = create<AppState>()(
 
       addHighlight: async (highlightData) => {
         try {
-          const user = await getCurrentUser();
+          const { user } = get();
           if (!user) throw new Error('Not authenticated');
 
-          const newHighlight: Partial<Highlight> = {
+          const newHighlight: Highlight = {
             ...highlightData,
+            id: generateId(),
             user_id: user.id,
             created_at: new Date().toISOString(),
           };
 
-          const { data, error } = await db.create<Highlight>('highlights', newHighlight);
-          if (error) throw error;
+          await local.saveRecord('highlights', newHighlight);
+          set((state) => ({ highlights: [newHighlight, ...state.highlights] }));
 
-          if (data) {
-            set((state) => ({ highlights: [data, ...state.highlights] }));
-          }
-          return data;
+          queueChange({
+            userId: user.id,
+            table: 'highlights',
+            operation: 'upsert',
+            recordId: newHighlight.id,
+            payload: { ...newHighlight },
+          });
+          return newHighlight;
         } catch (error: any) {
           set({ error: error.message });
           return null;
@@ -456,128 +1071,638 @@ export const useAppStore = create<AppState>()(
 
       deleteHighlight: async (id) => {
         try {
-          const { error } = await db.remove('highlights', id);
-          if (error) throw error;
+          const { user } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          await local.removeRecord('highlights', id);
           set((state) => ({
             highlights: state.highlights.filter((h) => h.id !== id)
           }));
+
+          queueChange({
+            userId: user.id,
+            table: 'highlights',
+            operation: 'delete',
+            recordId: id,
+          });
         } catch (error: any) {
           set({ error: error.message });
         }
       },
 
+      // ========================================
+      // READING SESSION ACTIONS
+      // ========================================
+
+      fetchSessions: async (bookId) => {
+        const { user } = get();
+        if (!user) return;
+
+        try {
+          const sessions = await local.loadSessions<ReadingSession>(user.id, bookId);
+          if (bookId) {
+            set((state) => ({
+              readingSessions: [
+                ...sessions,
+                ...state.readingSessions.filter((session) => session.book_id !== bookId),
+              ],
+            }));
+          } else {
+            set({ readingSessions: sessions });
+          }
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
+
+      addReadingSession: async (sessionData) => {
+        try {
+          const { user } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          const newSession: ReadingSession = {
+            ...sessionData,
+            id: generateId(),
+            user_id: user.id,
+            created_at: new Date().toISOString(),
+          };
+
+          await local.saveRecord('reading_sessions', newSession);
+          set((state) => ({ readingSessions: [newSession, ...state.readingSessions] }));
+          await get().recalculateStreak();
+
+          queueChange({
+            userId: user.id,
+            table: 'reading_sessions',
+            operation: 'upsert',
+            recordId: newSession.id,
+            payload: { ...newSession },
+          });
+          return newSession;
+        } catch (error: any) {
+          set({ error: error.message });
+          return null;
+        }
+      },
+
+      startReadingSession: (bookId) => {
+        const book = get().books.find(b => b.id === bookId);
+        if (!book) return;
+
+        set({
+          activeSession: {
+            book_id: bookId,
+            started_at: new Date().toISOString(),
+            start_page: book.current_page,
+          },
+        });
+      },
+
+      stopReadingSession: async (endPage) => {
+        const { activeSession } = get();
+        if (!activeSession) return null;
+
+        const book = get().books.find(b => b.id === activeSession.book_id);
+        if (!book) {
+          set({ activeSession: null });
+          return null;
+        }
+
+        const endedAt = new Date();
+        const durationMinutes = Math.max(
+          1,
+          Math.round((endedAt.getTime() - new Date(activeSession.started_at).getTime()) / 60000)
+        );
+
+        // Still marked active here, so the progress update does not add a second session
+        if (endPage !== book.current_page) {
+          await get().updateBookProgress(book.id, endPage);
+        }
+        set({ activeSession: null });
+
+        return get().addReadingSession({
+          book_id: book.id,
+          pages_read: Math.max(0, endPage - activeSession.start_page),
+          duration_minutes: durationMinutes,
+          started_at: activeSession.started_at,
+          ended_at: endedAt.toISOString(),
+        });
+      },
+
+      cancelReadingSession: () => set({ activeSession: null }),
+
       // ========================================
       // STREAK ACTIONS
       // ========================================
 
       fetchStreak: async () => {
+        const { user } = get();
+        if (!user) return;
+
         try {
-          const { data, error } = await db.fetchAll<ReadingStreak & { id: string }>('reading_streaks', {
-            limit: 1
-          });
-          if (error) throw error;
+          const streak = await local.loadStreak<ReadingStreak>(user.id);
+          set({ readingStreak: streak || initialState.readingStreak });
+        } catch (error: any) {
+          console.warn('Failed to load streak:', error.message);
+        }
+      },
+
+      recalculateStreak: async () => {
+        const { user, readingStreak } = get();
+        if (!user) return;
 
-          if (data && data.length > 0) {
-            set({ readingStreak: data[0] });
+        try {
+          // Rebuilt from every session so edits, deletions and backdated entries are reflected
+          const sessions = await local.loadSessions<ReadingSession>(user.id);
+          const readingDays = sessions
+            .filter((session) => session.pages_read > 0 || (session.duration_minutes ?? 0) > 0)
+            .map((session) => toLocalDayKey(session.started_at));
+          const summary = calculateStreak(readingDays);
+
+          if (
+            summary.current_streak === readingStreak.current_streak &&
+            summary.longest_streak === readingStreak.longest_streak &&
+            summary.last_read_date === readingStreak.last_read_date
+          ) {
+            return;
           }
+
+          const streakId = readingStreak.id || generateId();
+          const newStreak: ReadingStreak = { ...summary, id: streakId };
+          set({ readingStreak: newStreak });
+
+          await local.saveRecord('reading_streaks', {
+            ...newStreak,
+            user_id: user.id,
+            updated_at: new Date().toISOString(),
+          });
+
+          queueChange({
+            userId: user.id,
+            table: 'reading_streaks',
+            operation: 'upsert',
+            recordId: streakId,
+            payload: { ...summary, user_id: user.id },
+            onConflict: 'user_id,app_id',
+          });
         } catch (error: any) {
-          console.warn('Failed to fetch streak:', error.message);
+          console.warn('Failed to recalculate streak:', error.message);
         }
       },
 
-      updateReadingStreak: async () => {
-        const today = new Date().toISOString().split('T')[0];
-        const { readingStreak } = get();
+      // ========================================
+      // GOAL ACTIONS
+      // ========================================
 
-        if (readingStreak.last_read_date === today) {
-          return; // Already read today
+      fetchGoals: async () => {
+        const { user } = get();
+        if (!user) return;
+
+        try {
+          const goals = await local.loadGoals<ReadingGoal>(user.id);
+          const duplicates = findDuplicateGoals(goals);
+          for (const duplicate of duplicates) {
+            await local.removeRecord('reading_goals', duplicate.id);
+            queueChange({
+              userId: user.id,
+              table: 'reading_goals',
+              operation: 'delete',
+              recordId: duplicate.id,
+            });
+          }
+          set({ readingGoals: goals.filter((goal) => !duplicates.includes(goal)) });
+        } catch (error: any) {
+          console.warn('Failed to load goals:', error.message);
         }
+      },
 
-        let newStreak: ReadingStreak;
-        const lastDate = readingStreak.last_read_date
-          ? new Date(readingStreak.last_read_date)
-          : null;
-        const todayDate = new Date(today);
+      saveGoal: async (input, id) => {
+        try {
+          const { user, readingGoals } = get();
+          if (!user) throw new Error('Not authenticated');
 
-        if (!lastDate) {
-          newStreak = {
-            current_streak: 1,
-            longest_streak: 1,
-            last_read_date: today,
+          const now = new Date().toISOString();
+          const existing = id ? readingGoals.find((goal) => goal.id === id) : undefined;
+          const goal: ReadingGoal = {
+            ...input,
+            id: existing?.id ?? generateId(),
+            user_id: user.id,
+            created_at: existing?.created_at ?? now,
+            updated_at: now,
           };
-        } else {
-          const diffTime = todayDate.getTime() - lastDate.getTime();
-          const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-
-          if (diffDays === 1) {
-            const currentStreak = readingStreak.current_streak + 1;
-            newStreak = {
-              current_streak: currentStreak,
-              longest_streak: Math.max(currentStreak, readingStreak.longest_streak),
-              last_read_date: today,
-            };
-          } else {
-            newStreak = {
-              current_streak: 1,
-              longest_streak: readingStreak.longest_streak,
-              last_read_date: today,
-            };
-          }
+
+          await local.saveRecord('reading_goals', goal);
+          set((state) => ({
+            readingGoals: existing
+              ? state.readingGoals.map((g) => (g.id === goal.id ? goal : g))
+              : [goal, ...state.readingGoals],
+          }));
+
+          queueChange({
+            userId: user.id,
+            table: 'reading_goals',
+            operation: 'upsert',
+            recordId: goal.id,
+            payload: { ...goal },
+          });
+          return goal;
+        } catch (error: any) {
+          set({ error: error.message });
+          return null;
+        }
+      },
+
+      deleteGoal: async (id) => {
+        try {
+          const { user } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          await local.removeRecord('reading_goals', id);
+          set((state) => ({ readingGoals: state.readingGoals.filter((goal) => goal.id !== id) }));
+
+          queueChange({
+            userId: user.id,
+            table: 'reading_goals',
+            operation: 'delete',
+            recordId: id,
+          });
+        } catch (error: any) {
+          set({ error: error.message });
         }
+      },
+
+      // ========================================
+      // ACHIEVEMENT ACTIONS
+      // ========================================
+
+      fetchAchievements: async () => {
+        const { user } = get();
+        if (!user) return;
 
-        // Update in Supabase
         try {
-          const user = await getCurrentUser();
-          if (user) {
-            await db.upsert('reading_streaks', {
-              ...newStreak,
+          const unlocked = await local.loadTable<UnlockedAchievement>('achievements', user.id);
+          set({ unlockedAchievements: unlocked });
+        } catch (error: any) {
+          console.warn('Failed to load achievements:', error.message);
+        }
+      },
+
+      checkAchievements: async () => {
+        if (achievementCheck) return achievementCheck;
+
+        achievementCheck = (async () => {
+          const { user, books, bookReads, readingSessions, readingStreak, readingGoals, unlockedAchievements, achievementsBackfilled } = get();
+          if (!user || achievementsReadyFor !== user.id) return;
+
+          try {
+            const earned = findNewAchievements(
+              { books, reads: bookReads, sessions: readingSessions, streak: readingStreak, goals: readingGoals },
+              unlockedAchievements.map((unlocked) => unlocked.achievement_id)
+            );
+            // The first check on a device catches up on what was earned earlier, without a burst of notifications
+            const silent = !achievementsBackfilled.includes(user.id);
+            if (silent) set({ achievementsBackfilled: [...achievementsBackfilled, user.id] });
+            if (earned.length === 0) return;
+
+            const now = new Date().toISOString();
+            const records: UnlockedAchievement[] = earned.map((achievement) => ({
+              id: generateId(),
               user_id: user.id,
-            }, { onConflict: 'user_id,app_id' });
+              achievement_id: achievement.id,
+              unlocked_at: now,
+              created_at: now,
+              updated_at: now,
+            }));
+
+            // Saved before notifying, so each badge is announced once
+            await local.saveRecords('achievements', records);
+            set((state) => ({ unlockedAchievements: [...state.unlockedAchievements, ...records] }));
+
+            for (const record of records) {
+              const { id: _id, ...payload } = record;
+              queueChange({
+                userId: user.id,
+                table: 'achievements',
+                operation: 'upsert',
+                recordId: record.id,
+                payload,
+                onConflict: 'user_id,app_id,achievement_id',
+              });
+            }
+
+            if (!silent) {
+              for (const achievement of earned) {
+                await notificationService.sendAchievementNotification(
+                  `${achievement.icon} ${achievement.title}`,
+                  `Achievement unlocked: ${achievement.description.toLowerCase()}.`,
+                  { achievementId: achievement.id, screen: '/(tabs)/profile' }
+                );
+              }
+            }
+          } catch (error: any) {
+            console.warn('Failed to check achievements:', error.message);
           }
-        } catch (error) {
-          console.warn('Failed to sync streak:', error);
-        }
+        })();
 
-        set({ readingStreak: newStreak });
+        try {
+          await achievementCheck;
+        } finally {
+          achievementCheck = null;
+        }
       },
 
       // ========================================
-      // GOAL ACTIONS
+      // SHELF ACTIONS
       // ========================================
 
-      fetchGoal: async (year) => {
-        const targetYear = year || new Date().getFullYear();
+      fetchShelves: async () => {
+        const { user } = get();
+        if (!user) return;
+
+        try {
+          let [shelves, items] = await Promise.all([
+            local.loadShelves<Bookshelf>(user.id),
+            local.loadShelfItems<BookshelfItem>(user.id),
+          ]);
+
+          // A synced account may already have a default shelf on the server; wait for the first pull
+          const { cloudSyncEnabled, lastSyncedAt } = get();
+          if (shelves.length === 0 && (!cloudSyncEnabled || lastSyncedAt)) {
+            const now = new Date().toISOString();
+            const defaultShelf: Bookshelf = {
+              id: generateId(),
+              user_id: user.id,
+              name: 'Favorites',
+              is_default: true,
+              created_at: now,
+              updated_at: now,
+            };
+            await local.saveRecord('bookshelves', defaultShelf);
+            queueChange({
+              userId: user.id,
+              table: 'bookshelves',
+              operation: 'upsert',
+              recordId: defaultShelf.id,
+              payload: { ...defaultShelf },
+            });
+            shelves = [defaultShelf];
+          }
+
+          set({ bookshelves: shelves, bookshelfItems: items });
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
+
+      createShelf: async (name, description) => {
         try {
-          const { data, error } = await db.fetchAll<ReadingGoal>('reading_goals', {
-            filters: [{ column: 'year', operator: 'eq', value: targetYear }],
-            limit: 1
+          const { user } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          const now = new Date().toISOString();
+          const newShelf: Bookshelf = {
+            id: generateId(),
+            user_id: user.id,
+            name: name.trim(),
+            is_default: false,
+            created_at: now,
+            updated_at: now,
+          };
+          if (description?.trim()) {
+            newShelf.description = description.trim();
+          }
+
+          await local.saveRecord('bookshelves', newShelf);
+          set((state) => ({ bookshelves: [...state.bookshelves, newShelf] }));
+
+          queueChange({
+            userId: user.id,
+            table: 'bookshelves',
+            operation: 'upsert',
+            recordId: newShelf.id,
+            payload: { ...newShelf },
           });
-          if (error) throw error;
-          set({ readingGoal: data?.[0] || null });
+          return newShelf;
         } catch (error: any) {
-          console.warn('Failed to fetch goal:', error.message);
+          set({ error: error.message });
+          return null;
         }
       },
 
-      setReadingGoal: async (targetBooks, targetPages) => {
+      updateShelf: async (id, updates) => {
         try {
-          const user = await getCurrentUser();
+          const { user } = get();
           if (!user) throw new Error('Not authenticated');
 
-          const year = new Date().getFullYear();
-          const goal: Partial<ReadingGoal> = {
-            year,
-            target_books: targetBooks,
-            target_pages: targetPages,
+          const changes: Partial<Bookshelf> = {
+            ...updates,
+            updated_at: new Date().toISOString(),
           };
+          await local.patchRecord('bookshelves', id, changes);
+
+          set((state) => ({
+            bookshelves: state.bookshelves.map((shelf) =>
+              shelf.id === id ? { ...shelf, ...changes } : shelf
+            ),
+          }));
+
+          queueChange({
+            userId: user.id,
+            table: 'bookshelves',
+            operation: 'update',
+            recordId: id,
+            payload: { ...changes },
+          });
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
+
+      deleteShelf: async (id) => {
+        try {
+          const { user, bookshelves } = get();
+          if (!user) throw new Error('Not authenticated');
 
-          const { data, error } = await db.upsert<ReadingGoal>('reading_goals', {
-            ...goal,
+          const shelf = bookshelves.find((s) => s.id === id);
+          if (!shelf) return;
+          if (shelf.is_default) throw new Error('The default shelf cannot be deleted');
+
+          await local.removeShelf(id);
+          set((state) => ({
+            bookshelves: state.bookshelves.filter((s) => s.id !== id),
+            bookshelfItems: state.bookshelfItems.filter((item) => item.bookshelf_id !== id),
+          }));
+
+          // Remote items are removed by ON DELETE CASCADE
+          queueChange({
+            userId: user.id,
+            table: 'bookshelves',
+            operation: 'delete',
+            recordId: id,
+          });
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
+
+      addBookToShelf: async (shelfId, bookId) => {
+        try {
+          const { user, bookshelfItems } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          const exists = bookshelfItems.some(
+            (item) => item.bookshelf_id === shelfId && item.book_id === bookId
+          );
+          if (exists) return;
+
+          const now = new Date().toISOString();
+          const newItem: BookshelfItem = {
+            id: generateId(),
             user_id: user.id,
-          }, { onConflict: 'user_id,app_id,year' });
+            bookshelf_id: shelfId,
+            book_id: bookId,
+            added_at: now,
+            updated_at: now,
+          };
 
-          if (error) throw error;
-          set({ readingGoal: data });
+          await local.saveRecord('bookshelf_items', newItem);
+          set((state) => ({ bookshelfItems: [newItem, ...state.bookshelfItems] }));
+
+          queueChange({
+            userId: user.id,
+            table: 'bookshelf_items',
+            operation: 'upsert',
+            recordId: newItem.id,
+            payload: { ...newItem },
+          });
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
+
+      removeBookFromShelf: async (shelfId, bookId) => {
+        try {
+          const { user, bookshelfItems } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          const item = bookshelfItems.find(
+            (i) => i.bookshelf_id === shelfId && i.book_id === bookId
+          );
+          if (!item) return;
+
+          await local.removeRecord('bookshelf_items', item.id);
+          set((state) => ({
+            bookshelfItems: state.bookshelfItems.filter((i) => i.id !== item.id),
+          }));
+
+          queueChange({
+            userId: user.id,
+            table: 'bookshelf_items',
+            operation: 'delete',
+            recordId: item.id,
+          });
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
+
+      // ========================================
+      // CONFLICT ACTIONS
+      // ========================================
+
+      fetchConflicts: async () => {
+        const { user } = get();
+        if (!user) return;
+
+        try {
+          const conflicts = await syncState.getConflicts(user.id);
+          set({
+            noteConflicts: conflicts.filter((conflict) => conflict.table_name === 'notes') as SyncConflict<Note>[],
+            bookConflicts: conflicts.filter((conflict) => conflict.table_name === 'books') as SyncConflict<Book>[],
+          });
+        } catch (error: any) {
+          console.warn('Failed to load conflicts:', error.message);
+        }
+      },
+
+      resolveNoteConflict: async (conflictId, resolution) => {
+        try {
+          const { user, noteConflicts } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          const conflict = noteConflicts.find((c) => c.id === conflictId);
+          if (!conflict) return;
+
+          const { local: mine, remote: theirs } = conflict;
+
+          if (resolution === 'local') {
+            const changes = {
+              content: mine.content,
+              page: mine.page ?? null,
+              updated_at: new Date().toISOString(),
+            };
+            await local.saveRecord('notes', { ...theirs, ...changes });
+            queueChange({
+              userId: user.id,
+              table: 'notes',
+              operation: 'update',
+              recordId: theirs.id,
+              payload: changes,
+            });
+          } else {
+            await local.saveRecord('notes', theirs);
+            if (resolution === 'both') {
+              await get().addNote({
+                book_id: mine.book_id,
+                content: mine.content,
+                ...(mine.page !== undefined && { page: mine.page }),
+              });
+            }
+          }
+
+          await syncState.removeConflict(conflictId);
+          set((state) => ({
+            noteConflicts: state.noteConflicts.filter((c) => c.id !== conflictId),
+          }));
+          await get().fetchNotes();
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
+
+      resolveBookConflict: async (conflictId, resolution) => {
+        try {
+          const { user, bookConflicts } = get();
+          if (!user) throw new Error('Not authenticated');
+
+          const conflict = bookConflicts.find((c) => c.id === conflictId);
+          if (!conflict) return;
+
+          const { local: mine, remote: theirs } = conflict as SyncConflict<Book & RealtimeRecord>;
+
+          if (resolution === 'local') {
+            // Everything that differs from the other device's version is sent, not only the conflicting fields
+            const changes = {
+              ...changedFields(theirs, mine, TABLE_COLUMNS.books),
+              updated_at: new Date().toISOString(),
+            };
+            await local.saveRecord('books', { ...theirs, ...changes });
+            queueChange({
+              userId: user.id,
+              table: 'books',
+              operation: 'update',
+              recordId: theirs.id,
+              payload: changes,
+            });
+          } else {
+            await local.saveRecord('books', theirs);
+          }
+
+          await syncState.removeConflict(conflictId);
+          set((state) => ({
+            bookConflicts: state.bookConflicts.filter((c) => c.id !== conflictId),
+          }));
+          await get().fetchBooks();
         } catch (error: any) {
           set({ error: error.message });
         }
@@ -587,26 +1712,201 @@ export const useAppStore = create<AppState>()(
       // SYNC ACTIONS
       // ========================================
 
+      loadLibrary: async () => {
+        await Promise.all([
+          get().fetchBooks(),
+          get().fetchReads(),
+          get().fetchNotes(),
+          get().fetchHighlights(),
+          get().fetchSessions(),
+          get().fetchStreak(),
+          get().fetchGoals(),
+          get().fetchAchievements(),
+          get().fetchShelves(),
+          get().fetchConflicts(),
+        ]);
+        // Needs the stored streak row loaded above, and today's date may have moved on
+        await get().recalculateStreak();
+
+        achievementsReadyFor = get().user?.id ?? null;
+        await get().checkAchievements();
+      },
+
       syncAll: async () => {
+        const { user, isSyncing, cloudSyncEnabled } = get();
+        if (!user || isSyncing || !cloudSyncEnabled) return;
+
+        const networkStatus = syncService.getNetworkStatus();
+        if (networkStatus !== 'online') {
+          set({
+            error: networkStatus === 'wifi_required'
+              ? 'Sync is paused until you connect to Wi-Fi'
+              : 'You are offline. Changes will sync when you reconnect.',
+          });
+          return;
+        }
+
         set({ isSyncing: true, error: null });
         try {
-          await Promise.all([
-            get().fetchBooks(),
-            get().fetchNotes(),
-            get().fetchHighlights(),
-            get().fetchStreak(),
-            get().fetchGoal(),
-          ]);
+          // Queue the library before pulling so remote rows merge with it instead of replacing it
+          if (get().needsLibraryUpload) {
+            await syncService.uploadLibrary(user.id);
+            set({ needsLibraryUpload: false });
+          }
+
+          // Merge remote changes since the last pull into SQLite, then send what is left in the outbox
+          const results = await syncService.pullChanges(user.id);
+          await syncService.flush();
+
+          await get().loadLibrary();
+
+          const now = new Date().toISOString();
+          const streamStatus = { ...get().streamStatus };
+          for (const { stream, error } of results) {
+            streamStatus[stream] = error
+              ? { lastSyncedAt: streamStatus[stream]?.lastSyncedAt ?? null, lastError: error }
+              : { lastSyncedAt: now, lastError: null };
+          }
+          const failed = results.find((result) => result.error);
+
           set({
             isSyncing: false,
-            lastSyncedAt: new Date().toISOString(),
-            pendingChanges: 0,
+            streamStatus,
+            ...(!failed && { lastSyncedAt: now }),
+            error: failed ? `Some data could not be synced: ${failed.error}` : null,
+            pendingChanges: await syncService.getPendingCount(),
           });
+          await get().fetchSyncQueue();
         } catch (error: any) {
           set({ isSyncing: false, error: error.message });
         }
       },
 
+      startRealtime: () => {
+        get().stopRealtime();
+        const { user, cloudSyncEnabled } = get();
+        if (!user || !cloudSyncEnabled) return;
+
+        const applyChange = async (
+          table: (typeof REALTIME_TABLES)[number],
+          eventType: 'INSERT' | 'UPDATE' | 'DELETE',
+          record: RealtimeRecord
+        ) => {
+          try {
+            // Goes through SQLite so unsent local edits are merged, not overwritten
+            await syncService.applyRemoteChange(table, user.id, eventType, record);
+            if (get().user?.id !== user.id) return;
+
+            if (table === 'books') {
+              const book = await local.loadRecord<Book>('books', record.id);
+              set((state) => ({
+                books: mergeById(state.books, record.id, book),
+                ...(!book && {
+                  bookReads: state.bookReads.filter((r) => r.book_id !== record.id),
+                  notes: state.notes.filter((n) => n.book_id !== record.id),
+                  highlights: state.highlights.filter((h) => h.book_id !== record.id),
+                }),
+              }));
+            } else if (table === 'notes') {
+              const note = await local.loadRecord<Note>('notes', record.id);
+              set((state) => ({ notes: mergeById(state.notes, record.id, note) }));
+            } else {
+              const highlight = await local.loadRecord<Highlight>('highlights', record.id);
+              set((state) => ({ highlights: mergeById(state.highlights, record.id, highlight) }));
+            }
+          } catch (error: any) {
+            console.warn(`Failed to apply realtime ${table} change:`, error.message);
+          }
+        };
+
+        realtimeUnsubscribers = REALTIME_TABLES.map((table) =>
+          db.subscribeToTable<RealtimeRecord>(
+            table,
+            ({ eventType, new: created, old }) => {
+              const record = eventType === 'DELETE' ? old : created;
+              if (record?.id) applyChange(table, eventType, record);
+            },
+            { userId: user.id }
+          )
+        );
+      },
+
+      stopRealtime: () => {
+        realtimeUnsubscribers.forEach((unsubscribe) => unsubscribe());
+        realtimeUnsubscribers = [];
+      },
+
+      updateSyncSettings: (changes) => {
+        const previous = get().syncSettings;
+        const syncSettings = { ...previous, ...changes };
+        set({ syncSettings });
+
+        // The sync service picks the new settings up through useSyncInit
+        if (!get().user || syncSettings.autoSync === previous.autoSync) return;
+        if (syncSettings.autoSync) {
+          get().startRealtime();
+          get().syncAll();
+        } else {
+          get().stopRealtime();
+        }
+      },
+
+      setCloudSyncAccess: async (enabled) => {
+        if (enabled === get().cloudSyncEnabled) return;
+
+        if (!enabled) {
+          // Downgrade: the library stays on this device and keeps working offline.
+          // The cloud copy is kept as it is and catches up if sync is re-enabled.
+          get().stopRealtime();
+          set({ cloudSyncEnabled: false });
+          return;
+        }
+
+        set({ cloudSyncEnabled: true, needsLibraryUpload: true });
+        if (get().user) {
+          await get().syncAll();
+          if (get().syncSettings.autoSync) get().startRealtime();
+        }
+      },
+
+      fetchSyncQueue: async () => {
+        const { user } = get();
+        if (!user) return;
+
+        try {
+          set({ syncQueue: await outbox.getQueueStatus(user.id) });
+        } catch (error: any) {
+          console.warn('Failed to load sync queue:', error.message);
+        }
+      },
+
+      retryFailedChanges: async () => {
+        const { user } = get();
+        if (!user) return;
+
+        try {
+          await outbox.retryFailed(user.id);
+          await get().fetchSyncQueue();
+          await syncService.flush();
+          await get().fetchSyncQueue();
+        } catch (error: any) {
+          set({ error: error.message });
+        }
+      },
+
+      // ========================================
+      // LIBRARY VIEW ACTIONS
+      // ========================================
+
+      setLibraryView: (view) => {
+        const { user } = get();
+        if (!user) return;
+
+        set((state) => ({
+          libraryViews: { ...state.libraryViews, [user.id]: view },
+        }));
+      },
+
       setLoading: (loading) => set({ isLoading: loading }),
       setError: (error) => set({ error }),
       reset: () => set(initialState),
@@ -614,17 +1914,38 @@ export const useAppStore = create<AppState>()(
     {
       name: 'bookbuddy-storage',
       storage: createJSONStorage(() => AsyncStorage),
-      // Only persist essential data for offline access
+      // Library data lives in SQLite; only sync metadata and device state are kept here
       partialize: (state) => ({
-        books: state.books,
-        notes: state.notes,
-        highlights: state.highlights,
-        readingStreak: state.readingStreak,
-        readingGoal: state.readingGoal,
         lastSyncedAt: state.lastSyncedAt,
+        activeSession: state.activeSession,
+        syncSettings: state.syncSettings,
+        cloudSyncEnabled: state.cloudSyncEnabled,
+        needsLibraryUpload: state.needsLibraryUpload,
+        streamStatus: state.streamStatus,
+        libraryViews: state.libraryViews,
+        achievementsBackfilled: state.achievementsBackfilled,
       }),
     }
   )
 );
 
+// Re-check achievements shortly after anything they depend on changes
+useAppStore.subscribe((state, previous) => {
+  if (
+    state.books === previous.books &&
+    state.bookReads === previous.bookReads &&
+    state.readingSessions === previous.readingSessions &&
+    state.readingStreak === previous.readingStreak &&
+    state.readingGoals === previous.readingGoals
+  ) {
+    return;
+  }
+
+  if (achievementTimer) clearTimeout(achievementTimer);
+  achievementTimer = setTimeout(() => {
+    achievementTimer = null;
+    state.checkAchievements();
+  }, 500);
+});
+
 export default useAppStore;
@@ -0,0 +1,119 @@
+import type { Book, BookRead, ReadingSession } from '../../stores/appStore';
+import {
+  ACHIEVEMENTS,
+  findNewAchievements,
+  getAchievement,
+  getAchievementStats,
+  type AchievementContext,
+} from '../achievements';
+
+const TODAY = new Date(2026, 2, 10, 12);
+
+const makeBook = (id: string, overrides: Partial<Book> = {}): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Author',
+  total_pages: 200,
+  current_page: 0,
+  progress: 0,
+  status: 'to_read',
+  date_added: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const finishedRead = (bookId: string, finished: string): BookRead => ({
+  id: `read-${bookId}-${finished}`,
+  book_id: bookId,
+  status: 'finished',
+  current_page: 200,
+  progress: 100,
+  date_started: null,
+  date_finished: finished,
+  created_at: finished,
+  updated_at: finished,
+});
+
+const session = (minutes: number): ReadingSession => ({
+  id: `session-${minutes}`,
+  book_id: 'a',
+  pages_read: 10,
+  duration_minutes: minutes,
+  started_at: new Date(2026, 2, 9, 20).toISOString(),
+  created_at: new Date(2026, 2, 9, 20).toISOString(),
+});
+
+const makeContext = (overrides: Partial<AchievementContext> = {}): AchievementContext => ({
+  books: [],
+  reads: [],
+  sessions: [],
+  streak: { current_streak: 0, longest_streak: 0, last_read_date: null },
+  goals: [],
+  ...overrides,
+});
+
+describe('getAchievementStats', () => {
+  it('summarises the library, history and sessions', () => {
+    const context = makeContext({
+      books: [
+        makeBook('a', { status: 'finished', category: 'Fiction', review: 'Loved it' }),
+        makeBook('b', { status: 'finished', category: 'Other', date_finished: '2026-01-05T00:00:00.000Z', review: '  ' }),
+        makeBook('c', { status: 'reading', current_page: 50, category: 'History' }),
+      ],
+      reads: [finishedRead('a', '2025-05-01T00:00:00.000Z'), finishedRead('a', '2026-02-01T00:00:00.000Z')],
+      sessions: [session(45), session(130)],
+      streak: { current_streak: 2, longest_streak: 9, last_read_date: '2026-03-09' },
+    });
+
+    expect(getAchievementStats(context, TODAY)).toEqual({
+      booksFinished: 3,
+      pagesRead: 650,
+      longestStreak: 9,
+      // "Other" is not a category of its own, and unfinished books do not count
+      categoriesFinished: 1,
+      reviewsWritten: 1,
+      booksReread: 1,
+      longestSessionMinutes: 130,
+      goalsReached: 0,
+    });
+  });
+
+  it('counts goals reached', () => {
+    const context = makeContext({
+      books: [makeBook('a', { status: 'finished', date_finished: new Date(2026, 1, 1).toISOString() })],
+      goals: [
+        { id: 'met', period: 'yearly', metric: 'books', target: 1, start_date: '2026-01-01', end_date: null },
+        { id: 'open', period: 'yearly', metric: 'books', target: 5, start_date: '2026-01-01', end_date: null },
+      ],
+    });
+    expect(getAchievementStats(context, TODAY).goalsReached).toBe(1);
+  });
+});
+
+describe('findNewAchievements', () => {
+  const context = makeContext({
+    books: [makeBook('a', { status: 'finished', date_finished: '2026-01-05T00:00:00.000Z' })],
+    sessions: [session(150)],
+    streak: { current_streak: 7, longest_streak: 7, last_read_date: '2026-03-09' },
+  });
+
+  it('returns badges the data has earned', () => {
+    expect(findNewAchievements(context, [], TODAY).map((achievement) => achievement.id)).toEqual([
+      'first_book',
+      'streak_7',
+      'marathon',
+    ]);
+  });
+
+  it('skips badges that are already unlocked', () => {
+    expect(findNewAchievements(context, ['first_book', 'marathon'], TODAY).map((achievement) => achievement.id))
+      .toEqual(['streak_7']);
+  });
+});
+
+describe('getAchievement', () => {
+  it('looks badges up by id', () => {
+    expect(new Set(ACHIEVEMENTS.map((achievement) => achievement.id)).size).toBe(ACHIEVEMENTS.length);
+    expect(getAchievement('reread')?.title).toBe('Old Friend');
+    expect(getAchievement('missing')).toBeUndefined();
+  });
+});
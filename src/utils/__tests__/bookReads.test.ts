@@ -0,0 +1,107 @@
+import type { Book, BookRead } from '../../stores/appStore';
+import {
+  countReadsFinishedIn,
+  findCurrentRead,
+  getCompletedReads,
+  isSameInstant,
+  readFieldsFromBook,
+  sortReads,
+} from '../bookReads';
+
+const makeBook = (overrides: Partial<Book> = {}): Book => ({
+  id: 'book-1',
+  title: 'Dune',
+  author: 'Frank Herbert',
+  total_pages: 400,
+  current_page: 0,
+  progress: 0,
+  status: 'to_read',
+  date_added: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const makeRead = (id: string, overrides: Partial<BookRead> = {}): BookRead => ({
+  id,
+  book_id: 'book-1',
+  status: 'finished',
+  current_page: 400,
+  progress: 100,
+  date_started: '2025-06-01T00:00:00.000Z',
+  date_finished: '2025-06-20T00:00:00.000Z',
+  created_at: '2025-06-01T00:00:00.000Z',
+  updated_at: '2025-06-20T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('isSameInstant', () => {
+  it('matches the same moment written with a different offset', () => {
+    expect(isSameInstant('2026-03-01T09:00:00.000Z', '2026-03-01T09:00:00+00:00')).toBe(true);
+    expect(isSameInstant('2026-03-01T09:00:00.000Z', '2026-03-01T10:00:00+01:00')).toBe(true);
+    expect(isSameInstant('2026-03-01T09:00:00.000Z', '2026-03-01T09:00:01.000Z')).toBe(false);
+  });
+
+  it('treats missing values as equal only to each other', () => {
+    expect(isSameInstant(null, undefined)).toBe(true);
+    expect(isSameInstant(null, '2026-03-01T09:00:00.000Z')).toBe(false);
+    expect(isSameInstant('not a date', 'not a date')).toBe(true);
+  });
+});
+
+describe('findCurrentRead', () => {
+  it('finds the read started when the book was', () => {
+    const book = makeBook({ status: 'reading', date_started: '2026-03-01T09:00:00.000Z' });
+    const earlier = makeRead('read-1');
+    const current = makeRead('read-2', { status: 'reading', date_started: '2026-03-01T09:00:00+00:00', date_finished: null });
+    const otherBook = makeRead('read-3', { book_id: 'book-2', date_started: '2026-03-01T09:00:00.000Z' });
+
+    expect(findCurrentRead(book, [earlier, otherBook, current])).toBe(current);
+    expect(findCurrentRead(makeBook(), [current])).toBeUndefined();
+  });
+});
+
+describe('readFieldsFromBook', () => {
+  it('copies the status fields of a started book', () => {
+    const book = makeBook({ status: 'dnf', current_page: 80, progress: 20, date_started: '2026-03-01T09:00:00.000Z' });
+    expect(readFieldsFromBook(book)).toEqual({
+      status: 'dnf',
+      current_page: 80,
+      progress: 20,
+      date_started: '2026-03-01T09:00:00.000Z',
+      date_finished: null,
+    });
+    expect(readFieldsFromBook(makeBook())).toBeNull();
+  });
+});
+
+describe('sortReads', () => {
+  it('puts the newest read first, whatever the offset format', () => {
+    const reads = [
+      makeRead('old', { date_started: '2024-01-01T00:00:00.000Z' }),
+      makeRead('unknown', { date_started: null }),
+      makeRead('new', { date_started: '2026-01-01T00:00:00+00:00' }),
+      makeRead('middle', { date_started: '2025-01-01T00:00:00.000Z' }),
+    ];
+    expect(sortReads(reads).map((read) => read.id)).toEqual(['new', 'middle', 'old', 'unknown']);
+  });
+});
+
+describe('getCompletedReads', () => {
+  it('counts every finished read, and finished books without recorded reads once', () => {
+    const books = [
+      makeBook({ status: 'finished', date_finished: '2026-02-01T00:00:00.000Z' }),
+      makeBook({ id: 'book-2', status: 'finished', date_finished: '2026-02-10T00:00:00.000Z' }),
+    ];
+    const reads = [
+      makeRead('read-1'),
+      makeRead('read-2', { date_started: '2026-01-10T00:00:00.000Z', date_finished: '2026-02-01T00:00:00.000Z' }),
+      makeRead('read-3', { status: 'dnf', date_finished: null }),
+    ];
+
+    expect(getCompletedReads(books, reads).map((read) => read.date_finished)).toEqual([
+      '2025-06-20T00:00:00.000Z',
+      '2026-02-01T00:00:00.000Z',
+      '2026-02-10T00:00:00.000Z',
+    ]);
+    expect(countReadsFinishedIn(books, reads, 2026)).toBe(2);
+  });
+});
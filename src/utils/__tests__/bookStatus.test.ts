@@ -0,0 +1,155 @@
+import type { Book } from '../../stores/appStore';
+import {
+  applyPageCount,
+  applyProgress,
+  applyStatusAction,
+  calculateProgress,
+  canApplyStatusAction,
+  getStatusActions,
+} from '../bookStatus';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+const STARTED = '2026-03-01T09:00:00.000Z';
+
+const makeBook = (overrides: Partial<Book> = {}): Book => ({
+  id: 'book-1',
+  title: 'Dune',
+  author: 'Frank Herbert',
+  total_pages: 400,
+  current_page: 0,
+  progress: 0,
+  status: 'to_read',
+  date_added: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('status actions', () => {
+  it('offers only the changes allowed from each status', () => {
+    expect(getStatusActions('finished')).toEqual([{ action: 'reread', label: 'Re-read' }]);
+    expect(canApplyStatusAction('to_read', 'start')).toBe(true);
+    expect(canApplyStatusAction('to_read', 'dnf')).toBe(false);
+    expect(canApplyStatusAction('dnf', 'start')).toBe(true);
+  });
+
+  it('throws for a change that is not allowed', () => {
+    expect(() => applyStatusAction(makeBook(), 'dnf')).toThrow('Cannot did not finish a book that is to_read');
+  });
+});
+
+describe('calculateProgress', () => {
+  it('rounds to a whole percentage and caps at 100', () => {
+    expect(calculateProgress(133, 400)).toBe(33);
+    expect(calculateProgress(500, 400)).toBe(100);
+    expect(calculateProgress(10, 0)).toBe(0);
+  });
+});
+
+describe('applyStatusAction', () => {
+  it('keeps the start date when finishing and sets the finish date', () => {
+    const reading = makeBook({ status: 'reading', current_page: 120, date_started: STARTED });
+    expect(applyStatusAction(reading, 'finish', { now: NOW })).toEqual({
+      status: 'finished',
+      current_page: 400,
+      progress: 100,
+      date_started: STARTED,
+      date_finished: NOW.toISOString(),
+      dnf_reason: null,
+    });
+  });
+
+  it('keeps the page of a book that was not finished, with a trimmed reason', () => {
+    const reading = makeBook({ status: 'reading', current_page: 120, date_started: STARTED });
+    expect(applyStatusAction(reading, 'dnf', { reason: '  Too slow ', now: NOW })).toEqual({
+      status: 'dnf',
+      date_finished: null,
+      dnf_reason: 'Too slow',
+    });
+  });
+
+  it('starts a re-read from the first page with a new start date', () => {
+    const finished = makeBook({ status: 'finished', current_page: 400, progress: 100, date_started: STARTED });
+    expect(applyStatusAction(finished, 'reread', { now: NOW })).toMatchObject({
+      status: 'reading',
+      current_page: 0,
+      date_started: NOW.toISOString(),
+      date_finished: null,
+    });
+  });
+
+  it('clears the dates when moving back to the to-read pile', () => {
+    const reading = makeBook({ status: 'reading', current_page: 120, date_started: STARTED });
+    expect(applyStatusAction(reading, 'want_to_read', { now: NOW })).toMatchObject({
+      status: 'to_read',
+      current_page: 0,
+      date_started: null,
+    });
+  });
+});
+
+describe('applyProgress', () => {
+  it('starts a to-read book on its first page', () => {
+    expect(applyProgress(makeBook(), 20, NOW)).toMatchObject({
+      status: 'reading',
+      current_page: 20,
+      progress: 5,
+      date_started: NOW.toISOString(),
+    });
+  });
+
+  it('finishes the book on its last page, clamping pages past the end', () => {
+    const reading = makeBook({ status: 'reading', current_page: 300, date_started: STARTED });
+    expect(applyProgress(reading, 450, NOW)).toMatchObject({
+      status: 'finished',
+      current_page: 400,
+      progress: 100,
+      date_started: STARTED,
+      date_finished: NOW.toISOString(),
+    });
+  });
+
+  it('starts a new read when a finished book pages back from the end', () => {
+    const finished = makeBook({
+      status: 'finished',
+      current_page: 400,
+      progress: 100,
+      date_started: STARTED,
+      date_finished: '2026-03-05T09:00:00.000Z',
+    });
+    expect(applyProgress(finished, 50, NOW)).toMatchObject({
+      status: 'reading',
+      current_page: 50,
+      progress: 13,
+      date_started: NOW.toISOString(),
+      date_finished: null,
+    });
+  });
+
+  it('only moves the page of a book being read', () => {
+    const reading = makeBook({ status: 'reading', current_page: 100, date_started: STARTED });
+    expect(applyProgress(reading, 200, NOW)).toEqual({ current_page: 200, progress: 50 });
+  });
+});
+
+describe('applyPageCount', () => {
+  it('keeps a finished book finished on its new last page', () => {
+    const finished = makeBook({
+      status: 'finished',
+      current_page: 400,
+      progress: 100,
+      date_started: STARTED,
+      date_finished: '2026-03-05T20:00:00.000Z',
+    });
+
+    expect(applyPageCount(finished, 450, NOW)).toEqual({ current_page: 450, progress: 100 });
+    expect(applyPageCount(finished, 350, NOW)).toEqual({ current_page: 350, progress: 100 });
+  });
+
+  it('keeps the page of a book being read and finishes it if the new count is reached', () => {
+    const reading = makeBook({ status: 'reading', current_page: 200, progress: 50, date_started: STARTED });
+
+    expect(applyPageCount(reading, 500, NOW)).toEqual({ current_page: 200, progress: 40 });
+    expect(applyPageCount(reading, 200, NOW)).toEqual(
+      expect.objectContaining({ status: 'finished', current_page: 200, progress: 100, date_finished: NOW.toISOString() })
+    );
+  });
+});
@@ -0,0 +1,36 @@
+import { parseCsv, parseCsvRecords } from '../csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    const text = 'title,review\n"Dune, Part One","A ""classic""\nstill"';
+    expect(parseCsv(text)).toEqual([['title', 'review'], ['Dune, Part One', 'A "classic"\nstill']]);
+  });
+
+  it('handles CRLF line endings, a byte order mark and blank lines', () => {
+    expect(parseCsv('﻿a,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,,')).toEqual([['a', '', 'c']]);
+    expect(parseCsv('a,,c\n1,,3')).toEqual([['a', '', 'c'], ['1', '', '3']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys cells by trimmed header names and fills missing cells', () => {
+    const { headers, records } = parseCsvRecords(' Title , Author \nDune, Frank Herbert \nEmma');
+    expect(headers).toEqual(['Title', 'Author']);
+    expect(records).toEqual([
+      { Title: 'Dune', Author: 'Frank Herbert' },
+      { Title: 'Emma', Author: '' },
+    ]);
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(parseCsvRecords('')).toEqual({ headers: [], records: [] });
+  });
+});
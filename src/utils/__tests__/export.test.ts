@@ -0,0 +1,165 @@
+import type { Book, BookRead, Highlight, Note } from '../../stores/appStore';
+import {
+  EXPORT_VERSION,
+  buildBookMarkdown,
+  buildCsv,
+  buildJson,
+  buildMarkdown,
+  escapeCsv,
+  type ExportData,
+} from '../export';
+
+const makeBook = (id: string, overrides: Partial<Book> = {}): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Author',
+  total_pages: 300,
+  current_page: 0,
+  progress: 0,
+  status: 'to_read',
+  date_added: '2025-01-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const finishedRead = (id: string, bookId: string): BookRead => ({
+  id,
+  book_id: bookId,
+  status: 'finished',
+  current_page: 300,
+  progress: 100,
+  date_started: '2025-02-01T00:00:00.000Z',
+  date_finished: '2025-03-01T00:00:00.000Z',
+  created_at: '2025-02-01T00:00:00.000Z',
+  updated_at: '2025-03-01T00:00:00.000Z',
+});
+
+const note = (id: string, bookId: string, content: string, page?: number): Note => ({
+  id,
+  book_id: bookId,
+  content,
+  ...(page !== undefined && { page }),
+  created_at: '2025-02-10T00:00:00.000Z',
+  updated_at: '2025-02-10T00:00:00.000Z',
+});
+
+const highlight = (id: string, bookId: string, text: string, page?: number): Highlight => ({
+  id,
+  book_id: bookId,
+  text,
+  ...(page !== undefined && { page }),
+  color: 'yellow',
+  created_at: '2025-02-10T00:00:00.000Z',
+});
+
+const dune = makeBook('dune', {
+  title: 'Dune',
+  author: 'Frank Herbert',
+  isbn: '9780441172719',
+  status: 'finished',
+  rating: 4.5,
+  current_page: 300,
+  progress: 100,
+  category: 'Science Fiction',
+  date_started: '2025-02-01T00:00:00.000Z',
+  date_finished: '2025-03-01T00:00:00.000Z',
+  review: 'Spice, sand and "politics", mostly',
+});
+const emma = makeBook('emma', { title: 'Emma', author: 'Jane Austen' });
+
+const data: ExportData = {
+  books: [dune, emma],
+  reads: [finishedRead('read-1', 'dune'), finishedRead('read-2', 'dune')],
+  notes: [note('note-1', 'dune', 'Second thought', 40), note('note-2', 'dune', 'First\nthought', 12)],
+  highlights: [highlight('highlight-1', 'dune', 'Fear is the mind-killer.', 8)],
+  sessions: [],
+  shelves: [
+    { id: 'shelf-1', name: 'Favorites', is_default: true, created_at: '', updated_at: '' },
+    { id: 'shelf-2', name: 'Sci-fi', is_default: false, created_at: '', updated_at: '' },
+  ],
+  shelfItems: [
+    { id: 'item-1', bookshelf_id: 'shelf-1', book_id: 'dune', added_at: '', updated_at: '' },
+    { id: 'item-2', bookshelf_id: 'shelf-2', book_id: 'dune', added_at: '', updated_at: '' },
+  ],
+  goals: [],
+  streak: null,
+};
+
+describe('escapeCsv', () => {
+  it('quotes fields holding separators, quotes or line breaks', () => {
+    expect(escapeCsv('plain')).toBe('plain');
+    expect(escapeCsv('a, b')).toBe('"a, b"');
+    expect(escapeCsv('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsv('two\nlines')).toBe('"two\nlines"');
+    expect(escapeCsv(null)).toBe('');
+    expect(escapeCsv(42)).toBe('42');
+  });
+});
+
+describe('buildCsv', () => {
+  it('writes a header and one row per book with shelves, reads and counts', () => {
+    const lines = buildCsv(data).split('\r\n');
+
+    expect(lines[0]).toBe(
+      'Title,Author,ISBN,Status,Rating,Total Pages,Current Page,Progress,Category,Shelves,' +
+        'Date Added,Date Started,Date Finished,Times Read,Review,Notes,Highlights'
+    );
+    expect(lines[1]).toBe(
+      'Dune,Frank Herbert,9780441172719,Finished,4.5,300,300,100,Science Fiction,Favorites; Sci-fi,' +
+        '2025-01-01,2025-02-01,2025-03-01,2,"Spice, sand and ""politics"", mostly",2,1'
+    );
+    expect(lines[2]).toBe('Emma,Jane Austen,,To Read,,300,0,0,,,2025-01-01,,,0,,0,0');
+    expect(lines[3]).toBe('');
+  });
+
+  it('counts a finished book without recorded reads as read once', () => {
+    const lines = buildCsv({ ...data, reads: [] }).split('\r\n');
+    expect(lines[1]?.split(',')[13]).toBe('1');
+  });
+});
+
+describe('buildJson', () => {
+  it('holds every entity with the export version and time', () => {
+    const exportedAt = new Date('2026-03-10T12:00:00.000Z');
+    const parsed = JSON.parse(buildJson(data, exportedAt)) as ExportData & { version: number; exported_at: string };
+
+    expect(parsed).toMatchObject({ version: EXPORT_VERSION, exported_at: '2026-03-10T12:00:00.000Z' });
+    expect(parsed.books).toEqual(data.books);
+    expect(parsed.shelfItems).toEqual(data.shelfItems);
+  });
+});
+
+describe('buildBookMarkdown', () => {
+  it('lists the review, highlights and notes in page order', () => {
+    expect(buildBookMarkdown(dune, data.notes, data.highlights)).toBe(
+      [
+        '## Dune',
+        '',
+        '*by Frank Herbert*',
+        '',
+        'Rating: 4.5/5',
+        '',
+        '### Review',
+        '',
+        'Spice, sand and "politics", mostly',
+        '',
+        '### Highlights',
+        '',
+        '> Fear is the mind-killer. (p. 8)',
+        '',
+        '### Notes',
+        '',
+        '- First\n  thought (p. 12)',
+        '- Second thought (p. 40)',
+      ].join('\n')
+    );
+  });
+});
+
+describe('buildMarkdown', () => {
+  it('includes only books with notes, highlights or a review', () => {
+    const markdown = buildMarkdown(data);
+    expect(markdown.startsWith('# Reading Notes\n')).toBe(true);
+    expect(markdown).toContain('## Dune');
+    expect(markdown).not.toContain('## Emma');
+  });
+});
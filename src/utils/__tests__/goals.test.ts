@@ -0,0 +1,160 @@
+import type { Book, BookRead, ReadingGoal, ReadingSession } from '../../stores/appStore';
+import {
+  describeGoal,
+  findDuplicateGoals,
+  getGoalProgress,
+  getGoalWindow,
+  isDayKey,
+  isGoalActive,
+  measureGoalMetric,
+  type GoalActivity,
+} from '../goals';
+
+// Local times, so the tests pass in any time zone
+const at = (year: number, month: number, day: number, hour = 12) => new Date(year, month - 1, day, hour);
+
+const makeGoal = (overrides: Partial<ReadingGoal>): ReadingGoal => ({
+  id: 'goal-1',
+  period: 'yearly',
+  metric: 'books',
+  target: 12,
+  start_date: '2026-01-01',
+  end_date: null,
+  ...overrides,
+});
+
+const makeBook = (id: string, overrides: Partial<Book> = {}): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Author',
+  total_pages: 300,
+  current_page: 0,
+  progress: 0,
+  status: 'to_read',
+  date_added: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const makeRead = (bookId: string, finished: Date): BookRead => ({
+  id: `read-${bookId}-${finished.getTime()}`,
+  book_id: bookId,
+  status: 'finished',
+  current_page: 300,
+  progress: 100,
+  date_started: null,
+  date_finished: finished.toISOString(),
+  created_at: finished.toISOString(),
+  updated_at: finished.toISOString(),
+});
+
+const makeSession = (started: Date, pages: number, minutes: number): ReadingSession => ({
+  id: `session-${started.getTime()}`,
+  book_id: 'a',
+  pages_read: pages,
+  duration_minutes: minutes,
+  started_at: started.toISOString(),
+  created_at: started.toISOString(),
+});
+
+describe('isDayKey', () => {
+  it('accepts real calendar days only', () => {
+    expect(isDayKey('2026-02-28')).toBe(true);
+    expect(isDayKey('2026-02-30')).toBe(false);
+    expect(isDayKey('2026-2-28')).toBe(false);
+  });
+});
+
+describe('getGoalWindow', () => {
+  const today = at(2026, 3, 11);
+
+  it('covers the calendar year, month or Sunday-to-Saturday week', () => {
+    expect(getGoalWindow(makeGoal({ period: 'yearly' }), today)).toEqual({ start: '2026-01-01', end: '2026-12-31' });
+    expect(getGoalWindow(makeGoal({ period: 'monthly' }), today)).toEqual({ start: '2026-03-01', end: '2026-03-31' });
+    expect(getGoalWindow(makeGoal({ period: 'weekly' }), today)).toEqual({ start: '2026-03-08', end: '2026-03-14' });
+  });
+
+  it('uses the first period before a goal starts and the last one after it ends', () => {
+    const goal = makeGoal({ period: 'monthly', start_date: '2026-05-10', end_date: '2026-07-15' });
+    expect(getGoalWindow(goal, today)).toEqual({ start: '2026-05-01', end: '2026-05-31' });
+    expect(getGoalWindow(goal, at(2026, 9, 1))).toEqual({ start: '2026-07-01', end: '2026-07-31' });
+  });
+
+  it('covers the date range of a custom goal', () => {
+    const goal = makeGoal({ period: 'custom', start_date: '2026-03-01', end_date: '2026-04-15' });
+    expect(getGoalWindow(goal, today)).toEqual({ start: '2026-03-01', end: '2026-04-15' });
+  });
+});
+
+describe('isGoalActive', () => {
+  it('is active from the start date to the end date, if any', () => {
+    const custom = makeGoal({ period: 'custom', start_date: '2026-03-01', end_date: '2026-03-10' });
+    expect(isGoalActive(custom, at(2026, 3, 10))).toBe(true);
+    expect(isGoalActive(custom, at(2026, 3, 11))).toBe(false);
+    expect(isGoalActive(makeGoal({ start_date: '2026-04-01' }), at(2026, 3, 11))).toBe(false);
+    expect(isGoalActive(makeGoal({}), at(2030, 1, 1))).toBe(true);
+  });
+});
+
+describe('measureGoalMetric', () => {
+  const activity: GoalActivity = {
+    books: [makeBook('a'), makeBook('b', { status: 'finished', date_finished: at(2026, 3, 2).toISOString() })],
+    reads: [makeRead('a', at(2026, 3, 1)), makeRead('a', at(2026, 2, 28))],
+    sessions: [makeSession(at(2026, 3, 1), 40, 30), makeSession(at(2026, 3, 31, 23), 10, 5), makeSession(at(2026, 4, 1), 99, 99)],
+  };
+  const march = { start: '2026-03-01', end: '2026-03-31' };
+
+  it('counts finished reads, and finished books without recorded reads', () => {
+    expect(measureGoalMetric('books', march, activity)).toBe(2);
+  });
+
+  it('sums pages and minutes from sessions on local days within the window', () => {
+    expect(measureGoalMetric('pages', march, activity)).toBe(50);
+    expect(measureGoalMetric('minutes', march, activity)).toBe(35);
+  });
+});
+
+describe('getGoalProgress', () => {
+  it('reports the current amount, percentage and completion', () => {
+    const activity: GoalActivity = {
+      books: [],
+      reads: [],
+      sessions: [makeSession(at(2026, 3, 9), 150, 60)],
+    };
+    const progress = getGoalProgress(makeGoal({ period: 'weekly', metric: 'pages', target: 200 }), activity, at(2026, 3, 11));
+    expect(progress).toMatchObject({ current: 150, target: 200, percent: 75, isComplete: false });
+  });
+});
+
+describe('describeGoal', () => {
+  it('names the target, unit and period', () => {
+    expect(describeGoal(makeGoal({}))).toBe('12 books this year');
+    expect(describeGoal(makeGoal({ period: 'weekly', metric: 'pages', target: 1 }))).toBe('1 page this week');
+    expect(describeGoal(makeGoal({ period: 'custom', target: 3, start_date: '2026-03-01', end_date: '2026-03-31' })))
+      .toBe('3 books by Mar 31');
+  });
+});
+
+describe('findDuplicateGoals', () => {
+  const splitPages = (id: string, updatedAt: string, target = 5000) =>
+    makeGoal({ id, metric: 'pages', target, start_date: '2025-01-01', end_date: '2025-12-31', updated_at: updatedAt });
+
+  it('keeps the most recently updated copy of a migrated pages goal', () => {
+    const older = splitPages('device', '2026-01-01T00:00:00.000Z');
+    const newer = splitPages('server', '2026-02-01T00:00:00.000Z');
+    const otherYear = makeGoal({ id: 'pages-2026', metric: 'pages', target: 5000, end_date: '2026-12-31' });
+    expect(findDuplicateGoals([older, otherYear, newer])).toEqual([older]);
+  });
+
+  it('leaves goals the user set alone, even when they match', () => {
+    const first = makeGoal({ id: 'first', metric: 'pages', target: 5000 });
+    const second = makeGoal({ id: 'second', metric: 'pages', target: 5000 });
+    const books = makeGoal({ id: 'books', start_date: '2025-01-01', end_date: '2025-12-31' });
+    const booksAgain = makeGoal({ id: 'books-again', start_date: '2025-01-01', end_date: '2025-12-31' });
+    expect(findDuplicateGoals([first, second, books, booksAgain])).toEqual([]);
+  });
+
+  it('keeps migrated pages goals with different targets', () => {
+    const goals = [splitPages('a', '2026-01-01T00:00:00.000Z'), splitPages('b', '2026-02-01T00:00:00.000Z', 8000)];
+    expect(findDuplicateGoals(goals)).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import type { Book } from '../../stores/appStore';
+import {
+  buildImportPreview,
+  detectImportSource,
+  findImportDuplicate,
+  parseImportDate,
+  parseImportFile,
+  type ImportedBook,
+} from '../importers';
+
+const GOODREADS_CSV = [
+  'Book Id,Title,Author,ISBN,ISBN13,My Rating,Number of Pages,Date Read,Date Added,Bookshelves,Exclusive Shelf,My Review,Spoiler',
+  '1,"Dune",Frank Herbert,"=""0441172717""","=""9780441172719""",5,617,2024/03/05,2024/01/02,"science-fiction, favorites",read,"Great<br/>book",true',
+  '2,The Hobbit,J.R.R. Tolkien,,,0,300,,2024/02/01,,currently-reading,,false',
+  '3,,Nobody,,,0,,,,,to-read,,false',
+].join('\n');
+
+const STORYGRAPH_CSV = [
+  'Title,Authors,ISBN/UID,Read Status,Star Rating,Dates Read,Last Date Read,Date Added,Tags,Review',
+  'Emma,Jane Austen,9780141439587,read,4.25,"2021/03/01-2021/03/10, 2023/01/05-2023/01/20",2023/01/20,2021/02/01,Romance,Lovely',
+  'Atomic Habits,"James Clear",,did-not-finish,,,,2022/05/05,,',
+].join('\n');
+
+const makeBook = (overrides: Partial<Book>): Book => ({
+  id: 'book-1',
+  title: 'Dune',
+  author: 'Frank Herbert',
+  total_pages: 617,
+  current_page: 0,
+  progress: 0,
+  status: 'to_read',
+  date_added: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('detectImportSource', () => {
+  it('recognizes Goodreads and StoryGraph headers', () => {
+    expect(detectImportSource(['Title', 'Exclusive Shelf', 'My Rating'])).toBe('goodreads');
+    expect(detectImportSource(['Title', 'Read Status', 'Star Rating'])).toBe('storygraph');
+    expect(detectImportSource(['Title', 'Author'])).toBeNull();
+  });
+});
+
+describe('parseImportDate', () => {
+  it('reads full and partial dates as midday local time', () => {
+    expect(parseImportDate('2024/03/05')).toBe(new Date(2024, 2, 5, 12).toISOString());
+    expect(parseImportDate('2024-03-05')).toBe(new Date(2024, 2, 5, 12).toISOString());
+    expect(parseImportDate('2024/03')).toBe(new Date(2024, 2, 1, 12).toISOString());
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseImportDate('')).toBeNull();
+    expect(parseImportDate(undefined)).toBeNull();
+    expect(parseImportDate('March 2024')).toBeNull();
+  });
+});
+
+describe('parseImportFile', () => {
+  it('maps a Goodreads export and skips rows without a title', () => {
+    const { source, books } = parseImportFile(GOODREADS_CSV);
+
+    expect(source).toBe('goodreads');
+    expect(books).toHaveLength(2);
+    expect(books[0]).toMatchObject({
+      row: 1,
+      title: 'Dune',
+      isbn: '9780441172719',
+      total_pages: 617,
+      status: 'finished',
+      rating: 5,
+      category: 'Science Fiction',
+      review: 'Great\nbook',
+      review_spoiler: true,
+      reads: [{ date_started: null, date_finished: parseImportDate('2024/03/05') }],
+    });
+    expect(books[1]).toMatchObject({ title: 'The Hobbit', status: 'reading', rating: null, isbn: null, reads: [] });
+  });
+
+  it('maps a StoryGraph export with several reads', () => {
+    const { source, books } = parseImportFile(STORYGRAPH_CSV);
+
+    expect(source).toBe('storygraph');
+    expect(books[0]).toMatchObject({
+      title: 'Emma',
+      author: 'Jane Austen',
+      status: 'finished',
+      rating: 4.5,
+      category: 'Romance',
+      total_pages: 0,
+    });
+    expect(books[0]?.reads).toEqual([
+      { date_started: parseImportDate('2021/03/01'), date_finished: parseImportDate('2021/03/10') },
+      { date_started: parseImportDate('2023/01/05'), date_finished: parseImportDate('2023/01/20') },
+    ]);
+    expect(books[1]).toMatchObject({ title: 'Atomic Habits', status: 'dnf', reads: [] });
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseImportFile('Title,Author\nDune,Frank Herbert')).toThrow(/not a Goodreads or StoryGraph/);
+  });
+});
+
+describe('findImportDuplicate', () => {
+  const imported = (overrides: Partial<ImportedBook>): ImportedBook => ({
+    row: 1,
+    title: 'Dune',
+    author: 'Frank Herbert',
+    isbn: null,
+    total_pages: 0,
+    status: 'to_read',
+    rating: null,
+    category: null,
+    review: null,
+    review_spoiler: false,
+    date_added: null,
+    reads: [],
+    ...overrides,
+  });
+
+  it('matches by ISBN, whatever form the library holds', () => {
+    const library = [makeBook({ title: 'Something else', isbn: '0-441-17271-7' })];
+    expect(findImportDuplicate(imported({ isbn: '9780441172719' }), library)).toBe(library[0]);
+  });
+
+  it('matches by title and author, ignoring case, punctuation and subtitles', () => {
+    const library = [makeBook({ title: 'DUNE', author: 'frank herbert' })];
+    expect(findImportDuplicate(imported({ title: 'Dune: Deluxe Edition' }), library)).toBe(library[0]);
+    expect(findImportDuplicate(imported({ author: 'Brian Herbert' }), library)).toBeNull();
+  });
+
+  it('marks duplicates in the preview', () => {
+    const library = [makeBook({})];
+    const preview = buildImportPreview([imported({}), imported({ row: 2, title: 'Emma', author: 'Jane Austen' })], library);
+    expect(preview.map((item) => item.duplicateOf)).toEqual([library[0], null]);
+  });
+});
@@ -0,0 +1,33 @@
+import { cleanIsbn, isValidIsbn10, isValidIsbn13, isbn10To13, normalizeIsbn } from '../isbn';
+
+describe('ISBN helpers', () => {
+  it('strips hyphens and spaces and upper-cases the check digit', () => {
+    expect(cleanIsbn('0-8044-2957-x')).toBe('080442957X');
+    expect(cleanIsbn('978 0 547 92822 7')).toBe('9780547928227');
+  });
+
+  it('validates ISBN-10 checksums, including an X check digit', () => {
+    expect(isValidIsbn10('0441172717')).toBe(true);
+    expect(isValidIsbn10('054792822X')).toBe(true);
+    expect(isValidIsbn10('0547928220')).toBe(false);
+    expect(isValidIsbn10('054792822')).toBe(false);
+  });
+
+  it('validates ISBN-13 checksums and prefixes', () => {
+    expect(isValidIsbn13('9780547928227')).toBe(true);
+    expect(isValidIsbn13('9780547928228')).toBe(false);
+    // Correct checksum, but not a book prefix
+    expect(isValidIsbn13('4006381333931')).toBe(false);
+  });
+
+  it('converts an ISBN-10 to its ISBN-13', () => {
+    expect(isbn10To13('054792822X')).toBe('9780547928227');
+  });
+
+  it('normalizes either form to ISBN-13 and rejects bad checksums', () => {
+    expect(normalizeIsbn('0-547-92822-x')).toBe('9780547928227');
+    expect(normalizeIsbn('978-0-547-92822-7')).toBe('9780547928227');
+    expect(normalizeIsbn('978-0-547-92822-8')).toBeNull();
+    expect(normalizeIsbn('not an isbn')).toBeNull();
+  });
+});
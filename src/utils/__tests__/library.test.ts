@@ -0,0 +1,147 @@
+import type { Book, BookRead } from '../../stores/appStore';
+import {
+  DEFAULT_LIBRARY_VIEW,
+  buildLibraryList,
+  filterBooks,
+  getLibraryFacets,
+  groupBooks,
+  sortBooks,
+} from '../library';
+
+// Local times, so each date falls in the expected year in any time zone
+const at = (year: number, month: number, day: number) => new Date(year, month - 1, day, 12).toISOString();
+
+const makeBook = (id: string, overrides: Partial<Book> = {}): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Author',
+  total_pages: 300,
+  current_page: 0,
+  progress: 0,
+  status: 'to_read',
+  date_added: at(2025, 1, 1),
+  ...overrides,
+});
+
+const dune = makeBook('dune', {
+  title: 'Dune',
+  author: 'Frank Herbert',
+  category: 'Science Fiction',
+  rating: 4.5,
+  status: 'finished',
+  progress: 100,
+  date_added: at(2024, 5, 1),
+  date_finished: at(2024, 6, 1),
+});
+const emma = makeBook('emma', {
+  title: 'emma',
+  author: 'Jane Austen',
+  category: 'Classics',
+  rating: 3,
+  status: 'finished',
+  progress: 100,
+  date_added: at(2025, 2, 1),
+  date_finished: at(2025, 3, 1),
+});
+const persuasion = makeBook('persuasion', {
+  title: 'Persuasion',
+  author: 'Jane Austen',
+  category: 'Classics',
+  status: 'reading',
+  progress: 40,
+  date_added: at(2025, 4, 1),
+});
+const untitled = makeBook('notes', { title: 'Notebook', author: 'Anon', date_added: at(2025, 5, 1) });
+
+const books = [dune, emma, persuasion, untitled];
+
+const finishedRead = (bookId: string, finished: string): BookRead => ({
+  id: `read-${bookId}-${finished}`,
+  book_id: bookId,
+  status: 'finished',
+  current_page: 300,
+  progress: 100,
+  date_started: null,
+  date_finished: finished,
+  created_at: finished,
+  updated_at: finished,
+});
+
+// Dune was finished three times, the middle read matching its book row
+const duneReads = [
+  finishedRead('dune', at(2023, 8, 1)),
+  finishedRead('dune', at(2024, 6, 1)),
+  finishedRead('dune', at(2025, 9, 1)),
+];
+
+describe('filterBooks', () => {
+  const noFilters = DEFAULT_LIBRARY_VIEW.filters;
+
+  it('filters by status, category and minimum rating', () => {
+    expect(filterBooks(books, [], { ...noFilters, status: 'reading' })).toEqual([persuasion]);
+    expect(filterBooks(books, [], { ...noFilters, category: 'Uncategorized' })).toEqual([untitled]);
+    expect(filterBooks(books, [], { ...noFilters, minRating: 4 })).toEqual([dune]);
+  });
+
+  it('filters by the year a book was finished', () => {
+    expect(filterBooks(books, [], { ...noFilters, yearFinished: 2025 })).toEqual([emma]);
+  });
+
+  it('lists a re-read book under every year it was finished', () => {
+    expect(filterBooks(books, duneReads, { ...noFilters, yearFinished: 2023 })).toEqual([dune]);
+    expect(filterBooks(books, duneReads, { ...noFilters, yearFinished: 2024 })).toEqual([dune]);
+    expect(filterBooks(books, duneReads, { ...noFilters, yearFinished: 2025 })).toEqual([dune, emma]);
+  });
+});
+
+describe('sortBooks', () => {
+  it('sorts titles without regard to case', () => {
+    expect(sortBooks(books, 'title', true).map((book) => book.id)).toEqual(['dune', 'emma', 'notes', 'persuasion']);
+  });
+
+  it('sorts by author, then title', () => {
+    expect(sortBooks(books, 'author', true).map((book) => book.id)).toEqual(['notes', 'dune', 'emma', 'persuasion']);
+  });
+
+  it('keeps unfinished books last when sorting by finish date either way', () => {
+    expect(sortBooks(books, 'date_finished', false).map((book) => book.id)).toEqual(['emma', 'dune', 'notes', 'persuasion']);
+    expect(sortBooks(books, 'date_finished', true).map((book) => book.id)).toEqual(['dune', 'emma', 'notes', 'persuasion']);
+  });
+
+  it('sorts newest additions first by default', () => {
+    expect(buildLibraryList(books, [], DEFAULT_LIBRARY_VIEW).map((item) => item.key)).toEqual(['notes', 'persuasion', 'emma', 'dune']);
+  });
+});
+
+describe('groupBooks', () => {
+  it('puts a header with the count before each group, in name order', () => {
+    expect(groupBooks([dune, emma, persuasion, untitled], 'category').map((item) => item.key)).toEqual([
+      'header:Classics',
+      'emma',
+      'persuasion',
+      'header:Science Fiction',
+      'dune',
+      'header:Uncategorized',
+      'notes',
+    ]);
+    expect(groupBooks([emma, persuasion], 'author')[0]).toEqual({
+      type: 'header',
+      key: 'header:Jane Austen',
+      title: 'Jane Austen',
+      count: 2,
+    });
+  });
+});
+
+describe('getLibraryFacets', () => {
+  it('lists categories alphabetically and finished years newest first', () => {
+    expect(getLibraryFacets(books, [])).toEqual({
+      categories: ['Classics', 'Science Fiction', 'Uncategorized'],
+      years: [2025, 2024],
+    });
+  });
+
+  it('includes the years of earlier reads', () => {
+    expect(getLibraryFacets(books, duneReads).years).toEqual([2025, 2024, 2023]);
+  });
+});
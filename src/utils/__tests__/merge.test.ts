@@ -0,0 +1,65 @@
+import { changedFields, mergeRecord } from '../merge';
+
+const FIELDS = ['id', 'title', 'rating', 'content', 'updated_at'];
+
+const base = { id: 'a', title: 'Dune', rating: 3, content: 'Base', updated_at: '2026-01-01T00:00:00Z' };
+
+describe('changedFields', () => {
+  it('lists fields that differ from the base, skipping identity and timestamps', () => {
+    const record = { ...base, rating: 5, updated_at: '2026-01-02T00:00:00Z' };
+    expect(changedFields(base, record, FIELDS)).toEqual({ rating: 5 });
+  });
+
+  it('treats undefined and null as the same value', () => {
+    const withNull: Record<string, unknown> = { ...base, rating: null };
+    const withUndefined = { ...base, rating: undefined };
+    expect(changedFields(withNull, withUndefined, FIELDS)).toEqual({});
+  });
+});
+
+describe('mergeRecord', () => {
+  it('takes fields each side changed on its own', () => {
+    const local = { ...base, rating: 5, updated_at: '2026-01-02T00:00:00Z' };
+    const remote = { ...base, title: 'Dune Messiah', updated_at: '2026-01-03T00:00:00Z' };
+
+    const result = mergeRecord(base, local, remote, FIELDS);
+
+    expect(result.merged).toMatchObject({ title: 'Dune Messiah', rating: 5, updated_at: local.updated_at });
+    expect(result.localChanges).toEqual({ rating: 5 });
+    expect(result.conflictingFields).toEqual([]);
+  });
+
+  it('reports a conflict for a field both sides changed, whichever clock is ahead', () => {
+    const local = { ...base, rating: 5, updated_at: '2026-01-04T00:00:00Z' };
+    const remote = { ...base, rating: 1, updated_at: '2026-01-03T00:00:00Z' };
+
+    const result = mergeRecord(base, local, remote, FIELDS);
+
+    expect(result.conflictingFields).toEqual(['rating']);
+    expect(result.merged.rating).toBe(1);
+    expect(result.localChanges).toEqual({});
+    expect(mergeRecord(base, { ...local, updated_at: '2026-01-02T00:00:00Z' }, remote, FIELDS).conflictingFields)
+      .toEqual(['rating']);
+  });
+
+  it('keeps fields changed on one side alongside a conflict', () => {
+    const local = { ...base, rating: 5, content: 'Mine', updated_at: '2026-01-04T00:00:00Z' };
+    const remote = { ...base, content: 'Theirs', updated_at: '2026-01-03T00:00:00Z' };
+
+    const result = mergeRecord(base, local, remote, FIELDS);
+
+    expect(result.conflictingFields).toEqual(['content']);
+    expect(result.merged).toMatchObject({ rating: 5, content: 'Theirs' });
+    expect(result.localChanges).toEqual({ rating: 5 });
+  });
+
+  it('treats every difference as a conflict without a base', () => {
+    const local = { ...base, rating: 4, updated_at: '2026-01-04T00:00:00Z' };
+    const remote = { ...base, rating: 2, updated_at: '2026-01-03T00:00:00Z' };
+
+    const result = mergeRecord(null, local, remote, FIELDS);
+
+    expect(result.conflictingFields).toEqual(['rating']);
+    expect(result.localChanges).toEqual({});
+  });
+});
@@ -0,0 +1,120 @@
+import type { Book, ReadingGoal, ReadingSession } from '../../stores/appStore';
+import { describePace, getGoalPace, getPagesForNextBooks } from '../pacing';
+import type { GoalActivity } from '../goals';
+
+const at = (year: number, month: number, day: number, hour = 12) => new Date(year, month - 1, day, hour);
+
+const makeBook = (id: string, overrides: Partial<Book>): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Author',
+  total_pages: 300,
+  current_page: 0,
+  progress: 0,
+  status: 'to_read',
+  date_added: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const session = (started: Date, pages: number): ReadingSession => ({
+  id: `session-${started.getTime()}`,
+  book_id: 'a',
+  pages_read: pages,
+  duration_minutes: 30,
+  started_at: started.toISOString(),
+  created_at: started.toISOString(),
+});
+
+// 100 pages over ten days, so an even pace is 10 pages a day
+const goal: ReadingGoal = {
+  id: 'goal-1',
+  period: 'custom',
+  metric: 'pages',
+  target: 100,
+  start_date: '2026-03-01',
+  end_date: '2026-03-10',
+};
+
+const activityWith = (pages: number): GoalActivity => ({
+  books: [],
+  reads: [],
+  sessions: pages > 0 ? [session(at(2026, 3, 2), pages)] : [],
+});
+
+describe('getPagesForNextBooks', () => {
+  const books = [
+    makeBook('queued-later', { date_added: '2026-02-01T00:00:00.000Z', total_pages: 0 }),
+    makeBook('queued-first', { total_pages: 150 }),
+    makeBook('reading', { status: 'reading', total_pages: 300, current_page: 100 }),
+    makeBook('done', { status: 'finished' }),
+  ];
+
+  it('takes books in progress first, then the to-read pile in the order it was added', () => {
+    expect(getPagesForNextBooks(books, 0)).toBe(0);
+    expect(getPagesForNextBooks(books, 2)).toBe(350);
+    // A book without a page count is assumed to be 300 pages
+    expect(getPagesForNextBooks(books, 3)).toBe(650);
+  });
+
+  it('assumes books beyond the queue are as long as the queued ones', () => {
+    expect(getPagesForNextBooks(books, 4)).toBe(867);
+    expect(getPagesForNextBooks([], 2)).toBe(600);
+  });
+});
+
+describe('getGoalPace', () => {
+  it('is ahead when past an even pace, with what is needed to finish on time', () => {
+    const pace = getGoalPace(goal, activityWith(70), at(2026, 3, 5));
+
+    expect(pace).toMatchObject({
+      status: 'ahead',
+      expected: 50,
+      difference: 20,
+      remaining: 30,
+      daysLeft: 6,
+      requiredPerDay: 5,
+      requiredDailyPages: 5,
+    });
+    // 70 pages in the last 30 days is 7/3 a day, so 30 more pages take 13 days
+    expect(pace.projectedCompletion).toBe('2026-03-18');
+    expect(describePace(goal, pace)).toBe('20 pages ahead of schedule');
+  });
+
+  it('is behind when short of an even pace', () => {
+    const pace = getGoalPace(goal, activityWith(10), at(2026, 3, 5));
+    expect(pace.status).toBe('behind');
+    expect(describePace(goal, pace)).toBe('40 pages behind schedule');
+  });
+
+  it('is on track within 1% of the target', () => {
+    expect(getGoalPace(goal, activityWith(50), at(2026, 3, 5)).status).toBe('on_track');
+  });
+
+  it('reports complete, upcoming and missed goals', () => {
+    const complete = getGoalPace(goal, activityWith(100), at(2026, 3, 5));
+    expect(complete.status).toBe('complete');
+    expect(complete.projectedCompletion).toBe('2026-03-05');
+    expect(describePace(goal, complete)).toBe('Goal reached!');
+
+    expect(getGoalPace(goal, activityWith(0), at(2026, 2, 20)).status).toBe('upcoming');
+
+    const missed = getGoalPace(goal, activityWith(70), at(2026, 3, 12));
+    expect(missed.status).toBe('missed');
+    expect(describePace(goal, missed)).toBe('Ended 30 pages short');
+  });
+
+  it('has no projection without recent reading', () => {
+    expect(getGoalPace(goal, activityWith(0), at(2026, 3, 5)).projectedCompletion).toBeNull();
+  });
+
+  it('turns a books goal into pages a day from the reading queue', () => {
+    const booksGoal: ReadingGoal = { ...goal, metric: 'books', target: 2 };
+    const activity: GoalActivity = {
+      books: [makeBook('a', { status: 'reading', current_page: 100 }), makeBook('b', { total_pages: 200 })],
+      reads: [],
+      sessions: [],
+    };
+    // 400 pages over the 6 days left
+    expect(getGoalPace(booksGoal, activity, at(2026, 3, 5)).requiredDailyPages).toBe(67);
+  });
+});
@@ -0,0 +1,24 @@
+import { formatRating, normalizeRating } from '../ratings';
+
+describe('normalizeRating', () => {
+  it('rounds to the nearest half star within one to five stars', () => {
+    expect(normalizeRating(3.3)).toBe(3.5);
+    expect(normalizeRating(3.2)).toBe(3);
+    expect(normalizeRating(7)).toBe(5);
+  });
+
+  it('treats missing or sub-half-star values as no rating', () => {
+    expect(normalizeRating(0.2)).toBeNull();
+    expect(normalizeRating(0)).toBeNull();
+    expect(normalizeRating(null)).toBeNull();
+    expect(normalizeRating(undefined)).toBeNull();
+    expect(normalizeRating(Number.NaN)).toBeNull();
+  });
+});
+
+describe('formatRating', () => {
+  it('shows whole stars without a decimal', () => {
+    expect(formatRating(4)).toBe('4/5');
+    expect(formatRating(4.5)).toBe('4.5/5');
+  });
+});
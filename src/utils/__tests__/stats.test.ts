@@ -0,0 +1,141 @@
+import type { Book, BookRead, ReadingSession } from '../../stores/appStore';
+import {
+  getAverageRating,
+  getAverageReadingSpeed,
+  getBooksFinishedByMonth,
+  getCategoryBreakdown,
+  getFinishTimeDistribution,
+  getPageStats,
+  getReadingHeatmap,
+} from '../stats';
+
+// Local times, so sessions fall on the expected days in any time zone
+const at = (year: number, month: number, day: number, hour = 12) => new Date(year, month - 1, day, hour);
+
+// A Wednesday
+const TODAY = at(2026, 3, 11);
+
+const makeBook = (id: string, overrides: Partial<Book> = {}): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Author',
+  total_pages: 300,
+  current_page: 0,
+  progress: 0,
+  status: 'to_read',
+  date_added: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const finishedRead = (bookId: string, started: Date | null, finished: Date): BookRead => ({
+  id: `read-${bookId}-${finished.getTime()}`,
+  book_id: bookId,
+  status: 'finished',
+  current_page: 300,
+  progress: 100,
+  date_started: started?.toISOString() ?? null,
+  date_finished: finished.toISOString(),
+  created_at: finished.toISOString(),
+  updated_at: finished.toISOString(),
+});
+
+const session = (started: Date, pages: number, minutes?: number): ReadingSession => ({
+  id: `session-${started.getTime()}`,
+  book_id: 'a',
+  pages_read: pages,
+  ...(minutes !== undefined && { duration_minutes: minutes }),
+  started_at: started.toISOString(),
+  created_at: started.toISOString(),
+});
+
+describe('getPageStats', () => {
+  it('adds up pages for today, the week since Sunday, the month and the last 30 days', () => {
+    const sessions = [
+      session(at(2026, 3, 11, 8), 10),
+      session(at(2026, 3, 11, 21), 5),
+      session(at(2026, 3, 8), 20),
+      session(at(2026, 3, 7), 30),
+      session(at(2026, 2, 20), 40),
+      session(at(2026, 1, 1), 500),
+      // Tomorrow's session, e.g. from a device clock ahead of this one, does not count yet
+      session(at(2026, 3, 12), 99),
+    ];
+
+    expect(getPageStats(sessions, TODAY)).toEqual({
+      today: 15,
+      thisWeek: 35,
+      thisMonth: 65,
+      dailyAverage: 4,
+    });
+  });
+});
+
+describe('getBooksFinishedByMonth', () => {
+  it('counts every finished read in its month, re-reads included', () => {
+    const reads = [
+      finishedRead('a', null, at(2026, 1, 5)),
+      finishedRead('a', null, at(2026, 3, 1)),
+      finishedRead('b', null, at(2025, 3, 1)),
+    ];
+    const books = [makeBook('c', { status: 'finished', date_finished: at(2026, 3, 9).toISOString() })];
+
+    expect(getBooksFinishedByMonth(books, reads, 2026)).toEqual([1, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe('getAverageReadingSpeed', () => {
+  it('uses only sessions with both pages and a duration', () => {
+    const sessions = [session(TODAY, 30, 30), session(TODAY, 0, 60), session(TODAY, 50)];
+    expect(getAverageReadingSpeed(sessions)).toBe(60);
+    expect(getAverageReadingSpeed([session(TODAY, 50)])).toBeNull();
+  });
+});
+
+describe('getCategoryBreakdown', () => {
+  it('counts books per category, largest first', () => {
+    const books = [
+      makeBook('a', { category: 'History' }),
+      makeBook('b', { category: 'Fiction' }),
+      makeBook('c', { category: 'Fiction' }),
+      makeBook('d'),
+    ];
+    expect(getCategoryBreakdown(books)).toEqual([
+      { category: 'Fiction', count: 2 },
+      { category: 'History', count: 1 },
+      { category: 'Uncategorized', count: 1 },
+    ]);
+  });
+});
+
+describe('getAverageRating', () => {
+  it('averages rated books only', () => {
+    expect(getAverageRating([makeBook('a', { rating: 4 }), makeBook('b', { rating: 3 }), makeBook('c')])).toBe(3.5);
+    expect(getAverageRating([makeBook('a')])).toBeNull();
+  });
+});
+
+describe('getFinishTimeDistribution', () => {
+  it('buckets finished reads by the days from start to finish', () => {
+    const reads = [
+      finishedRead('a', at(2026, 1, 1), at(2026, 1, 3)),
+      finishedRead('b', at(2026, 1, 1), at(2026, 1, 10)),
+      finishedRead('c', at(2026, 1, 1), at(2026, 6, 1)),
+      // Without a start date it cannot be placed
+      finishedRead('d', null, at(2026, 1, 3)),
+    ];
+
+    expect(getFinishTimeDistribution([], reads).map((bucket) => bucket.count)).toEqual([1, 1, 0, 0, 1]);
+  });
+});
+
+describe('getReadingHeatmap', () => {
+  it('returns Sunday-first weeks ending with this one, levels relative to the busiest day', () => {
+    const columns = getReadingHeatmap([session(at(2026, 3, 2), 40), session(at(2026, 3, 10), 10)], 2, TODAY);
+
+    expect(columns).toHaveLength(2);
+    expect(columns[0]?.[0]?.day).toBe('2026-03-01');
+    expect(columns[0]?.[1]).toEqual({ day: '2026-03-02', pages: 40, level: 4, isFuture: false });
+    expect(columns[1]?.[2]).toEqual({ day: '2026-03-10', pages: 10, level: 1, isFuture: false });
+    expect(columns[1]?.[4]).toMatchObject({ day: '2026-03-12', isFuture: true });
+  });
+});
@@ -0,0 +1,32 @@
+import { calculateStreak } from '../streaks';
+
+const today = new Date(2026, 2, 10, 12);
+
+describe('calculateStreak', () => {
+  it('has no streak without reading days', () => {
+    expect(calculateStreak([], today)).toEqual({ current_streak: 0, longest_streak: 0, last_read_date: null });
+  });
+
+  it('counts consecutive days up to today', () => {
+    const streak = calculateStreak(['2026-03-08', '2026-03-09', '2026-03-10'], today);
+    expect(streak).toEqual({ current_streak: 3, longest_streak: 3, last_read_date: '2026-03-10' });
+  });
+
+  it('keeps the streak alive until a whole day is missed', () => {
+    expect(calculateStreak(['2026-03-08', '2026-03-09'], today).current_streak).toBe(2);
+    expect(calculateStreak(['2026-03-07', '2026-03-08'], today).current_streak).toBe(0);
+  });
+
+  it('remembers the longest run and ignores duplicate and unordered days', () => {
+    const streak = calculateStreak(
+      ['2026-03-10', '2026-02-01', '2026-02-02', '2026-02-03', '2026-02-02', '2026-03-09'],
+      today
+    );
+    expect(streak.longest_streak).toBe(3);
+    expect(streak.current_streak).toBe(2);
+  });
+
+  it('runs across month ends', () => {
+    expect(calculateStreak(['2026-02-27', '2026-02-28', '2026-03-01'], today).longest_streak).toBe(3);
+  });
+});
@@ -0,0 +1,139 @@
+import type { Book, BookRead, Highlight, Note, ReadingSession } from '../../stores/appStore';
+import {
+  buildYearInReview,
+  formatYearInReview,
+  getReviewYears,
+  type YearInReviewData,
+} from '../yearInReview';
+
+// Local times, so each date falls in the expected year and month in any time zone
+const at = (year: number, month: number, day: number, hour = 12) => new Date(year, month - 1, day, hour).toISOString();
+
+const makeBook = (id: string, overrides: Partial<Book> = {}): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Author',
+  total_pages: 300,
+  current_page: 0,
+  progress: 0,
+  status: 'finished',
+  date_added: at(2024, 1, 1),
+  ...overrides,
+});
+
+const finishedRead = (bookId: string, finished: string): BookRead => ({
+  id: `read-${bookId}-${finished}`,
+  book_id: bookId,
+  status: 'finished',
+  current_page: 300,
+  progress: 100,
+  date_started: null,
+  date_finished: finished,
+  created_at: finished,
+  updated_at: finished,
+});
+
+const session = (started: string, minutes: number): ReadingSession => ({
+  id: `session-${started}`,
+  book_id: 'long',
+  pages_read: 20,
+  duration_minutes: minutes,
+  started_at: started,
+  created_at: started,
+});
+
+const highlight = (bookId: string, created: string): Highlight => ({
+  id: `highlight-${bookId}-${created}`,
+  book_id: bookId,
+  text: 'A line worth keeping',
+  color: 'yellow',
+  created_at: created,
+});
+
+const note: Note = {
+  id: 'note-1',
+  book_id: 'short',
+  content: 'Thoughts',
+  created_at: at(2025, 4, 2),
+  updated_at: at(2025, 4, 2),
+};
+
+const data: YearInReviewData = {
+  books: [
+    makeBook('long', { title: 'Long', total_pages: 900, category: 'Fantasy', rating: 4 }),
+    makeBook('short', { title: 'Short', total_pages: 120, category: 'Fantasy', rating: 5 }),
+    makeBook('unpaged', { title: 'Unpaged', total_pages: 0, category: 'History' }),
+    makeBook('old', { title: 'Old', date_finished: at(2023, 8, 1) }),
+  ],
+  reads: [
+    finishedRead('long', at(2025, 3, 5)),
+    finishedRead('short', at(2025, 3, 20)),
+    // A re-read counts again
+    finishedRead('short', at(2025, 7, 1)),
+    finishedRead('unpaged', at(2024, 12, 30)),
+  ],
+  notes: [note],
+  highlights: [highlight('long', at(2025, 3, 1)), highlight('long', at(2025, 3, 2)), highlight('short', at(2025, 3, 3))],
+  sessions: [session(at(2025, 3, 1), 30), session(at(2025, 3, 2), 45), session(at(2025, 3, 3), 15), session(at(2026, 1, 1), 60)],
+};
+
+describe('getReviewYears', () => {
+  it('lists years with any activity, newest first', () => {
+    expect(getReviewYears(data)).toEqual([2026, 2025, 2024, 2023]);
+  });
+});
+
+describe('buildYearInReview', () => {
+  it('summarises the books finished and the activity in the year', () => {
+    const review = buildYearInReview(data, 2025);
+
+    expect(review).toMatchObject({
+      year: 2025,
+      booksFinished: 3,
+      pagesRead: 1140,
+      minutesRead: 90,
+      notesWritten: 1,
+      highlightsSaved: 3,
+      favoriteGenre: { category: 'Fantasy', count: 3 },
+      busiestMonth: { month: 2, count: 2 },
+      longestStreak: 3,
+    });
+    expect(review.longestBook?.id).toBe('long');
+    expect(review.shortestBook?.id).toBe('short');
+    expect(review.topRatedBook?.id).toBe('short');
+    expect(review.mostHighlighted).toMatchObject({ book: { id: 'long' }, count: 2 });
+  });
+
+  it('is empty for a year without reading', () => {
+    expect(buildYearInReview(data, 2022)).toMatchObject({
+      booksFinished: 0,
+      pagesRead: 0,
+      longestBook: null,
+      shortestBook: null,
+      topRatedBook: null,
+      busiestMonth: null,
+      longestStreak: 0,
+    });
+  });
+
+  it('has no shortest book when only one book has a page count', () => {
+    expect(buildYearInReview(data, 2024).longestBook).toBeNull();
+    expect(buildYearInReview(data, 2023)).toMatchObject({ longestBook: { id: 'old' }, shortestBook: null });
+  });
+});
+
+describe('formatYearInReview', () => {
+  it('writes the highlights of the year as plain text', () => {
+    expect(formatYearInReview(buildYearInReview(data, 2025))).toBe(
+      [
+        'My 2025 in Books 📚',
+        '3 books · 1,140 pages',
+        'Top rated: Short',
+        'Longest: Long (900 pages)',
+        'Favorite genre: Fantasy',
+        'Busiest month: March',
+        'Longest streak: 3 days',
+      ].join('\n')
+    );
+  });
+});
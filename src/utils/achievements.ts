@@ -0,0 +1,180 @@
+/**
+ * Achievements
+ * Each badge is a rule over the library, reading history, sessions, streak
+ * and goals. Rules only look at the data, so they can be re-checked any time;
+ * a badge stays unlocked once earned even if the data later changes.
+ */
+
+import type { Book, BookRead, ReadingGoal, ReadingSession, ReadingStreak } from '../stores/appStore';
+import { getCompletedReads } from './bookReads';
+import { getGoalProgress } from './goals';
+
+export interface AchievementContext {
+  books: Book[];
+  reads: BookRead[];
+  sessions: ReadingSession[];
+  streak: ReadingStreak;
+  goals: ReadingGoal[];
+}
+
+export interface Achievement {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+  isEarned: (stats: AchievementStats) => boolean;
+}
+
+// Figures the rules are written against, computed once per check
+export interface AchievementStats {
+  booksFinished: number;
+  pagesRead: number;
+  longestStreak: number;
+  categoriesFinished: number;
+  reviewsWritten: number;
+  booksReread: number;
+  longestSessionMinutes: number;
+  goalsReached: number;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first_book',
+    icon: '📖',
+    title: 'First Chapter',
+    description: 'Finish your first book',
+    isEarned: (stats) => stats.booksFinished >= 1,
+  },
+  {
+    id: 'books_10',
+    icon: '📚',
+    title: 'Bookworm',
+    description: 'Finish 10 books',
+    isEarned: (stats) => stats.booksFinished >= 10,
+  },
+  {
+    id: 'books_50',
+    icon: '🏛️',
+    title: 'Librarian',
+    description: 'Finish 50 books',
+    isEarned: (stats) => stats.booksFinished >= 50,
+  },
+  {
+    id: 'streak_7',
+    icon: '🔥',
+    title: 'On a Roll',
+    description: 'Read 7 days in a row',
+    isEarned: (stats) => stats.longestStreak >= 7,
+  },
+  {
+    id: 'streak_30',
+    icon: '🌟',
+    title: 'Habit Formed',
+    description: 'Read 30 days in a row',
+    isEarned: (stats) => stats.longestStreak >= 30,
+  },
+  {
+    id: 'streak_100',
+    icon: '💯',
+    title: 'Unstoppable',
+    description: 'Read 100 days in a row',
+    isEarned: (stats) => stats.longestStreak >= 100,
+  },
+  {
+    id: 'pages_10000',
+    icon: '⛰️',
+    title: '10,000 Pages',
+    description: 'Read 10,000 pages',
+    isEarned: (stats) => stats.pagesRead >= 10000,
+  },
+  {
+    id: 'goal_reached',
+    icon: '🎯',
+    title: 'Goal Getter',
+    description: 'Reach a reading goal',
+    isEarned: (stats) => stats.goalsReached >= 1,
+  },
+  {
+    id: 'genre_explorer',
+    icon: '🧭',
+    title: 'Genre Explorer',
+    description: 'Finish books in 5 different categories',
+    isEarned: (stats) => stats.categoriesFinished >= 5,
+  },
+  {
+    id: 'critic',
+    icon: '✍️',
+    title: 'Critic',
+    description: 'Write 10 reviews',
+    isEarned: (stats) => stats.reviewsWritten >= 10,
+  },
+  {
+    id: 'reread',
+    icon: '🔁',
+    title: 'Old Friend',
+    description: 'Finish a book a second time',
+    isEarned: (stats) => stats.booksReread >= 1,
+  },
+  {
+    id: 'marathon',
+    icon: '⏱️',
+    title: 'Marathon Reader',
+    description: 'Read for 2 hours in one session',
+    isEarned: (stats) => stats.longestSessionMinutes >= 120,
+  },
+];
+
+export function getAchievement(id: string): Achievement | undefined {
+  return ACHIEVEMENTS.find((achievement) => achievement.id === id);
+}
+
+export function getAchievementStats(context: AchievementContext, today: Date = new Date()): AchievementStats {
+  const completed = getCompletedReads(context.books, context.reads);
+  const booksById = new Map(context.books.map((book) => [book.id, book]));
+
+  const finishesPerBook = new Map<string, number>();
+  for (const read of completed) {
+    finishesPerBook.set(read.book_id, (finishesPerBook.get(read.book_id) ?? 0) + 1);
+  }
+
+  // Whole books for each finished read, plus the pages into books being read now
+  let pagesRead = 0;
+  for (const read of completed) {
+    pagesRead += booksById.get(read.book_id)?.total_pages ?? 0;
+  }
+  for (const book of context.books) {
+    if (book.status === 'reading' || book.status === 'dnf') pagesRead += book.current_page;
+  }
+
+  const categories = new Set<string>();
+  for (const bookId of finishesPerBook.keys()) {
+    const category = booksById.get(bookId)?.category;
+    if (category && category !== 'Other') categories.add(category);
+  }
+
+  const activity = { books: context.books, reads: context.reads, sessions: context.sessions };
+
+  return {
+    booksFinished: completed.length,
+    pagesRead,
+    longestStreak: context.streak.longest_streak,
+    categoriesFinished: categories.size,
+    reviewsWritten: context.books.filter((book) => book.review?.trim()).length,
+    booksReread: Array.from(finishesPerBook.values()).filter((count) => count >= 2).length,
+    longestSessionMinutes: Math.max(0, ...context.sessions.map((session) => session.duration_minutes ?? 0)),
+    goalsReached: context.goals.filter((goal) => getGoalProgress(goal, activity, today).isComplete).length,
+  };
+}
+
+/**
+ * Achievements earned by the data that are not yet in `unlockedIds`
+ */
+export function findNewAchievements(
+  context: AchievementContext,
+  unlockedIds: Iterable<string>,
+  today: Date = new Date()
+): Achievement[] {
+  const unlocked = new Set(unlockedIds);
+  const stats = getAchievementStats(context, today);
+  return ACHIEVEMENTS.filter((achievement) => !unlocked.has(achievement.id) && achievement.isEarned(stats));
+}
@@ -0,0 +1,84 @@
+/**
+ * Read history helpers
+ * A book's status fields describe its current read; every read, including
+ * earlier ones, is kept as a BookRead. A read is matched to the book by its
+ * start date, so starting or re-reading a book opens a new read.
+ */
+
+import type { Book, BookRead } from '../stores/appStore';
+
+export type ReadFields = Pick<
+  BookRead,
+  'status' | 'current_page' | 'progress' | 'date_started' | 'date_finished'
+>;
+
+// A finished read of a book, for yearly counts and reading times
+export interface CompletedRead {
+  book_id: string;
+  date_started: string | null;
+  date_finished: string;
+}
+
+/**
+ * Whether two timestamps are the same moment. Supabase returns `+00:00` where
+ * local records hold `Z`, so the strings themselves may differ.
+ */
+export function isSameInstant(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return (a ?? null) === (b ?? null);
+  const [timeA, timeB] = [Date.parse(a), Date.parse(b)];
+  return Number.isNaN(timeA) || Number.isNaN(timeB) ? a === b : timeA === timeB;
+}
+
+/**
+ * The read the book's status fields currently describe, if it has been recorded
+ */
+export function findCurrentRead(book: Book, reads: BookRead[]): BookRead | undefined {
+  if (!book.date_started) return undefined;
+  return reads.find((read) => read.book_id === book.id && isSameInstant(read.date_started, book.date_started));
+}
+
+/**
+ * Read fields for a book that has been started; null for a to-read book
+ */
+export function readFieldsFromBook(book: Book): ReadFields | null {
+  if (book.status === 'to_read' || !book.date_started) return null;
+  return {
+    status: book.status,
+    current_page: book.current_page,
+    progress: book.progress,
+    date_started: book.date_started,
+    date_finished: book.date_finished ?? null,
+  };
+}
+
+export function sortReads(reads: BookRead[]): BookRead[] {
+  const startedAt = (read: BookRead) => (read.date_started ? Date.parse(read.date_started) || 0 : 0);
+  return [...reads].sort((a, b) => startedAt(b) - startedAt(a));
+}
+
+/**
+ * Every finished read. Books finished before reads were recorded count once, by their own finish date.
+ */
+export function getCompletedReads(books: Book[], reads: BookRead[]): CompletedRead[] {
+  const completed: CompletedRead[] = [];
+  const booksWithReads = new Set<string>();
+
+  for (const read of reads) {
+    booksWithReads.add(read.book_id);
+    if (read.status === 'finished' && read.date_finished) {
+      completed.push({ book_id: read.book_id, date_started: read.date_started, date_finished: read.date_finished });
+    }
+  }
+  for (const book of books) {
+    if (!booksWithReads.has(book.id) && book.status === 'finished' && book.date_finished) {
+      completed.push({ book_id: book.id, date_started: book.date_started ?? null, date_finished: book.date_finished });
+    }
+  }
+  return completed;
+}
+
+export function countReadsFinishedIn(books: Book[], reads: BookRead[], year: number): number {
+  return getCompletedReads(books, reads).filter(
+    (read) => new Date(read.date_finished).getFullYear() === year
+  ).length;
+}
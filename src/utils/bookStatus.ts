@@ -0,0 +1,141 @@
+/**
+ * Book status transitions
+ * Each explicit status change also sets the dates, page and progress that go with it,
+ * so a finished book is always at 100% with a finish date and a to-read book has neither.
+ */
+
+import type { Book } from '../stores/appStore';
+
+export type BookStatusAction = 'start' | 'finish' | 'dnf' | 'reread' | 'want_to_read';
+
+export interface StatusActionOption {
+  action: BookStatusAction;
+  label: string;
+}
+
+type StatusFields = Pick<
+  Book,
+  'status' | 'current_page' | 'progress' | 'date_started' | 'date_finished' | 'dnf_reason'
+>;
+
+const ACTION_LABELS: Record<BookStatusAction, string> = {
+  start: 'Start Reading',
+  finish: 'Mark Finished',
+  dnf: 'Did Not Finish',
+  reread: 'Re-read',
+  want_to_read: 'Move to To Read',
+};
+
+const ALLOWED_ACTIONS: Record<Book['status'], BookStatusAction[]> = {
+  to_read: ['start', 'finish'],
+  reading: ['finish', 'dnf', 'want_to_read'],
+  finished: ['reread'],
+  // Picking a DNF book back up resumes where it was left
+  dnf: ['start', 'reread', 'want_to_read'],
+};
+
+export function getStatusActions(status: Book['status']): StatusActionOption[] {
+  return ALLOWED_ACTIONS[status].map((action) => ({ action, label: ACTION_LABELS[action] }));
+}
+
+export function canApplyStatusAction(status: Book['status'], action: BookStatusAction): boolean {
+  return ALLOWED_ACTIONS[status].includes(action);
+}
+
+export function calculateProgress(currentPage: number, totalPages: number): number {
+  if (totalPages <= 0) return 0;
+  return Math.min(100, Math.round((currentPage / totalPages) * 100));
+}
+
+/**
+ * Fields to update for a status change; throws if the change is not allowed from the current status
+ */
+export function applyStatusAction(
+  book: Book,
+  action: BookStatusAction,
+  options: { reason?: string; now?: Date } = {}
+): Partial<StatusFields> {
+  if (!canApplyStatusAction(book.status, action)) {
+    throw new Error(`Cannot ${ACTION_LABELS[action].toLowerCase()} a book that is ${book.status}`);
+  }
+
+  const now = (options.now ?? new Date()).toISOString();
+
+  switch (action) {
+    case 'start':
+      return {
+        status: 'reading',
+        date_started: book.date_started ?? now,
+        date_finished: null,
+        dnf_reason: null,
+      };
+    case 'finish':
+      return {
+        status: 'finished',
+        current_page: book.total_pages,
+        progress: 100,
+        date_started: book.date_started ?? now,
+        date_finished: now,
+        dnf_reason: null,
+      };
+    case 'dnf':
+      return {
+        status: 'dnf',
+        date_finished: null,
+        dnf_reason: options.reason?.trim() || null,
+      };
+    case 'reread':
+      return {
+        status: 'reading',
+        current_page: 0,
+        progress: 0,
+        date_started: now,
+        date_finished: null,
+        dnf_reason: null,
+      };
+    case 'want_to_read':
+      return {
+        status: 'to_read',
+        current_page: 0,
+        progress: 0,
+        date_started: null,
+        date_finished: null,
+        dnf_reason: null,
+      };
+  }
+}
+
+/**
+ * Fields to update when the current page changes: a first page starts the book,
+ * the last page finishes it
+ */
+export function applyProgress(book: Book, currentPage: number, now: Date = new Date()): Partial<StatusFields> {
+  const page = Math.max(0, Math.min(currentPage, book.total_pages));
+  const updates: Partial<StatusFields> = {
+    current_page: page,
+    progress: calculateProgress(page, book.total_pages),
+  };
+
+  if (book.total_pages > 0 && page >= book.total_pages && book.status !== 'finished') {
+    return { ...applyStatusAction({ ...book, status: 'reading' }, 'finish', { now }), ...updates };
+  }
+  // Paging back from the end of a finished book starts a new read; the finished one stays in the history
+  if (book.status === 'finished' && page < book.total_pages) {
+    return { ...applyStatusAction(book, 'reread', { now }), ...updates };
+  }
+  if (page > 0 && (book.status === 'to_read' || book.status === 'dnf')) {
+    return { ...applyStatusAction(book, 'start', { now }), ...updates };
+  }
+  return updates;
+}
+
+/**
+ * Fields to update when the page count changes: a finished book stays finished on its
+ * new last page, any other book keeps its page and may reach the end
+ */
+export function applyPageCount(book: Book, totalPages: number, now: Date = new Date()): Partial<StatusFields> {
+  if (book.status === 'finished') {
+    return { current_page: totalPages, progress: 100 };
+  }
+  return applyProgress({ ...book, total_pages: totalPages }, book.current_page, now);
+}
@@ -6,3 +6,19 @@ export const ROUTES = {
   SETTINGS: "/(tabs)/settings",
   DETAILS: "/(tabs)/details",
 } as const;
+
+export const BOOK_CATEGORIES = [
+  "Fiction",
+  "Non-Fiction",
+  "Science Fiction",
+  "Fantasy",
+  "Mystery",
+  "Romance",
+  "Thriller",
+  "Biography",
+  "Self-Help",
+  "Business",
+  "History",
+  "Science",
+  "Other",
+] as const;
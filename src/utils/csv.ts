@@ -0,0 +1,70 @@
+/**
+ * CSV parsing
+ * RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Spreadsheet exports often start with a byte order mark
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[index + 1] === '"') {
+          field += '"';
+          index++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no record
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Rows keyed by the header row's column names
+ */
+export function parseCsvRecords(text: string): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow, ...rows] = parseCsv(text);
+  const headers = (headerRow ?? []).map((header) => header.trim());
+
+  const records = rows.map((cells) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      record[header] = cells[column]?.trim() ?? '';
+    });
+    return record;
+  });
+
+  return { headers, records };
+}
@@ -0,0 +1,32 @@
+/**
+ * Local calendar day helpers.
+ * A reading day is the user's own calendar day, not the UTC one, so a late
+ * evening session west of Greenwich counts for the evening it happened.
+ */
+
+/**
+ * YYYY-MM-DD for the day the given moment falls on in the device time zone
+ */
+export function toLocalDayKey(value: Date | string): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local midnight of a YYYY-MM-DD day key
+ */
+export function fromLocalDayKey(key: string): Date {
+  const [year = 0, month = 1, day = 1] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Shift a day key by whole calendar days (safe across DST changes)
+ */
+export function addDays(key: string, days: number): string {
+  const date = fromLocalDayKey(key);
+  date.setDate(date.getDate() + days);
+  return toLocalDayKey(date);
+}
@@ -0,0 +1,170 @@
+/**
+ * Library export formats
+ * CSV has one row per book, JSON holds every entity as stored, and Markdown
+ * collects each book's notes and highlights
+ */
+
+import type {
+  Book,
+  BookRead,
+  Bookshelf,
+  BookshelfItem,
+  Highlight,
+  Note,
+  ReadingGoal,
+  ReadingSession,
+  ReadingStreak,
+} from '../stores/appStore';
+import { formatRating } from './ratings';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+export interface ExportData {
+  books: Book[];
+  reads: BookRead[];
+  notes: Note[];
+  highlights: Highlight[];
+  sessions: ReadingSession[];
+  shelves: Bookshelf[];
+  shelfItems: BookshelfItem[];
+  goals: ReadingGoal[];
+  streak: ReadingStreak | null;
+}
+
+// Bumped when the JSON layout changes, so an importer can tell versions apart
+export const EXPORT_VERSION = 1;
+
+const STATUS_LABELS: Record<Book['status'], string> = {
+  to_read: 'To Read',
+  reading: 'Reading',
+  finished: 'Finished',
+  dnf: 'Did Not Finish',
+};
+
+const CSV_COLUMNS = [
+  'Title', 'Author', 'ISBN', 'Status', 'Rating', 'Total Pages', 'Current Page', 'Progress',
+  'Category', 'Shelves', 'Date Added', 'Date Started', 'Date Finished', 'Times Read',
+  'Review', 'Notes', 'Highlights',
+] as const;
+
+const day = (date: string | null | undefined) => (date ? date.slice(0, 10) : '');
+
+/**
+ * Quote a CSV field when it holds a separator, quote or line break
+ */
+export function escapeCsv(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const countBy = <T>(items: T[], key: (item: T) => string) => {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  }
+  return counts;
+};
+
+export function buildCsv(data: ExportData): string {
+  const shelfNames = new Map(data.shelves.map((shelf) => [shelf.id, shelf.name]));
+  const finishedReads = countBy(data.reads.filter((read) => read.status === 'finished'), (read) => read.book_id);
+  const noteCounts = countBy(data.notes, (note) => note.book_id);
+  const highlightCounts = countBy(data.highlights, (highlight) => highlight.book_id);
+
+  const rows = data.books.map((book) => {
+    const shelves = data.shelfItems
+      .filter((item) => item.book_id === book.id)
+      .map((item) => shelfNames.get(item.bookshelf_id))
+      .filter((name): name is string => !!name);
+    // Books finished before reads were kept have no read rows
+    const timesRead = finishedReads.get(book.id) ?? (book.status === 'finished' ? 1 : 0);
+
+    return [
+      book.title,
+      book.author,
+      book.isbn,
+      STATUS_LABELS[book.status],
+      book.rating,
+      book.total_pages,
+      book.current_page,
+      book.progress,
+      book.category,
+      shelves.join('; '),
+      day(book.date_added),
+      day(book.date_started),
+      day(book.date_finished),
+      timesRead,
+      book.review,
+      noteCounts.get(book.id) ?? 0,
+      highlightCounts.get(book.id) ?? 0,
+    ].map(escapeCsv).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function buildJson(data: ExportData, exportedAt: Date = new Date()): string {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      exported_at: exportedAt.toISOString(),
+      ...data,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * One book's notes and highlights, in page order
+ */
+export function buildBookMarkdown(book: Book, notes: Note[], highlights: Highlight[]): string {
+  const byPage = <T extends { page?: number }>(items: T[]) =>
+    [...items].sort((a, b) => (a.page ?? Infinity) - (b.page ?? Infinity));
+  const pageLabel = (page?: number) => (page !== undefined ? ` (p. ${page})` : '');
+
+  const lines = [`## ${book.title}`, '', `*by ${book.author}*`];
+  if (book.rating) lines.push('', `Rating: ${formatRating(book.rating)}`);
+  if (book.review) lines.push('', '### Review', '', book.review);
+
+  if (highlights.length > 0) {
+    lines.push('', '### Highlights', '');
+    for (const highlight of byPage(highlights)) {
+      lines.push(`> ${highlight.text.replace(/\n/g, '\n> ')}${pageLabel(highlight.page)}`, '');
+    }
+    lines.pop();
+  }
+
+  if (notes.length > 0) {
+    lines.push('', '### Notes', '');
+    for (const note of byPage(notes)) {
+      lines.push(`- ${note.content.replace(/\n/g, '\n  ')}${pageLabel(note.page)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Every book that has notes, highlights or a review, one section each
+ */
+export function buildMarkdown(data: ExportData, exportedAt: Date = new Date()): string {
+  const sections = data.books
+    .map((book) => ({
+      book,
+      notes: data.notes.filter((note) => note.book_id === book.id),
+      highlights: data.highlights.filter((highlight) => highlight.book_id === book.id),
+    }))
+    .filter(({ book, notes, highlights }) => notes.length > 0 || highlights.length > 0 || book.review)
+    .sort((a, b) => a.book.title.localeCompare(b.book.title))
+    .map(({ book, notes, highlights }) => buildBookMarkdown(book, notes, highlights));
+
+  return [
+    '# Reading Notes',
+    '',
+    `Exported ${exportedAt.toLocaleDateString()}`,
+    ...sections.flatMap((section) => ['', '---', '', section]),
+    '',
+  ].join('\n');
+}
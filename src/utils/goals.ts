@@ -0,0 +1,197 @@
+/**
+ * Reading goals
+ * Yearly, monthly and weekly goals repeat every calendar period from their
+ * start date; a custom goal covers one date range. Books come from finished
+ * reads, pages and minutes from reading sessions.
+ */
+
+import type {
+  Book,
+  BookRead,
+  GoalMetric,
+  GoalPeriod,
+  ReadingGoal,
+  ReadingSession,
+} from '../stores/appStore';
+import { getCompletedReads } from './bookReads';
+import { addDays, fromLocalDayKey, toLocalDayKey } from './dates';
+
+// Inclusive YYYY-MM-DD local days
+export interface GoalWindow {
+  start: string;
+  end: string;
+}
+
+export interface GoalProgress {
+  window: GoalWindow;
+  current: number;
+  target: number;
+  // 0-100
+  percent: number;
+  isComplete: boolean;
+}
+
+export interface GoalActivity {
+  books: Book[];
+  reads: BookRead[];
+  sessions: ReadingSession[];
+}
+
+export const GOAL_PERIODS: GoalPeriod[] = ['yearly', 'monthly', 'weekly', 'custom'];
+export const GOAL_METRICS: GoalMetric[] = ['books', 'pages', 'minutes'];
+
+export const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  yearly: 'Yearly',
+  monthly: 'Monthly',
+  weekly: 'Weekly',
+  custom: 'Custom Range',
+};
+
+export const GOAL_METRIC_LABELS: Record<GoalMetric, string> = {
+  books: 'Books',
+  pages: 'Pages',
+  minutes: 'Minutes',
+};
+
+// The goal type free accounts can set
+export const FREE_GOAL_PERIOD: GoalPeriod = 'yearly';
+export const FREE_GOAL_METRIC: GoalMetric = 'books';
+
+const PERIOD_PHRASES: Record<Exclude<GoalPeriod, 'custom'>, string> = {
+  yearly: 'this year',
+  monthly: 'this month',
+  weekly: 'this week',
+};
+
+export function isDayKey(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && toLocalDayKey(fromLocalDayKey(value)) === value;
+}
+
+/**
+ * The calendar period the goal counts towards on the given day. Before a goal
+ * starts that is its first period, and after it ends its last one.
+ */
+export function getGoalWindow(goal: ReadingGoal, today: Date = new Date()): GoalWindow {
+  if (goal.period === 'custom') {
+    return { start: goal.start_date, end: goal.end_date ?? goal.start_date };
+  }
+
+  let reference = toLocalDayKey(today);
+  if (reference < goal.start_date) reference = goal.start_date;
+  if (goal.end_date && reference > goal.end_date) reference = goal.end_date;
+
+  const date = fromLocalDayKey(reference);
+  if (goal.period === 'yearly') {
+    const year = date.getFullYear();
+    return { start: `${year}-01-01`, end: `${year}-12-31` };
+  }
+  if (goal.period === 'monthly') {
+    const start = toLocalDayKey(new Date(date.getFullYear(), date.getMonth(), 1));
+    const end = toLocalDayKey(new Date(date.getFullYear(), date.getMonth() + 1, 0));
+    return { start, end };
+  }
+  // Weeks run Sunday to Saturday
+  const start = addDays(reference, -date.getDay());
+  return { start, end: addDays(start, 6) };
+}
+
+export function isGoalActive(goal: ReadingGoal, today: Date = new Date()): boolean {
+  const todayKey = toLocalDayKey(today);
+  const end = goal.period === 'custom' ? goal.end_date ?? goal.start_date : goal.end_date;
+  return goal.start_date <= todayKey && (!end || end >= todayKey);
+}
+
+/**
+ * Books, pages or minutes read within the window
+ */
+export function measureGoalMetric(metric: GoalMetric, window: GoalWindow, activity: GoalActivity): number {
+  const inWindow = (date: string) => {
+    const day = toLocalDayKey(date);
+    return day >= window.start && day <= window.end;
+  };
+
+  if (metric === 'books') {
+    return getCompletedReads(activity.books, activity.reads)
+      .filter((read) => inWindow(read.date_finished))
+      .length;
+  }
+
+  return activity.sessions
+    .filter((session) => inWindow(session.started_at))
+    .reduce(
+      (sum, session) => sum + (metric === 'pages' ? session.pages_read : session.duration_minutes ?? 0),
+      0
+    );
+}
+
+export function getGoalProgress(
+  goal: ReadingGoal,
+  activity: GoalActivity,
+  today: Date = new Date()
+): GoalProgress {
+  const window = getGoalWindow(goal, today);
+  const current = measureGoalMetric(goal.metric, window, activity);
+  return {
+    window,
+    current,
+    target: goal.target,
+    percent: goal.target > 0 ? Math.min(100, Math.round((current / goal.target) * 100)) : 0,
+    isComplete: current >= goal.target,
+  };
+}
+
+/**
+ * "12 books this year", "300 pages this week" or "20 books by Mar 31"
+ */
+export function describeGoal(goal: ReadingGoal): string {
+  const unit = goal.target === 1 ? goal.metric.replace(/s$/, '') : goal.metric;
+  if (goal.period === 'custom') {
+    const end = fromLocalDayKey(goal.end_date ?? goal.start_date);
+    return `${goal.target} ${unit} by ${end.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  }
+  return `${goal.target} ${unit} ${PERIOD_PHRASES[goal.period]}`;
+}
+
+export function formatGoalWindow(window: GoalWindow): string {
+  const format = (key: string) =>
+    fromLocalDayKey(key).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${format(window.start)} – ${format(window.end)}`;
+}
+
+/**
+ * A pages goal the goal-types migrations split off an old yearly goal. Goals set in
+ * the app never look like this: a yearly goal the user sets has no end date.
+ */
+function isSplitPagesGoal(goal: ReadingGoal): boolean {
+  const year = goal.start_date.slice(0, 4);
+  return (
+    goal.period === 'yearly' &&
+    goal.metric === 'pages' &&
+    goal.start_date === `${year}-01-01` &&
+    goal.end_date === `${year}-12-31`
+  );
+}
+
+/**
+ * Early builds of the goal-types migrations gave the split-off pages goal a random id,
+ * so the device and the server each made one. Finds the extra copies, keeping the most
+ * recently updated; goals the user set are left alone.
+ */
+export function findDuplicateGoals(goals: ReadingGoal[]): ReadingGoal[] {
+  const newest = new Map<string, ReadingGoal>();
+  const duplicates: ReadingGoal[] = [];
+
+  for (const goal of goals.filter(isSplitPagesGoal)) {
+    const key = [goal.start_date, goal.target].join('|');
+    const kept = newest.get(key);
+    if (!kept) {
+      newest.set(key, goal);
+    } else if ((goal.updated_at ?? '') > (kept.updated_at ?? '')) {
+      duplicates.push(kept);
+      newest.set(key, goal);
+    } else {
+      duplicates.push(goal);
+    }
+  }
+  return duplicates;
+}
@@ -1,2 +1,12 @@
-// TODO: Add helpers
-export {};
+/**
+ * Generate an RFC 4122 v4 UUID.
+ * Used for records created locally before they reach Supabase, so the same
+ * id can be used in SQLite and in the remote `uuid` primary key columns.
+ */
+export function generateId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
@@ -0,0 +1,205 @@
+/**
+ * Goodreads and StoryGraph import
+ * Maps each row of an exported CSV onto book fields, status and reads
+ */
+
+import type { Book } from '../stores/appStore';
+import { parseCsvRecords } from './csv';
+import { normalizeIsbn } from './isbn';
+import { normalizeRating } from './ratings';
+import { BOOK_CATEGORIES } from './constants';
+
+export type ImportSource = 'goodreads' | 'storygraph';
+
+export interface ImportedRead {
+  date_started: string | null;
+  date_finished: string | null;
+}
+
+export interface ImportedBook {
+  // 1-based row in the file, below the header
+  row: number;
+  title: string;
+  author: string;
+  isbn: string | null;
+  // 0 when the export has no page count
+  total_pages: number;
+  status: Book['status'];
+  rating: number | null;
+  category: string | null;
+  review: string | null;
+  review_spoiler: boolean;
+  date_added: string | null;
+  // Oldest first; the last one is the book's current read
+  reads: ImportedRead[];
+}
+
+export interface ImportPreviewItem {
+  book: ImportedBook;
+  duplicateOf: Book | null;
+}
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  goodreads: 'Goodreads',
+  storygraph: 'The StoryGraph',
+};
+
+// Goodreads exclusive shelves and StoryGraph read statuses
+const STATUS_BY_SHELF: Record<string, Book['status']> = {
+  'read': 'finished',
+  'currently-reading': 'reading',
+  'to-read': 'to_read',
+  'did-not-finish': 'dnf',
+  'dnf': 'dnf',
+  'abandoned': 'dnf',
+};
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[-_]+/g, ' ').trim();
+
+const CATEGORY_BY_NAME = new Map(BOOK_CATEGORIES.map((category) => [normalizeName(category), category]));
+
+export function detectImportSource(headers: string[]): ImportSource | null {
+  if (headers.includes('Exclusive Shelf') && headers.includes('My Rating')) return 'goodreads';
+  if (headers.includes('Read Status') && headers.includes('Star Rating')) return 'storygraph';
+  return null;
+}
+
+/**
+ * Read "2021/03/05", "2021-03-05" or "2021/03" as midday local time, so the day survives time zones
+ */
+export function parseImportDate(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(\d{4})[/-](\d{1,2})(?:[/-](\d{1,2}))?/);
+  if (!match) return null;
+
+  const [, year, month, dayOfMonth] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(dayOfMonth ?? 1), 12);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+const toStatus = (shelf: string | undefined): Book['status'] =>
+  STATUS_BY_SHELF[(shelf ?? '').trim().toLowerCase()] ?? 'to_read';
+
+const toCategory = (names: string[]): string | null => {
+  for (const name of names) {
+    const category = CATEGORY_BY_NAME.get(normalizeName(name));
+    if (category) return category;
+  }
+  return null;
+};
+
+const splitList = (value: string | undefined) =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+const toPages = (value: string | undefined) => Math.max(0, parseInt(value ?? '', 10) || 0);
+
+// Goodreads wraps ISBNs as ="0439023483" so spreadsheets keep the leading zero
+const toIsbn = (...values: (string | undefined)[]) => {
+  for (const value of values) {
+    const isbn = normalizeIsbn((value ?? '').replace(/[="]/g, ''));
+    if (isbn) return isbn;
+  }
+  return null;
+};
+
+// Goodreads reviews are HTML
+const toPlainText = (value: string | undefined) => {
+  const text = (value ?? '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+  return text || null;
+};
+
+function fromGoodreads(record: Record<string, string>, row: number): ImportedBook {
+  const status = toStatus(record['Exclusive Shelf']);
+  const dateRead = parseImportDate(record['Date Read']);
+
+  return {
+    row,
+    title: record['Title'] ?? '',
+    author: record['Author'] ?? '',
+    isbn: toIsbn(record['ISBN13'], record['ISBN']),
+    total_pages: toPages(record['Number of Pages']),
+    status,
+    rating: normalizeRating(Number(record['My Rating'])),
+    category: toCategory(splitList(record['Bookshelves'])),
+    review: toPlainText(record['My Review']),
+    review_spoiler: (record['Spoiler'] ?? '').toLowerCase() === 'true',
+    date_added: parseImportDate(record['Date Added']),
+    // Goodreads keeps only the latest finish date, whatever the read count
+    reads: status === 'finished' || dateRead
+      ? [{ date_started: null, date_finished: dateRead }]
+      : [],
+  };
+}
+
+function fromStoryGraph(record: Record<string, string>, row: number): ImportedBook {
+  const status = toStatus(record['Read Status']);
+
+  // "2021/03/01-2021/03/10, 2023/01/05-2023/01/20"; either end may be missing
+  const reads: ImportedRead[] = splitList(record['Dates Read']).map((range) => {
+    const [start, end] = range.split('-').map((part) => part.trim());
+    return { date_started: parseImportDate(start), date_finished: parseImportDate(end) };
+  });
+  const lastDateRead = parseImportDate(record['Last Date Read']);
+  if (reads.length === 0 && (status === 'finished' || lastDateRead)) {
+    reads.push({ date_started: null, date_finished: lastDateRead });
+  }
+
+  return {
+    row,
+    title: record['Title'] ?? '',
+    author: splitList(record['Authors']).join(', '),
+    isbn: toIsbn(record['ISBN/UID']),
+    total_pages: 0,
+    status,
+    rating: normalizeRating(Number(record['Star Rating'])),
+    category: toCategory(splitList(record['Tags'])),
+    review: toPlainText(record['Review']),
+    review_spoiler: false,
+    date_added: parseImportDate(record['Date Added']),
+    reads,
+  };
+}
+
+/**
+ * Parse an export file; throws if it is not a Goodreads or StoryGraph CSV
+ */
+export function parseImportFile(text: string): { source: ImportSource; books: ImportedBook[] } {
+  const { headers, records } = parseCsvRecords(text);
+  const source = detectImportSource(headers);
+  if (!source) {
+    throw new Error('This file is not a Goodreads or StoryGraph library export.');
+  }
+
+  const books = records
+    .map((record, index) =>
+      source === 'goodreads' ? fromGoodreads(record, index + 1) : fromStoryGraph(record, index + 1)
+    )
+    .filter((book) => book.title.trim() !== '');
+
+  return { source, books };
+}
+
+// Titles compare without case, punctuation or a subtitle
+const titleKey = (title: string) =>
+  (title.toLowerCase().split(':')[0] ?? '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+const authorKey = (author: string) =>
+  author.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * The library book an imported book duplicates: same ISBN, or same title and author
+ */
+export function findImportDuplicate(book: ImportedBook, library: Book[]): Book | null {
+  const title = titleKey(book.title);
+  const author = authorKey(book.author);
+
+  return library.find((existing) => {
+    if (book.isbn && existing.isbn && normalizeIsbn(existing.isbn) === book.isbn) return true;
+    return titleKey(existing.title) === title && authorKey(existing.author) === author;
+  }) ?? null;
+}
+
+export function buildImportPreview(books: ImportedBook[], library: Book[]): ImportPreviewItem[] {
+  return books.map((book) => ({ book, duplicateOf: findImportDuplicate(book, library) }));
+}
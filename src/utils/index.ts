@@ -1 +1,16 @@
 export * from "./constants";
+export * from "./helpers";
+export * from "./dates";
+export * from "./streaks";
+export * from "./isbn";
+export * from "./library";
+export * from "./bookStatus";
+export * from "./bookReads";
+export * from "./ratings";
+export * from "./csv";
+export * from "./importers";
+export * from "./stats";
+export * from "./goals";
+export * from "./pacing";
+export * from "./achievements";
+export * from "./yearInReview";
@@ -0,0 +1,60 @@
+/**
+ * ISBN helpers
+ * Books are matched by ISBN-13; ISBN-10s are converted so the same edition
+ * compares equal however it was entered or scanned.
+ */
+
+const ISBN_PREFIXES = ['978', '979'];
+
+/**
+ * Strip hyphens and spaces, keeping a trailing X check digit
+ */
+export function cleanIsbn(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function isValidIsbn10(value: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(value)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const char = value.charAt(i);
+    const digit = char === 'X' ? 10 : Number(char);
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+export function isValidIsbn13(value: string): boolean {
+  if (!/^\d{13}$/.test(value)) return false;
+  if (!ISBN_PREFIXES.includes(value.slice(0, 3))) return false;
+
+  return isbn13CheckDigit(value.slice(0, 12)) === value.charAt(12);
+}
+
+function isbn13CheckDigit(first12: string): string {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(first12.charAt(i)) * (i % 2 === 0 ? 1 : 3);
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Convert a valid ISBN-10 to its 978-prefixed ISBN-13
+ */
+export function isbn10To13(isbn10: string): string {
+  const first12 = `978${isbn10.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * Normalize an ISBN-10 or ISBN-13 (with or without hyphens) to ISBN-13.
+ * Returns null when the checksum does not match.
+ */
+export function normalizeIsbn(value: string): string | null {
+  const isbn = cleanIsbn(value);
+  if (isValidIsbn13(isbn)) return isbn;
+  if (isValidIsbn10(isbn)) return isbn10To13(isbn);
+  return null;
+}
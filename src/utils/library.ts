@@ -0,0 +1,156 @@
+/**
+ * Library view helpers
+ * Filter, sort and group the book list for the Library tab. Finished years
+ * come from the read history, so a re-read book is listed under each year
+ * it was finished, as in the stats.
+ */
+
+import type { Book, BookRead } from '../stores/appStore';
+import { getCompletedReads } from './bookReads';
+
+export type LibrarySortField = 'title' | 'author' | 'date_added' | 'date_finished' | 'progress';
+export type LibraryGrouping = 'none' | 'author' | 'category';
+
+export interface LibraryFilters {
+  status: Book['status'] | null;
+  category: string | null;
+  // Books rated at least this many stars
+  minRating: number | null;
+  yearFinished: number | null;
+}
+
+export interface LibraryView {
+  filters: LibraryFilters;
+  sortBy: LibrarySortField;
+  sortAscending: boolean;
+  groupBy: LibraryGrouping;
+}
+
+export type LibraryListItem =
+  | { type: 'header'; key: string; title: string; count: number }
+  | { type: 'book'; key: string; book: Book };
+
+export const DEFAULT_LIBRARY_VIEW: LibraryView = {
+  filters: {
+    status: null,
+    category: null,
+    minRating: null,
+    yearFinished: null,
+  },
+  sortBy: 'date_added',
+  sortAscending: false,
+  groupBy: 'none',
+};
+
+const UNCATEGORIZED = 'Uncategorized';
+
+/**
+ * Years in which each book was finished, by book id
+ */
+function getFinishedYears(books: Book[], reads: BookRead[]): Map<string, Set<number>> {
+  const years = new Map<string, Set<number>>();
+  for (const read of getCompletedReads(books, reads)) {
+    const year = new Date(read.date_finished).getFullYear();
+    const bookYears = years.get(read.book_id);
+    if (bookYears) {
+      bookYears.add(year);
+    } else {
+      years.set(read.book_id, new Set([year]));
+    }
+  }
+  return years;
+}
+
+export function filterBooks(books: Book[], reads: BookRead[], filters: LibraryFilters): Book[] {
+  const year = filters.yearFinished;
+  const finishedYears = year !== null ? getFinishedYears(books, reads) : null;
+
+  return books.filter((book) => {
+    if (filters.status && book.status !== filters.status) return false;
+    if (filters.category && (book.category || UNCATEGORIZED) !== filters.category) return false;
+    if (filters.minRating !== null && (book.rating ?? 0) < filters.minRating) return false;
+    if (year !== null && !finishedYears?.get(book.id)?.has(year)) return false;
+    return true;
+  });
+}
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+export function sortBooks(books: Book[], sortBy: LibrarySortField, ascending: boolean): Book[] {
+  const direction = ascending ? 1 : -1;
+
+  return [...books].sort((a, b) => {
+    switch (sortBy) {
+      case 'title':
+        return direction * compareText(a.title, b.title);
+      case 'author':
+        return direction * compareText(a.author, b.author) || compareText(a.title, b.title);
+      case 'progress':
+        return direction * (a.progress - b.progress) || compareText(a.title, b.title);
+      case 'date_finished': {
+        // Unfinished books go last whichever way the list is sorted
+        if (!a.date_finished || !b.date_finished) {
+          return a.date_finished ? -1 : b.date_finished ? 1 : compareText(a.title, b.title);
+        }
+        return direction * compareText(a.date_finished, b.date_finished);
+      }
+      case 'date_added':
+      default:
+        return direction * compareText(a.date_added, b.date_added);
+    }
+  });
+}
+
+/**
+ * Flatten books into list rows, with a header row before each group
+ */
+export function groupBooks(books: Book[], groupBy: LibraryGrouping): LibraryListItem[] {
+  if (groupBy === 'none') {
+    return books.map((book) => ({ type: 'book', key: book.id, book }));
+  }
+
+  const groups = new Map<string, Book[]>();
+  for (const book of books) {
+    const name = groupBy === 'author' ? book.author : book.category || UNCATEGORIZED;
+    const group = groups.get(name);
+    if (group) {
+      group.push(book);
+    } else {
+      groups.set(name, [book]);
+    }
+  }
+
+  const items: LibraryListItem[] = [];
+  const names = [...groups.keys()].sort(compareText);
+  for (const name of names) {
+    const group = groups.get(name) ?? [];
+    items.push({ type: 'header', key: `header:${name}`, title: name, count: group.length });
+    for (const book of group) {
+      items.push({ type: 'book', key: book.id, book });
+    }
+  }
+  return items;
+}
+
+export function buildLibraryList(books: Book[], reads: BookRead[], view: LibraryView): LibraryListItem[] {
+  const filtered = filterBooks(books, reads, view.filters);
+  return groupBooks(sortBooks(filtered, view.sortBy, view.sortAscending), view.groupBy);
+}
+
+/**
+ * Categories and finished years present in the library, for the filter options
+ */
+export function getLibraryFacets(books: Book[], reads: BookRead[]): { categories: string[]; years: number[] } {
+  const categories = new Set<string>();
+  const years = new Set<number>();
+  for (const book of books) {
+    categories.add(book.category || UNCATEGORIZED);
+  }
+  for (const bookYears of getFinishedYears(books, reads).values()) {
+    bookYears.forEach((year) => years.add(year));
+  }
+  return {
+    categories: [...categories].sort(compareText),
+    years: [...years].sort((a, b) => b - a),
+  };
+}
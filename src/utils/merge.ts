@@ -0,0 +1,86 @@
+/**
+ * Three-way record merge used when a record changed both locally and remotely.
+ * Each field is compared against the last synced version (the base):
+ * a side that did not touch a field takes the other side's value. A field
+ * both sides changed is a conflict for the user to settle; the two sides'
+ * updated_at come from different clocks, so they cannot pick a winner.
+ */
+
+type MergeableRecord = Record<string, unknown> & { updated_at?: string };
+
+export interface MergeOptions {
+  // Fields never merged (identity and sync metadata)
+  ignoreFields?: readonly string[];
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  // Local values that won and still need to be sent to the server
+  localChanges: Partial<T>;
+  conflictingFields: string[];
+}
+
+const DEFAULT_IGNORED_FIELDS = ['id', 'user_id', 'created_at', 'updated_at'];
+
+const sameValue = (a: unknown, b: unknown) => (a ?? null) === (b ?? null);
+
+/**
+ * Fields whose value differs from the base, e.g. edits made since the last sync
+ */
+export function changedFields<T extends MergeableRecord>(
+  base: T,
+  record: T,
+  fields: readonly string[],
+  ignoreFields: readonly string[] = DEFAULT_IGNORED_FIELDS
+): Partial<T> {
+  const changes: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (ignoreFields.includes(field)) continue;
+    if (!sameValue(record[field], base[field])) {
+      changes[field] = record[field] ?? null;
+    }
+  }
+  return changes as Partial<T>;
+}
+
+export function mergeRecord<T extends MergeableRecord>(
+  base: T | null,
+  local: T,
+  remote: T,
+  fields: readonly string[],
+  options: MergeOptions = {}
+): MergeResult<T> {
+  const ignored = options.ignoreFields ?? DEFAULT_IGNORED_FIELDS;
+
+  const merged: Record<string, unknown> = { ...remote };
+  const localChanges: Record<string, unknown> = {};
+  const conflictingFields: string[] = [];
+
+  for (const field of fields) {
+    if (ignored.includes(field)) continue;
+
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    if (sameValue(localValue, remoteValue)) continue;
+
+    const localChanged = !base || !sameValue(localValue, base[field]);
+    const remoteChanged = !base || !sameValue(remoteValue, base[field]);
+
+    if (localChanged && !remoteChanged) {
+      merged[field] = localValue;
+      localChanges[field] = localValue;
+    } else if (localChanged && remoteChanged) {
+      conflictingFields.push(field);
+    }
+  }
+
+  if (Object.keys(localChanges).length > 0) {
+    merged.updated_at = local.updated_at;
+  }
+
+  return {
+    merged: merged as T,
+    localChanges: localChanges as Partial<T>,
+    conflictingFields,
+  };
+}
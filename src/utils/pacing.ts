@@ -0,0 +1,149 @@
+/**
+ * Goal pacing
+ * Compares a goal's progress with an even pace through its current period,
+ * works out the daily reading needed to finish on time, and projects a
+ * finish date from the last few weeks of reading.
+ */
+
+import type { Book, ReadingGoal } from '../stores/appStore';
+import { addDays, fromLocalDayKey, toLocalDayKey } from './dates';
+import { getGoalProgress, measureGoalMetric, type GoalActivity, type GoalProgress } from './goals';
+
+export type PaceStatus = 'upcoming' | 'ahead' | 'on_track' | 'behind' | 'complete' | 'missed';
+
+export interface GoalPace {
+  status: PaceStatus;
+  progress: GoalProgress;
+  // Where an even pace would be by the end of today
+  expected: number;
+  // Positive when ahead of that pace, negative when behind
+  difference: number;
+  remaining: number;
+  // Including today
+  daysLeft: number;
+  // In the goal's own unit
+  requiredPerDay: number;
+  // Pages a day that finish the goal on time; null for minute goals
+  requiredDailyPages: number | null;
+  // YYYY-MM-DD the goal is reached at the recent pace; null without recent reading
+  projectedCompletion: string | null;
+}
+
+// Days of reading the projection is based on
+const VELOCITY_WINDOW_DAYS = 30;
+
+// Length used for queued books without a page count
+const FALLBACK_BOOK_PAGES = 300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (start: string, end: string) =>
+  Math.round((fromLocalDayKey(end).getTime() - fromLocalDayKey(start).getTime()) / DAY_MS);
+
+/**
+ * Pages left to read in the next `count` books: the ones in progress first,
+ * closest to done, then the to-read pile in the order it was added
+ */
+export function getPagesForNextBooks(books: Book[], count: number): number {
+  if (count <= 0) return 0;
+
+  const reading = books
+    .filter((book) => book.status === 'reading')
+    .map((book) => (book.total_pages > 0 ? Math.max(0, book.total_pages - book.current_page) : FALLBACK_BOOK_PAGES))
+    .sort((a, b) => a - b);
+  const toRead = books
+    .filter((book) => book.status === 'to_read')
+    .sort((a, b) => a.date_added.localeCompare(b.date_added))
+    .map((book) => (book.total_pages > 0 ? book.total_pages : FALLBACK_BOOK_PAGES));
+
+  const queue = [...reading, ...toRead];
+  const known = queue.slice(0, count);
+  // Books not in the library yet are assumed to be as long as the queued ones
+  const averageLength = queue.length > 0
+    ? queue.reduce((sum, pages) => sum + pages, 0) / queue.length
+    : FALLBACK_BOOK_PAGES;
+
+  return Math.round(
+    known.reduce((sum, pages) => sum + pages, 0) + Math.max(0, count - known.length) * averageLength
+  );
+}
+
+export function getGoalPace(goal: ReadingGoal, activity: GoalActivity, today: Date = new Date()): GoalPace {
+  const progress = getGoalProgress(goal, activity, today);
+  const { window, current, target } = progress;
+  const todayKey = toLocalDayKey(today);
+
+  const totalDays = daysBetween(window.start, window.end) + 1;
+  const elapsedDays = Math.min(totalDays, Math.max(0, daysBetween(window.start, todayKey) + 1));
+  const daysLeft = Math.max(0, daysBetween(todayKey, window.end) + 1);
+
+  const expected = (target * elapsedDays) / totalDays;
+  const difference = current - expected;
+  const remaining = Math.max(0, target - current);
+  const requiredPerDay = daysLeft > 0 ? remaining / daysLeft : remaining;
+
+  let requiredDailyPages: number | null = null;
+  if (goal.metric === 'pages') {
+    requiredDailyPages = Math.ceil(requiredPerDay);
+  } else if (goal.metric === 'books') {
+    requiredDailyPages = Math.ceil(getPagesForNextBooks(activity.books, remaining) / Math.max(1, daysLeft));
+  }
+
+  // Recent velocity, over the last 30 days up to today
+  const velocityStart = addDays(todayKey, -(VELOCITY_WINDOW_DAYS - 1));
+  const recent = measureGoalMetric(goal.metric, { start: velocityStart, end: todayKey }, activity);
+  const velocity = recent / VELOCITY_WINDOW_DAYS;
+  const projectedCompletion = remaining === 0
+    ? todayKey
+    : velocity > 0
+      ? addDays(todayKey, Math.ceil(remaining / velocity))
+      : null;
+
+  // Within a book, or 1% of the target, counts as on track
+  const tolerance = goal.metric === 'books' ? 0.5 : Math.max(1, target * 0.01);
+  let status: PaceStatus;
+  if (remaining === 0) status = 'complete';
+  else if (todayKey < window.start) status = 'upcoming';
+  else if (todayKey > window.end) status = 'missed';
+  else if (difference > tolerance) status = 'ahead';
+  else if (difference < -tolerance) status = 'behind';
+  else status = 'on_track';
+
+  return {
+    status,
+    progress,
+    expected,
+    difference,
+    remaining,
+    daysLeft,
+    requiredPerDay,
+    requiredDailyPages,
+    projectedCompletion,
+  };
+}
+
+const formatAmount = (value: number, metric: ReadingGoal['metric']) => {
+  const amount = metric === 'books' ? Math.round(value * 10) / 10 : Math.round(value);
+  const unit = amount === 1 ? metric.replace(/s$/, '') : metric;
+  return `${amount} ${unit}`;
+};
+
+/**
+ * One line on how the goal is going, e.g. "2 books ahead of schedule"
+ */
+export function describePace(goal: ReadingGoal, pace: GoalPace): string {
+  switch (pace.status) {
+    case 'complete':
+      return 'Goal reached!';
+    case 'upcoming':
+      return `Starts ${fromLocalDayKey(pace.progress.window.start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+    case 'missed':
+      return `Ended ${formatAmount(pace.remaining, goal.metric)} short`;
+    case 'ahead':
+      return `${formatAmount(pace.difference, goal.metric)} ahead of schedule`;
+    case 'behind':
+      return `${formatAmount(-pace.difference, goal.metric)} behind schedule`;
+    default:
+      return 'On track';
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Star ratings
+ * Ratings run from half a star to five stars in half-star steps
+ */
+
+export const MAX_RATING = 5;
+export const RATING_STEP = 0.5;
+
+/**
+ * Round to the nearest half star; anything below half a star means no rating
+ */
+export function normalizeRating(value: number | null | undefined): number | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) return null;
+  const rounded = Math.round(value / RATING_STEP) * RATING_STEP;
+  if (rounded < RATING_STEP) return null;
+  return Math.min(MAX_RATING, rounded);
+}
+
+export function formatRating(rating: number): string {
+  return `${Number.isInteger(rating) ? rating : rating.toFixed(1)}/${MAX_RATING}`;
+}
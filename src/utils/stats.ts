@@ -0,0 +1,189 @@
+/**
+ * Reading statistics
+ * Page counts come from reading sessions; finished books come from the read
+ * history, so a re-read counts in the month it was finished again.
+ */
+
+import type { Book, BookRead, ReadingSession } from '../stores/appStore';
+import { getCompletedReads } from './bookReads';
+import { addDays, toLocalDayKey } from './dates';
+
+export interface PageStats {
+  today: number;
+  // Since Sunday
+  thisWeek: number;
+  thisMonth: number;
+  // Over the last 30 days, counting days without reading
+  dailyAverage: number;
+}
+
+export interface CategoryCount {
+  category: string;
+  count: number;
+}
+
+export interface FinishTimeBucket {
+  label: string;
+  count: number;
+}
+
+export interface HeatmapDay {
+  // YYYY-MM-DD, local time
+  day: string;
+  pages: number;
+  // 0 (no reading) to 4 (the busiest days)
+  level: number;
+  // After today; shown blank
+  isFuture: boolean;
+}
+
+const AVERAGE_WINDOW_DAYS = 30;
+
+// Upper bound in days of each time-to-finish bucket
+const FINISH_TIME_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: 'Under a week', maxDays: 7 },
+  { label: '1–2 weeks', maxDays: 14 },
+  { label: '2–4 weeks', maxDays: 28 },
+  { label: '1–3 months', maxDays: 90 },
+  { label: '3+ months', maxDays: Infinity },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pages read on each local day
+ */
+export function getPagesByDay(sessions: ReadingSession[]): Map<string, number> {
+  const pagesByDay = new Map<string, number>();
+  for (const session of sessions) {
+    if (session.pages_read <= 0) continue;
+    const day = toLocalDayKey(session.started_at);
+    pagesByDay.set(day, (pagesByDay.get(day) ?? 0) + session.pages_read);
+  }
+  return pagesByDay;
+}
+
+export function getPageStats(sessions: ReadingSession[], today: Date = new Date()): PageStats {
+  const pagesByDay = getPagesByDay(sessions);
+  const todayKey = toLocalDayKey(today);
+  const weekStart = addDays(todayKey, -today.getDay());
+  const monthStart = todayKey.slice(0, 8) + '01';
+  const windowStart = addDays(todayKey, -(AVERAGE_WINDOW_DAYS - 1));
+
+  const stats: PageStats = { today: 0, thisWeek: 0, thisMonth: 0, dailyAverage: 0 };
+  let windowPages = 0;
+
+  for (const [day, pages] of pagesByDay) {
+    if (day > todayKey) continue;
+    if (day === todayKey) stats.today += pages;
+    if (day >= weekStart) stats.thisWeek += pages;
+    if (day >= monthStart) stats.thisMonth += pages;
+    if (day >= windowStart) windowPages += pages;
+  }
+
+  stats.dailyAverage = Math.round(windowPages / AVERAGE_WINDOW_DAYS);
+  return stats;
+}
+
+/**
+ * Books finished in each month of the year, January first
+ */
+export function getBooksFinishedByMonth(books: Book[], reads: BookRead[], year: number): number[] {
+  const months = Array<number>(12).fill(0);
+  for (const read of getCompletedReads(books, reads)) {
+    const finished = new Date(read.date_finished);
+    if (finished.getFullYear() === year) {
+      months[finished.getMonth()] = (months[finished.getMonth()] ?? 0) + 1;
+    }
+  }
+  return months;
+}
+
+/**
+ * Pages per hour over every timed session; null until a session has both pages and a duration
+ */
+export function getAverageReadingSpeed(sessions: ReadingSession[]): number | null {
+  let pages = 0;
+  let minutes = 0;
+  for (const session of sessions) {
+    if (session.pages_read > 0 && session.duration_minutes && session.duration_minutes > 0) {
+      pages += session.pages_read;
+      minutes += session.duration_minutes;
+    }
+  }
+  return minutes > 0 ? Math.round((pages / minutes) * 60) : null;
+}
+
+/**
+ * Books per category, largest first; books without one are "Uncategorized"
+ */
+export function getCategoryBreakdown(books: Book[]): CategoryCount[] {
+  const counts = new Map<string, number>();
+  for (const book of books) {
+    const category = book.category || 'Uncategorized';
+    counts.set(category, (counts.get(category) ?? 0) + 1);
+  }
+  return Array.from(counts, ([category, count]) => ({ category, count }))
+    .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+}
+
+export function getAverageRating(books: Book[]): number | null {
+  const ratings = books
+    .map((book) => book.rating)
+    .filter((rating): rating is number => typeof rating === 'number' && rating > 0);
+  if (ratings.length === 0) return null;
+  return ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+}
+
+/**
+ * Finished reads grouped by the days between starting and finishing
+ */
+export function getFinishTimeDistribution(books: Book[], reads: BookRead[]): FinishTimeBucket[] {
+  const buckets = FINISH_TIME_BUCKETS.map(({ label }) => ({ label, count: 0 }));
+
+  for (const read of getCompletedReads(books, reads)) {
+    if (!read.date_started) continue;
+    const days = (new Date(read.date_finished).getTime() - new Date(read.date_started).getTime()) / DAY_MS;
+    if (days < 0) continue;
+    const index = FINISH_TIME_BUCKETS.findIndex((bucket) => days < bucket.maxDays);
+    const bucket = buckets[index];
+    if (bucket) bucket.count += 1;
+  }
+  return buckets;
+}
+
+/**
+ * The last `weeks` calendar weeks as columns of seven days, Sunday first, ending with this week
+ */
+export function getReadingHeatmap(
+  sessions: ReadingSession[],
+  weeks: number,
+  today: Date = new Date()
+): HeatmapDay[][] {
+  const pagesByDay = getPagesByDay(sessions);
+  const todayKey = toLocalDayKey(today);
+  const start = addDays(todayKey, -today.getDay() - (weeks - 1) * 7);
+
+  // Levels are relative to the busiest day shown
+  let maxPages = 0;
+  for (const [day, pages] of pagesByDay) {
+    if (day >= start && day <= todayKey) maxPages = Math.max(maxPages, pages);
+  }
+
+  const columns: HeatmapDay[][] = [];
+  for (let week = 0; week < weeks; week++) {
+    const column: HeatmapDay[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const day = addDays(start, week * 7 + weekday);
+      const pages = pagesByDay.get(day) ?? 0;
+      column.push({
+        day,
+        pages,
+        level: pages > 0 && maxPages > 0 ? Math.ceil((pages / maxPages) * 4) : 0,
+        isFuture: day > todayKey,
+      });
+    }
+    columns.push(column);
+  }
+  return columns;
+}
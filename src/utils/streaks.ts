@@ -0,0 +1,39 @@
+/**
+ * Reading streaks derived from the set of days the user read on.
+ * The result depends only on those days and today's date, so it can be
+ * recalculated at any time, e.g. after a session is deleted or backdated.
+ */
+
+import { addDays, toLocalDayKey } from './dates';
+
+export interface StreakSummary {
+  current_streak: number;
+  longest_streak: number;
+  // Most recent reading day (YYYY-MM-DD, local time)
+  last_read_date: string | null;
+}
+
+export function calculateStreak(readingDays: Iterable<string>, today: Date = new Date()): StreakSummary {
+  const days = Array.from(new Set(readingDays)).sort();
+  const lastReadDate = days[days.length - 1] ?? null;
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+
+  for (const day of days) {
+    run = previous !== null && addDays(previous, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  // The streak is still alive until a whole day passes without reading
+  const todayKey = toLocalDayKey(today);
+  const isAlive = lastReadDate === todayKey || lastReadDate === addDays(todayKey, -1);
+
+  return {
+    current_streak: isAlive ? run : 0,
+    longest_streak: longest,
+    last_read_date: lastReadDate,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Year in Books
+ * A summary of one calendar year. Books count by the reads finished in the
+ * year, so a re-read counts again; notes, highlights and sessions count by
+ * when they were made.
+ */
+
+import type { Book, BookRead, Highlight, Note, ReadingSession } from '../stores/appStore';
+import { getCompletedReads } from './bookReads';
+import { toLocalDayKey } from './dates';
+import { calculateStreak } from './streaks';
+
+export interface YearInReviewData {
+  books: Book[];
+  reads: BookRead[];
+  notes: Note[];
+  highlights: Highlight[];
+  sessions: ReadingSession[];
+}
+
+export interface YearInReview {
+  year: number;
+  booksFinished: number;
+  // Page counts of the books finished in the year
+  pagesRead: number;
+  minutesRead: number;
+  notesWritten: number;
+  highlightsSaved: number;
+  longestBook: Book | null;
+  shortestBook: Book | null;
+  topRatedBook: Book | null;
+  mostHighlighted: { book: Book; count: number } | null;
+  favoriteGenre: { category: string; count: number } | null;
+  // 0-11, by books finished
+  busiestMonth: { month: number; count: number } | null;
+  longestStreak: number;
+}
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const inYear = (date: string | null | undefined, year: number) =>
+  !!date && new Date(date).getFullYear() === year;
+
+/**
+ * Years with any finished book, session, note or highlight, newest first
+ */
+export function getReviewYears(data: YearInReviewData): number[] {
+  const years = new Set<number>();
+  for (const read of getCompletedReads(data.books, data.reads)) {
+    years.add(new Date(read.date_finished).getFullYear());
+  }
+  const activityDates = [
+    ...data.sessions.map((session) => session.started_at),
+    ...data.notes.map((note) => note.created_at),
+    ...data.highlights.map((highlight) => highlight.created_at),
+  ];
+  for (const date of activityDates) {
+    years.add(new Date(date).getFullYear());
+  }
+  return Array.from(years).filter((year) => !Number.isNaN(year)).sort((a, b) => b - a);
+}
+
+export function buildYearInReview(data: YearInReviewData, year: number): YearInReview {
+  const booksById = new Map(data.books.map((book) => [book.id, book]));
+  const finishedReads = getCompletedReads(data.books, data.reads).filter((read) => inYear(read.date_finished, year));
+
+  const finishedBooks: Book[] = [];
+  const monthCounts = Array<number>(12).fill(0);
+  for (const read of finishedReads) {
+    const book = booksById.get(read.book_id);
+    if (book) finishedBooks.push(book);
+    const month = new Date(read.date_finished).getMonth();
+    monthCounts[month] = (monthCounts[month] ?? 0) + 1;
+  }
+  const uniqueBooks = Array.from(new Set(finishedBooks));
+
+  // Books without a page count cannot be longest or shortest
+  const paged = uniqueBooks.filter((book) => book.total_pages > 0);
+  const byLength = [...paged].sort((a, b) => b.total_pages - a.total_pages);
+
+  const topRatedBook = uniqueBooks
+    .filter((book) => (book.rating ?? 0) > 0)
+    .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0) || (b.date_finished ?? '').localeCompare(a.date_finished ?? ''))[0] ?? null;
+
+  const yearHighlights = data.highlights.filter((highlight) => inYear(highlight.created_at, year));
+  const highlightCounts = new Map<string, number>();
+  for (const highlight of yearHighlights) {
+    highlightCounts.set(highlight.book_id, (highlightCounts.get(highlight.book_id) ?? 0) + 1);
+  }
+  let mostHighlighted: YearInReview['mostHighlighted'] = null;
+  for (const [bookId, count] of highlightCounts) {
+    const book = booksById.get(bookId);
+    if (book && count > (mostHighlighted?.count ?? 0)) mostHighlighted = { book, count };
+  }
+
+  const genreCounts = new Map<string, number>();
+  for (const book of finishedBooks) {
+    if (book.category) genreCounts.set(book.category, (genreCounts.get(book.category) ?? 0) + 1);
+  }
+  let favoriteGenre: YearInReview['favoriteGenre'] = null;
+  for (const [category, count] of genreCounts) {
+    if (count > (favoriteGenre?.count ?? 0)) favoriteGenre = { category, count };
+  }
+
+  const busiestCount = Math.max(...monthCounts);
+  const yearSessions = data.sessions.filter((session) => inYear(session.started_at, year));
+  // The longest run of reading days within the year
+  const streak = calculateStreak(
+    yearSessions
+      .filter((session) => session.pages_read > 0 || (session.duration_minutes ?? 0) > 0)
+      .map((session) => toLocalDayKey(session.started_at))
+  );
+
+  return {
+    year,
+    booksFinished: finishedReads.length,
+    pagesRead: finishedBooks.reduce((sum, book) => sum + book.total_pages, 0),
+    minutesRead: yearSessions.reduce((sum, session) => sum + (session.duration_minutes ?? 0), 0),
+    notesWritten: data.notes.filter((note) => inYear(note.created_at, year)).length,
+    highlightsSaved: yearHighlights.length,
+    longestBook: byLength[0] ?? null,
+    shortestBook: byLength.length > 1 ? byLength[byLength.length - 1] ?? null : null,
+    topRatedBook,
+    mostHighlighted,
+    favoriteGenre,
+    busiestMonth: busiestCount > 0 ? { month: monthCounts.indexOf(busiestCount), count: busiestCount } : null,
+    longestStreak: streak.longest_streak,
+  };
+}
+
+/**
+ * Plain-text version of the summary, for sharing where images are not supported
+ */
+export function formatYearInReview(review: YearInReview): string {
+  const lines = [
+    `My ${review.year} in Books 📚`,
+    `${review.booksFinished} ${review.booksFinished === 1 ? 'book' : 'books'} · ${review.pagesRead.toLocaleString()} pages`,
+  ];
+  if (review.topRatedBook) lines.push(`Top rated: ${review.topRatedBook.title}`);
+  if (review.longestBook) lines.push(`Longest: ${review.longestBook.title} (${review.longestBook.total_pages} pages)`);
+  if (review.favoriteGenre) lines.push(`Favorite genre: ${review.favoriteGenre.category}`);
+  if (review.busiestMonth) lines.push(`Busiest month: ${MONTH_NAMES[review.busiestMonth.month]}`);
+  if (review.longestStreak > 0) lines.push(`Longest streak: ${review.longestStreak} days`);
+  return lines.join('\n');
+}
@@ -0,0 +1,90 @@
+-- ============================================================================
+-- BookBuddy Delta Sync
+-- Server-assigned updated_at on every write and tombstones for deletions so
+-- clients can pull only what changed since their last sync
+-- ============================================================================
+
+-- ============================================================================
+-- SERVER TIMESTAMPS
+-- ============================================================================
+
+-- Highlights had no updated_at; delta sync needs one on every synced table
+ALTER TABLE highlights ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+UPDATE highlights SET updated_at = created_at WHERE updated_at IS NULL;
+
+CREATE TRIGGER update_highlights_updated_at BEFORE UPDATE ON highlights
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Inserts also take the server clock so device clock skew cannot hide rows
+-- from another device's "changed since" query
+CREATE TRIGGER set_books_updated_at BEFORE INSERT ON books
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_notes_updated_at BEFORE INSERT ON notes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_highlights_updated_at BEFORE INSERT ON highlights
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_reading_goals_updated_at BEFORE INSERT ON reading_goals
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_reading_streaks_updated_at BEFORE INSERT ON reading_streaks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_books_sync ON books(user_id, app_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_notes_sync ON notes(user_id, app_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_highlights_sync ON highlights(user_id, app_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_reading_goals_sync ON reading_goals(user_id, app_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_reading_streaks_sync ON reading_streaks(user_id, app_id, updated_at);
+
+-- ============================================================================
+-- TOMBSTONES
+-- ============================================================================
+
+-- Deleted Records - one row per deleted synced record
+CREATE TABLE IF NOT EXISTS deleted_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  app_id TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  deleted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deleted_records_sync ON deleted_records(user_id, app_id, deleted_at);
+
+ALTER TABLE deleted_records ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below; clients just read their own
+CREATE POLICY "Users can view own deleted records" ON deleted_records
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Function to record a tombstone for a deleted row
+CREATE OR REPLACE FUNCTION public.record_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.deleted_records (user_id, app_id, table_name, record_id)
+  VALUES (OLD.user_id, OLD.app_id, TG_TABLE_NAME, OLD.id);
+  RETURN OLD;
+END;
+$$;
+
+-- Cascaded deletes (e.g. a book's notes) fire these too
+CREATE TRIGGER record_books_deletion AFTER DELETE ON books
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+
+CREATE TRIGGER record_notes_deletion AFTER DELETE ON notes
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+
+CREATE TRIGGER record_highlights_deletion AFTER DELETE ON highlights
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+
+CREATE TRIGGER record_reading_goals_deletion AFTER DELETE ON reading_goals
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+
+CREATE TRIGGER record_reading_streaks_deletion AFTER DELETE ON reading_streaks
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
@@ -0,0 +1,6 @@
+-- ============================================================================
+-- BookBuddy Realtime
+-- Publish library tables so signed-in devices receive changes as they happen
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE books, notes, highlights;
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- BookBuddy Reading Sessions Sync
+-- Bring reading_sessions in line with the other delta-synced tables
+-- ============================================================================
+
+ALTER TABLE reading_sessions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+UPDATE reading_sessions SET updated_at = created_at WHERE updated_at IS NULL;
+
+CREATE TRIGGER update_reading_sessions_updated_at BEFORE UPDATE ON reading_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_reading_sessions_updated_at BEFORE INSERT ON reading_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_reading_sessions_sync ON reading_sessions(user_id, app_id, updated_at);
+
+CREATE TRIGGER record_reading_sessions_deletion AFTER DELETE ON reading_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
@@ -0,0 +1,43 @@
+-- ============================================================================
+-- BookBuddy Bookshelves Sync
+-- Give bookshelf_items the owner, app and timestamp columns the sync engine
+-- relies on, and track deletions of shelves and their items
+-- ============================================================================
+
+ALTER TABLE bookshelf_items ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE bookshelf_items ADD COLUMN IF NOT EXISTS app_id TEXT;
+ALTER TABLE bookshelf_items ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+UPDATE bookshelf_items
+SET user_id = bookshelves.user_id, app_id = bookshelves.app_id
+FROM bookshelves
+WHERE bookshelves.id = bookshelf_items.bookshelf_id
+AND bookshelf_items.user_id IS NULL;
+
+ALTER TABLE bookshelf_items ALTER COLUMN app_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookshelves_sync ON bookshelves(user_id, app_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_bookshelf_items_sync ON bookshelf_items(user_id, app_id, updated_at);
+
+-- ============================================================================
+-- TIMESTAMPS
+-- ============================================================================
+
+CREATE TRIGGER set_bookshelves_updated_at BEFORE INSERT ON bookshelves
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_bookshelf_items_updated_at BEFORE UPDATE ON bookshelf_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_bookshelf_items_updated_at BEFORE INSERT ON bookshelf_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TOMBSTONES
+-- ============================================================================
+
+CREATE TRIGGER record_bookshelves_deletion AFTER DELETE ON bookshelves
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
+
+CREATE TRIGGER record_bookshelf_items_deletion AFTER DELETE ON bookshelf_items
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
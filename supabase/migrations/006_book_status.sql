@@ -0,0 +1,6 @@
+-- ============================================================================
+-- BookBuddy Book Status
+-- Keep why a book was not finished alongside its status
+-- ============================================================================
+
+ALTER TABLE books ADD COLUMN IF NOT EXISTS dnf_reason TEXT;
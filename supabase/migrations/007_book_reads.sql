@@ -0,0 +1,44 @@
+-- ============================================================================
+-- BookBuddy Book Reads
+-- One row per read of a book, so re-reading keeps the earlier reads' dates and rating
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS book_reads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  app_id TEXT NOT NULL,
+  book_id UUID REFERENCES books(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'reading' CHECK (status IN ('reading', 'finished', 'dnf')),
+  current_page INTEGER NOT NULL DEFAULT 0,
+  progress INTEGER NOT NULL DEFAULT 0,
+  rating INTEGER CHECK (rating >= 1 AND rating <= 5),
+  date_started TIMESTAMPTZ,
+  date_finished TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_reads_book ON book_reads(book_id);
+CREATE INDEX IF NOT EXISTS idx_book_reads_sync ON book_reads(user_id, app_id, updated_at);
+
+ALTER TABLE book_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own book reads" ON book_reads
+  FOR ALL USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TIMESTAMPS
+-- ============================================================================
+
+CREATE TRIGGER update_book_reads_updated_at BEFORE UPDATE ON book_reads
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_book_reads_updated_at BEFORE INSERT ON book_reads
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TOMBSTONES
+-- ============================================================================
+
+CREATE TRIGGER record_book_reads_deletion AFTER DELETE ON book_reads
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();
@@ -0,0 +1,17 @@
+-- ============================================================================
+-- BookBuddy Ratings & Reviews
+-- Allow half-star ratings and keep a written review (with a spoiler flag) per book
+-- ============================================================================
+
+ALTER TABLE books DROP CONSTRAINT IF EXISTS books_rating_check;
+ALTER TABLE books ALTER COLUMN rating TYPE NUMERIC(2,1);
+ALTER TABLE books ADD CONSTRAINT books_rating_check
+  CHECK (rating >= 0.5 AND rating <= 5 AND rating * 2 = FLOOR(rating * 2));
+
+ALTER TABLE book_reads DROP CONSTRAINT IF EXISTS book_reads_rating_check;
+ALTER TABLE book_reads ALTER COLUMN rating TYPE NUMERIC(2,1);
+ALTER TABLE book_reads ADD CONSTRAINT book_reads_rating_check
+  CHECK (rating >= 0.5 AND rating <= 5 AND rating * 2 = FLOOR(rating * 2));
+
+ALTER TABLE books ADD COLUMN IF NOT EXISTS review TEXT;
+ALTER TABLE books ADD COLUMN IF NOT EXISTS review_spoiler BOOLEAN NOT NULL DEFAULT FALSE;
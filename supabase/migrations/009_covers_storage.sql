@@ -0,0 +1,27 @@
+-- ============================================================================
+-- BookBuddy Cover Storage
+-- Public bucket for book covers; each user writes only under their own folder
+-- (<user id>/<book id>-<timestamp>.jpg)
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('bookbuddy-covers', 'bookbuddy-covers', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Covers are publicly readable" ON storage.objects
+  FOR SELECT USING (bucket_id = 'bookbuddy-covers');
+
+CREATE POLICY "Users can upload own covers" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'bookbuddy-covers' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update own covers" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'bookbuddy-covers' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own covers" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'bookbuddy-covers' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
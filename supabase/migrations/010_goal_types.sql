@@ -0,0 +1,46 @@
+-- ============================================================================
+-- BookBuddy Goal Types
+-- Goals repeat yearly, monthly or weekly, or cover a custom date range, and
+-- count books, pages or minutes. A user may have several, so goals are synced
+-- by id instead of one row per year.
+-- ============================================================================
+
+ALTER TABLE reading_goals DROP CONSTRAINT IF EXISTS reading_goals_user_id_app_id_year_key;
+ALTER TABLE reading_goals ALTER COLUMN year DROP NOT NULL;
+
+ALTER TABLE reading_goals
+  ADD COLUMN IF NOT EXISTS period TEXT NOT NULL DEFAULT 'yearly'
+    CHECK (period IN ('yearly', 'monthly', 'weekly', 'custom')),
+  ADD COLUMN IF NOT EXISTS metric TEXT NOT NULL DEFAULT 'books'
+    CHECK (metric IN ('books', 'pages', 'minutes')),
+  ADD COLUMN IF NOT EXISTS target INTEGER,
+  ADD COLUMN IF NOT EXISTS start_date DATE,
+  ADD COLUMN IF NOT EXISTS end_date DATE;
+
+-- ============================================================================
+-- EXISTING GOALS
+-- Each covered its year; a page target becomes a goal of its own. Its id is the
+-- original goal's with the first group all f, as the app's local v10 migration
+-- does, so a device and the server split off the same goal.
+-- ============================================================================
+
+INSERT INTO reading_goals (id, user_id, app_id, year, period, metric, target, start_date, end_date)
+SELECT ('ffffffff' || substr(id::text, 9))::uuid, user_id, app_id, year, 'yearly', 'pages', target_pages,
+  make_date(year, 1, 1), make_date(year, 12, 31)
+FROM reading_goals
+WHERE target IS NULL AND target_pages > 0;
+
+UPDATE reading_goals
+SET target = COALESCE(target_books, 12),
+    start_date = make_date(year, 1, 1),
+    end_date = make_date(year, 12, 31)
+WHERE target IS NULL;
+
+ALTER TABLE reading_goals
+  ALTER COLUMN target SET NOT NULL,
+  ALTER COLUMN start_date SET NOT NULL,
+  ADD CONSTRAINT reading_goals_target_positive CHECK (target > 0),
+  ADD CONSTRAINT reading_goals_date_order CHECK (end_date IS NULL OR end_date >= start_date),
+  ADD CONSTRAINT reading_goals_custom_end CHECK (period <> 'custom' OR end_date IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_reading_goals_user ON reading_goals(user_id, app_id, start_date);
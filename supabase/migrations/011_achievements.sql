@@ -0,0 +1,39 @@
+-- ============================================================================
+-- BookBuddy Achievements
+-- One row per badge a user has unlocked, so it is announced on one device only
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS achievements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  app_id TEXT NOT NULL,
+  achievement_id TEXT NOT NULL,
+  unlocked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, app_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_achievements_sync ON achievements(user_id, app_id, updated_at);
+
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own achievements" ON achievements
+  FOR ALL USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TIMESTAMPS
+-- ============================================================================
+
+CREATE TRIGGER update_achievements_updated_at BEFORE UPDATE ON achievements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_achievements_updated_at BEFORE INSERT ON achievements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TOMBSTONES
+-- ============================================================================
+
+CREATE TRIGGER record_achievements_deletion AFTER DELETE ON achievements
+  FOR EACH ROW EXECUTE FUNCTION public.record_deletion();